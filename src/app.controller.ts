@@ -4,6 +4,7 @@ import { PinoLogger } from 'nestjs-pino';
 import { pickSafeFields, sanitizeObject } from '@/common/utils';
 
 import { AppService } from './app.service';
+import { LoginDto } from './dto/login.dto';
 
 /**
  * Example application controller demonstrating logging patterns
@@ -84,11 +85,12 @@ export class AppController {
    * Route demonstrating safe logging with redaction utilities
    */
   @Post('login')
-  login(@Body() credentials: { username: string; password: string; token?: string }): string {
+  login(@Body() credentials: LoginDto): string {
     // Example 1: Using the sanitizeObject utility
-    // This automatically redacts sensitive fields like password and token
+    // This masks the properties marked with @Sensitive() on LoginDto and other sensitive fields
     this.logger.info({ credentials: sanitizeObject(credentials) }, 'Login attempt received');
-    // Will log: { credentials: { username: "user123", password: "[REDACTED]", token: "[REDACTED]" } }
+    // Will log: { credentials: { username: "user123", password: "[REDACTED]", token: "****56" } }
+    // Pino's redact paths leave sanitized fields as they are, so the token keeps its strategy
 
     // Example 2: Using the pickSafeFields utility
     // This explicitly selects only safe fields to log
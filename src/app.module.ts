@@ -2,11 +2,24 @@ import { Module } from '@nestjs/common';
 
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuditModule } from './common/audit/audit.module';
+import { RequestContextModule } from './common/context/request-context.module';
+import { ExceptionsModule } from './common/exceptions/exceptions.module';
+import { I18nModule } from './common/i18n/i18n.module';
 import { LoggerModule } from './common/logger/logger.module';
+import { TracingModule } from './common/tracing/tracing.module';
 import { ConfigModule } from './config/config.module';
 
 @Module({
-  imports: [ConfigModule, LoggerModule],
+  imports: [
+    ConfigModule,
+    RequestContextModule,
+    TracingModule,
+    LoggerModule,
+    I18nModule,
+    ExceptionsModule,
+    AuditModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
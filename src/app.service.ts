@@ -1,11 +1,14 @@
 import { Injectable } from '@nestjs/common';
 
 import { CustomLoggerService } from './common/logger/logger.service';
+import { Timed } from './common/logger/timed.decorator';
 
 /**
  * Example application service
+ * Every method call is timed and logged at trace level
  */
 @Injectable()
+@Timed()
 export class AppService {
   constructor(private readonly logger: CustomLoggerService) {
     // Remove the setContext call since it's not supported in our custom logger
@@ -0,0 +1,166 @@
+import { createHash } from 'node:crypto';
+
+import {
+  AuditChainHead,
+  AuditEntry,
+  AuditRecord,
+  AuditVerificationResult,
+} from './audit.interface';
+
+/**
+ * previousHash of the first entry in a chain
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Compare strings by UTF-16 code units, which unlike localeCompare gives the same order on every host
+ */
+function compareKeys(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Serialize a value as JSON with object keys in sorted order
+ * Gives the same text for equal content regardless of key order,
+ * and for values with toJSON such as dates as for the strings they are stored as
+ */
+export function canonicalJson(value: unknown): string {
+  if (value && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalJson((value as { toJSON: () => unknown }).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort(compareKeys)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute the hash of an entry
+ * @param entry Entry without its hash
+ * @returns Hex SHA-256 hash
+ */
+export function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * Add a record to the chain after the given entry
+ * @param record Record to add; it is copied
+ * @param previous Last entry of the chain, if any
+ * @returns The chained entry
+ */
+export function chainAuditRecord(record: AuditRecord, previous?: AuditChainHead): AuditEntry {
+  const unsigned: Omit<AuditEntry, 'hash'> = {
+    // Copy the record so later changes to its params do not break the chain
+    ...structuredClone(record),
+    sequence: (previous?.sequence ?? 0) + 1,
+    previousHash: previous?.hash ?? GENESIS_HASH,
+  };
+  return { ...unsigned, hash: computeAuditHash(unsigned) };
+}
+
+/**
+ * Incremental verifier for a chain of entries, in order
+ */
+export class AuditChainVerifier {
+  private entries = 0;
+  private lastHash = GENESIS_HASH;
+  private error?: AuditVerificationResult['error'];
+
+  /**
+   * @param head Head recorded when the chain was last written; entries after it are accepted
+   */
+  constructor(private readonly head?: AuditChainHead) {}
+
+  /**
+   * Check the next entry
+   * @returns Whether the chain is still valid
+   */
+  next(entry: AuditEntry): boolean {
+    if (this.error) {
+      return false;
+    }
+
+    const reason = this.check(entry);
+    if (reason) {
+      this.error = { sequence: this.entries + 1, reason };
+      return false;
+    }
+
+    this.entries += 1;
+    this.lastHash = entry.hash;
+    return true;
+  }
+
+  /**
+   * Record an entry that could not be read
+   */
+  fail(reason: string): void {
+    this.error ??= { sequence: this.entries + 1, reason };
+  }
+
+  result(): AuditVerificationResult {
+    if (this.head && this.entries < this.head.sequence) {
+      this.fail(
+        `Expected ${this.head.sequence} entries as recorded in the head, found ${this.entries}`,
+      );
+    }
+    return {
+      valid: !this.error,
+      entries: this.entries,
+      lastHash: this.lastHash,
+      ...(this.error && { error: this.error }),
+    };
+  }
+
+  /**
+   * Check an entry against its predecessor
+   * @returns Why the entry breaks the chain, if it does
+   */
+  private check(entry: AuditEntry): string | undefined {
+    const expectedSequence = this.entries + 1;
+    if (entry.sequence !== expectedSequence) {
+      return `Expected sequence ${expectedSequence}, found ${entry.sequence}`;
+    }
+    if (entry.previousHash !== this.lastHash) {
+      return 'Previous hash does not match';
+    }
+
+    const { hash, ...unsigned } = entry;
+    if (computeAuditHash(unsigned) !== hash) {
+      return 'Entry hash does not match its content';
+    }
+    return entry.sequence === this.head?.sequence && hash !== this.head.hash
+      ? 'Entry hash does not match the recorded head'
+      : undefined;
+  }
+}
+
+/**
+ * Verify a chain of entries
+ * @param entries Entries in order
+ * @returns Verification result
+ */
+export function verifyAuditChain(entries: Iterable<AuditEntry>): AuditVerificationResult {
+  const verifier = new AuditChainVerifier();
+  for (const entry of entries) {
+    if (!verifier.next(entry)) {
+      break;
+    }
+  }
+  return verifier.result();
+}
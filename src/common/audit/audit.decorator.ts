@@ -0,0 +1,134 @@
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { finalize, Observable, tap } from 'rxjs';
+
+import { AuditEvent, AuditOutcome } from './audit.interface';
+import { AuditService } from './audit.service';
+
+/**
+ * Options of an audited handler
+ */
+export interface AuditOptions {
+  /**
+   * Action performed, e.g. user.update
+   */
+  action: string;
+
+  /**
+   * Resource type, e.g. User
+   */
+  resource: string;
+
+  /**
+   * Route parameter holding the resource identifier, defaults to id
+   */
+  resourceIdParam?: string;
+}
+
+/**
+ * Metadata key for audit options
+ */
+export const AUDIT_OPTIONS_KEY = 'audit:options';
+
+/**
+ * Collect the non-empty route parameters, query and body of a request
+ */
+function getRequestParams(request: Request): Record<string, unknown> | undefined {
+  const params = Object.fromEntries(
+    Object.entries({
+      params: request.params,
+      query: request.query,
+      body: request.body as unknown,
+    }).filter(([, value]) => value && typeof value === 'object' && Object.keys(value).length > 0),
+  );
+  return Object.keys(params).length > 0 ? params : undefined;
+}
+
+/**
+ * Interceptor recording an audit entry when an audited handler completes or fails,
+ * or when the client unsubscribes before either, e.g. on disconnect
+ * Audit failures are logged and do not affect the response
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(AuditInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly audit: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.get<AuditOptions | undefined>(
+      AUDIT_OPTIONS_KEY,
+      context.getHandler(),
+    );
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const resourceId = request.params?.[options.resourceIdParam ?? 'id'];
+    const event: Omit<AuditEvent, 'outcome'> = {
+      action: options.action,
+      resource: options.resource,
+      ...(resourceId && { resourceId }),
+      params: getRequestParams(request),
+    };
+
+    let recorded = false;
+    const recordOnce = (outcome: AuditOutcome, error?: unknown): void => {
+      if (!recorded) {
+        recorded = true;
+        this.record({ ...event, outcome, ...(error !== undefined && { error }) });
+      }
+    };
+
+    return next.handle().pipe(
+      tap({
+        complete: () => recordOnce(AuditOutcome.Success),
+        error: (error: unknown) => recordOnce(AuditOutcome.Failure, error),
+      }),
+      finalize(() => recordOnce(AuditOutcome.Aborted)),
+    );
+  }
+
+  private record(event: AuditEvent): void {
+    this.audit.record(event).catch((error: unknown) => {
+      this.logger.error(
+        `Failed to record audit entry for ${event.action}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+  }
+}
+
+/**
+ * Record an audit entry for every call of a handler
+ * The entry includes the outcome, the ErrorCode of failures and the sanitized
+ * route parameters, query and body
+ *
+ * @example
+ * ```typescript
+ * @Patch(':id')
+ * @Audit({ action: 'user.update', resource: 'User' })
+ * update(@Param('id') id: string, @Body() dto: UpdateUserDto) {}
+ * ```
+ *
+ * @param options Audit options
+ */
+export function Audit(options: AuditOptions): MethodDecorator {
+  return applyDecorators(
+    SetMetadata(AUDIT_OPTIONS_KEY, options),
+    UseInterceptors(AuditInterceptor),
+  );
+}
@@ -0,0 +1,136 @@
+import { ErrorCode } from '../exceptions/error-codes.enum';
+
+/**
+ * Outcome of an audited action
+ * - aborted: the client unsubscribed, e.g. disconnected, before the handler completed or failed
+ */
+export enum AuditOutcome {
+  Success = 'success',
+  Failure = 'failure',
+  Aborted = 'aborted',
+}
+
+/**
+ * Who performed an audited action
+ * - user: an authenticated user
+ * - anonymous: an unauthenticated request
+ * - system: code running outside any request, e.g. a scheduled job
+ */
+export interface AuditActor {
+  type: 'user' | 'anonymous' | 'system';
+  id?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Resource an audited action was performed on
+ */
+export interface AuditTarget {
+  resource: string;
+  id?: string;
+}
+
+/**
+ * Audit event recorded through AuditService
+ */
+export interface AuditEvent {
+  /**
+   * Action performed, e.g. user.update
+   */
+  action: string;
+
+  /**
+   * Resource type, e.g. User
+   */
+  resource: string;
+
+  /**
+   * Identifier of the affected resource
+   */
+  resourceId?: string | number;
+
+  outcome: AuditOutcome;
+
+  /**
+   * Error that made the action fail; its ErrorCode is recorded
+   */
+  error?: unknown;
+
+  /**
+   * Actor, defaults to the user of the current request
+   */
+  actor?: AuditActor;
+
+  /**
+   * Parameters of the action; sensitive fields are redacted before storing
+   */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Audit entry content, before it is added to the hash chain
+ */
+export interface AuditRecord {
+  timestamp: string;
+  actor: AuditActor;
+  action: string;
+  target: AuditTarget;
+  outcome: AuditOutcome;
+  errorCode?: ErrorCode;
+  correlationId?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Stored audit entry
+ *
+ * Each entry includes the hash of its predecessor, so modifying, removing or
+ * reordering entries breaks the chain.
+ */
+export interface AuditEntry extends AuditRecord {
+  /**
+   * Position in the chain, starting at 1
+   */
+  sequence: number;
+
+  /**
+   * Hash of the previous entry, or the genesis hash for the first entry
+   */
+  previousHash: string;
+
+  /**
+   * SHA-256 hash of this entry's content, including previousHash
+   */
+  hash: string;
+}
+
+/**
+ * Last entry of a chain as recorded outside of it, to detect entries removed from its end
+ */
+export type AuditChainHead = Pick<AuditEntry, 'sequence' | 'hash'>;
+
+/**
+ * Result of verifying an audit chain
+ */
+export interface AuditVerificationResult {
+  valid: boolean;
+
+  /**
+   * Number of entries verified
+   */
+  entries: number;
+
+  /**
+   * Hash of the last valid entry
+   */
+  lastHash: string;
+
+  /**
+   * First problem found
+   */
+  error?: {
+    sequence: number;
+    reason: string;
+  };
+}
@@ -0,0 +1,31 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { ConfigModule } from '../../config/config.module';
+import { RequestContextModule } from '../context/request-context.module';
+
+import { AuditInterceptor } from './audit.decorator';
+import { AuditService } from './audit.service';
+import { createAuditStore } from './stores/audit-store.factory';
+import { AUDIT_STORE } from './stores/audit-store.interface';
+
+/**
+ * Audit module that provides the audit service and the configured audit store
+ *
+ * Global so any controller can use @Audit() and any service can record entries
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, RequestContextModule],
+  providers: [
+    AuditService,
+    AuditInterceptor,
+    {
+      provide: AUDIT_STORE,
+      inject: [ConfigService],
+      useFactory: createAuditStore,
+    },
+  ],
+  exports: [AuditService, AuditInterceptor, AUDIT_STORE],
+})
+export class AuditModule {}
@@ -0,0 +1,90 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+
+import { RequestContextService } from '../context/request-context.service';
+import { BaseException } from '../exceptions/base.exception';
+import { ErrorCode } from '../exceptions/error-codes.enum';
+import { ExceptionMapperService } from '../exceptions/services/exception-mapper.service';
+import { sanitizeObject } from '../utils/sensitive-data.utils';
+
+import {
+  AuditActor,
+  AuditEntry,
+  AuditEvent,
+  AuditOutcome,
+  AuditVerificationResult,
+} from './audit.interface';
+import { AUDIT_STORE, AuditStore } from './stores/audit-store.interface';
+
+/**
+ * Records audit entries in the configured append-only store
+ *
+ * Fills in the actor and correlation ID from the current request context, resolves
+ * the ErrorCode of failures and redacts sensitive parameters before storing.
+ */
+@Injectable()
+export class AuditService {
+  constructor(
+    @Inject(AUDIT_STORE) private readonly store: AuditStore,
+    private readonly requestContext: RequestContextService,
+    @Optional() private readonly exceptionMapper?: ExceptionMapperService,
+  ) {}
+
+  /**
+   * Record an audit event
+   * @param event The audit event
+   * @returns The stored entry
+   */
+  record(event: AuditEvent): Promise<AuditEntry> {
+    return this.store.append({
+      timestamp: new Date().toISOString(),
+      actor: event.actor ?? this.getCurrentActor(),
+      action: event.action,
+      target: {
+        resource: event.resource,
+        ...(event.resourceId !== undefined && { id: String(event.resourceId) }),
+      },
+      outcome: event.outcome,
+      errorCode:
+        event.outcome === AuditOutcome.Failure ? this.resolveErrorCode(event.error) : undefined,
+      correlationId: this.requestContext.getCorrelationId(),
+      params: event.params && sanitizeObject(event.params),
+    });
+  }
+
+  /**
+   * Verify the integrity of the stored audit chain
+   */
+  verify(): Promise<AuditVerificationResult> {
+    return this.store.verify();
+  }
+
+  /**
+   * Get the actor of the current request, or the system outside any request
+   */
+  getCurrentActor(): AuditActor {
+    const context = this.requestContext.getContext();
+    if (!context) {
+      return { type: 'system' };
+    }
+
+    const userId = this.requestContext.getUser()?.id;
+    const request = context.request;
+    return {
+      type: userId === undefined ? 'anonymous' : 'user',
+      ...(userId !== undefined && { id: String(userId) }),
+      ...(request?.ip && { ip: request.ip }),
+      ...(request?.headers['user-agent'] && { userAgent: request.headers['user-agent'] }),
+    };
+  }
+
+  private resolveErrorCode(error: unknown): ErrorCode | undefined {
+    if (error === undefined) {
+      return undefined;
+    }
+    if (error instanceof BaseException) {
+      return error.errorCode;
+    }
+    return (this.exceptionMapper?.mapExceptionToResponse(error).errorCode ??
+      ErrorCode.INTERNAL_SERVER_ERROR) as ErrorCode;
+  }
+}
@@ -0,0 +1,6 @@
+export * from './audit-chain';
+export * from './audit.decorator';
+export * from './audit.interface';
+export * from './audit.module';
+export * from './audit.service';
+export * from './stores';
@@ -0,0 +1,24 @@
+import { ConfigService } from '@nestjs/config';
+
+import { AuditStore, AuditStoreType } from './audit-store.interface';
+import { FileAuditStore } from './file-audit.store';
+import { InMemoryAuditStore } from './in-memory-audit.store';
+
+/**
+ * Default NDJSON file for the file store
+ */
+export const DEFAULT_AUDIT_LOG_PATH = 'logs/audit.ndjson';
+
+/**
+ * Create the audit store selected by AUDIT_STORE
+ *
+ * @param configService Configuration service
+ * @returns Configured audit store, the file store by default
+ */
+export function createAuditStore(configService: ConfigService): AuditStore {
+  if (configService.get<string>('AUDIT_STORE') === AuditStoreType.Memory) {
+    return new InMemoryAuditStore();
+  }
+
+  return new FileAuditStore(configService.get<string>('AUDIT_LOG_PATH') || DEFAULT_AUDIT_LOG_PATH);
+}
@@ -0,0 +1,40 @@
+import { AuditEntry, AuditRecord, AuditVerificationResult } from '../audit.interface';
+
+/**
+ * Injection token for the configured audit store
+ */
+export const AUDIT_STORE = Symbol('AUDIT_STORE');
+
+/**
+ * Built-in audit stores
+ * - file: entries are appended to a local NDJSON file
+ * - memory: entries are kept in memory, for tests and local development
+ */
+export enum AuditStoreType {
+  File = 'file',
+  Memory = 'memory',
+}
+
+/**
+ * Append-only store for hash-chained audit entries
+ */
+export interface AuditStore {
+  /**
+   * Add a record to the end of the chain
+   * Appends are applied in call order
+   *
+   * @param record Record to add
+   * @returns The stored entry
+   */
+  append(record: AuditRecord): Promise<AuditEntry>;
+
+  /**
+   * Verify the integrity of all stored entries
+   */
+  verify(): Promise<AuditVerificationResult>;
+
+  /**
+   * Wait for pending appends and release resources
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,201 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, WriteStream } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { AuditChainVerifier, chainAuditRecord } from '../audit-chain';
+import {
+  AuditChainHead,
+  AuditEntry,
+  AuditRecord,
+  AuditVerificationResult,
+} from '../audit.interface';
+
+import { AuditStore } from './audit-store.interface';
+
+/**
+ * Read the entries of an NDJSON audit file in order
+ * @param filePath Path of the file
+ * @returns Parsed entries, or the line number and error of the first unreadable line
+ */
+async function* readAuditFile(filePath: string): AsyncGenerator<AuditEntry | Error> {
+  if (!existsSync(filePath)) {
+    return;
+  }
+
+  const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber += 1;
+    if (!line.trim()) {
+      continue;
+    }
+
+    try {
+      yield JSON.parse(line) as AuditEntry;
+    } catch {
+      yield new Error(`Line ${lineNumber} is not valid JSON`);
+    }
+  }
+}
+
+/**
+ * Get the path of the file recording the head of an audit file
+ * @param filePath Path of the audit file
+ */
+export function getAuditHeadPath(filePath: string): string {
+  return `${filePath}.head`;
+}
+
+/**
+ * Read the head recorded next to an audit file
+ * @param filePath Path of the audit file
+ * @returns The head, undefined if none was recorded, or the error of an unreadable head file
+ */
+async function readAuditHead(filePath: string): Promise<AuditChainHead | Error | undefined> {
+  const headPath = getAuditHeadPath(filePath);
+  if (!existsSync(headPath)) {
+    return undefined;
+  }
+
+  try {
+    const { sequence, hash } = JSON.parse(await readFile(headPath, 'utf8')) as AuditChainHead;
+    return { sequence, hash };
+  } catch {
+    return new Error(`Head file ${headPath} is not valid JSON`);
+  }
+}
+
+/**
+ * Verify the hash chain of an NDJSON audit file
+ * Entries removed from the end are detected against the head recorded next to the file
+ * @param filePath Path of the file
+ * @returns Verification result; a missing file is an empty, valid chain
+ */
+export async function verifyAuditFile(filePath: string): Promise<AuditVerificationResult> {
+  const head = await readAuditHead(filePath);
+  const verifier = new AuditChainVerifier(head instanceof Error ? undefined : head);
+  if (head instanceof Error) {
+    verifier.fail(head.message);
+  }
+  for await (const entry of readAuditFile(filePath)) {
+    if (entry instanceof Error) {
+      verifier.fail(entry.message);
+      break;
+    }
+    if (!verifier.next(entry)) {
+      break;
+    }
+  }
+  return verifier.result();
+}
+
+/**
+ * Audit store appending entries to a local NDJSON file, one entry per line
+ *
+ * The file is only ever opened for appending. On the first append the last entry
+ * is read back so that the chain continues across restarts.
+ * After each append the new head is recorded in a separate file (see getAuditHeadPath),
+ * so that entries removed from the end of the file can be detected.
+ */
+export class FileAuditStore implements AuditStore, OnModuleDestroy {
+  private readonly logger = new Logger(FileAuditStore.name);
+  private stream?: WriteStream;
+  private lastEntry?: AuditChainHead;
+  private pending: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+
+  /**
+   * @param filePath Path of the NDJSON file, created with its directory if missing
+   */
+  constructor(readonly filePath: string) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.close();
+  }
+
+  append(record: AuditRecord): Promise<AuditEntry> {
+    // Chain appends so that each entry is hashed after its predecessor was written
+    const appended = this.pending.then(() => this.write(record));
+    this.pending = appended.catch(() => null);
+    return appended;
+  }
+
+  async verify(): Promise<AuditVerificationResult> {
+    await this.pending;
+    return verifyAuditFile(this.filePath);
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+    const stream = this.stream;
+    if (!stream || stream.writableEnded) {
+      return;
+    }
+    await new Promise<void>((resolve) => stream.end(resolve));
+  }
+
+  private async write(record: AuditRecord): Promise<AuditEntry> {
+    const stream = await this.open();
+    const entry = chainAuditRecord(record, this.lastEntry);
+
+    await new Promise<void>((resolve, reject) => {
+      stream.write(`${JSON.stringify(entry)}\n`, (error) => (error ? reject(error) : resolve()));
+    });
+    this.lastEntry = entry;
+    await this.writeHead(entry);
+    return entry;
+  }
+
+  /**
+   * Replace the head file, through a temporary file so it is never left half written
+   */
+  private async writeHead({ sequence, hash }: AuditEntry): Promise<void> {
+    const headPath = getAuditHeadPath(this.filePath);
+    await writeFile(`${headPath}.tmp`, JSON.stringify({ sequence, hash }));
+    await rename(`${headPath}.tmp`, headPath);
+  }
+
+  private async open(): Promise<WriteStream> {
+    if (!this.initialized) {
+      for await (const entry of readAuditFile(this.filePath)) {
+        if (entry instanceof Error) {
+          this.logger.warn(`Audit file ${this.filePath} is damaged: ${entry.message}`);
+          continue;
+        }
+        this.lastEntry = entry;
+      }
+      await this.continueFromHead();
+      this.initialized = true;
+    }
+
+    if (!this.stream) {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.stream = createWriteStream(this.filePath, { flags: 'a' });
+      this.stream.on('error', (error) =>
+        this.logger.error(`Failed to write audit entry: ${error.message}`),
+      );
+    }
+    return this.stream;
+  }
+
+  /**
+   * Continue the chain after the recorded head when entries are missing from the end of the file,
+   * so that the gap stays visible to verification
+   */
+  private async continueFromHead(): Promise<void> {
+    const head = await readAuditHead(this.filePath);
+    if (head instanceof Error) {
+      this.logger.warn(`Audit file ${this.filePath} is damaged: ${head.message}`);
+      return;
+    }
+    if (head && head.sequence > (this.lastEntry?.sequence ?? 0)) {
+      this.logger.warn(
+        `Audit file ${this.filePath} ends before its recorded head, entry ${head.sequence}`,
+      );
+      this.lastEntry = head;
+    }
+  }
+}
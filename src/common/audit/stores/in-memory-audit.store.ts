@@ -0,0 +1,33 @@
+import { chainAuditRecord, verifyAuditChain } from '../audit-chain';
+import { AuditEntry, AuditRecord, AuditVerificationResult } from '../audit.interface';
+
+import { AuditStore } from './audit-store.interface';
+
+/**
+ * Audit store keeping entries in memory
+ * Entries are lost on restart, so this store is meant for tests and local development
+ */
+export class InMemoryAuditStore implements AuditStore {
+  private readonly entries: AuditEntry[] = [];
+
+  append(record: AuditRecord): Promise<AuditEntry> {
+    const entry = chainAuditRecord(record, this.entries.at(-1));
+    this.entries.push(entry);
+    return Promise.resolve(entry);
+  }
+
+  verify(): Promise<AuditVerificationResult> {
+    return Promise.resolve(verifyAuditChain(this.entries));
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Get the stored entries
+   */
+  getEntries(): AuditEntry[] {
+    return [...this.entries];
+  }
+}
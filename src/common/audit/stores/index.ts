@@ -0,0 +1,4 @@
+export * from './audit-store.factory';
+export * from './audit-store.interface';
+export * from './file-audit.store';
+export * from './in-memory-audit.store';
@@ -0,0 +1,28 @@
+import { DEFAULT_AUDIT_LOG_PATH } from './stores/audit-store.factory';
+import { verifyAuditFile } from './stores/file-audit.store';
+
+/**
+ * Verify the hash chain of an audit file
+ *
+ * Usage: yarn audit:verify [path] (defaults to AUDIT_LOG_PATH or logs/audit.ndjson)
+ * Exits with status 1 when the chain is broken.
+ */
+async function main(): Promise<void> {
+  const filePath = process.argv[2] || process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH;
+  const result = await verifyAuditFile(filePath);
+
+  if (result.valid) {
+    process.stdout.write(
+      `Audit log ${filePath} is intact: ${result.entries} entries, last hash ${result.lastHash}\n`,
+    );
+    return;
+  }
+
+  process.stderr.write(
+    `Audit log ${filePath} has been tampered with at entry ${result.error?.sequence}: ${result.error?.reason}\n` +
+      `${result.entries} entries before it are intact, last valid hash ${result.lastHash}\n`,
+  );
+  process.exitCode = 1;
+}
+
+void main();
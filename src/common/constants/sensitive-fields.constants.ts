@@ -1,3 +1,5 @@
+import { RedactionRule } from '../utils/redaction-rules.utils';
+
 /**
  * List of common field names that might contain sensitive information
  * This constant is used throughout the application for sanitizing data in logs and error responses
@@ -30,3 +32,31 @@ export const SENSITIVE_FIELDS = [
   'email',
   'phone',
 ];
+
+/**
+ * Request and response headers that contain sensitive information
+ */
+export const SENSITIVE_HEADER_PATHS = [
+  'req.headers.authorization',
+  'req.headers.cookie',
+  'req.headers.x-api-key',
+  'req.headers.x-token',
+  'res.headers.set-cookie',
+];
+
+/**
+ * Redaction rules applied to log lines and sanitized objects
+ * Field names match as words of a key, so `token` redacts `refreshToken` but not `tokenizerVersion`
+ */
+export const REDACTION_RULES: RedactionRule[] = [
+  ...SENSITIVE_FIELDS.map((pattern): RedactionRule => ({ pattern, match: 'word' })),
+  ...SENSITIVE_HEADER_PATHS.map((pattern): RedactionRule => ({ pattern, match: 'path' })),
+];
+
+/**
+ * Keys never redacted by REDACTION_RULES, although they contain a sensitive word
+ */
+export const REDACTION_ALLOWLIST: RedactionRule[] = [
+  // OAuth token type, e.g. Bearer
+  { pattern: 'tokenType', match: 'exact' },
+];
@@ -0,0 +1,4 @@
+export * from './request-context.interface';
+export * from './request-context.middleware';
+export * from './request-context.module';
+export * from './request-context.service';
@@ -0,0 +1,46 @@
+import { Request } from 'express';
+
+import { TraceContext } from '../tracing/trace-context';
+
+/**
+ * Authenticated user of the current request
+ */
+export interface RequestContextUser {
+  id?: string | number;
+  [key: string]: unknown;
+}
+
+/**
+ * State carried through the asynchronous execution of a request, job or event handler
+ */
+export interface RequestContext {
+  /**
+   * Correlation ID for tracing logs across the execution
+   */
+  correlationId: string;
+
+  /**
+   * Authenticated user, set explicitly or read from request.user
+   */
+  user?: RequestContextUser;
+
+  /**
+   * Tenant the execution belongs to
+   */
+  tenantId?: string;
+
+  /**
+   * Arbitrary key-value pairs added to every log line
+   */
+  bindings: Record<string, unknown>;
+
+  /**
+   * Active span, used as parent for new spans and added to log lines
+   */
+  traceContext?: TraceContext;
+
+  /**
+   * HTTP request the context was created for, if any
+   */
+  request?: Request;
+}
@@ -0,0 +1,36 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+
+import { Span } from '../tracing/span';
+
+import { RequestContextService } from './request-context.service';
+
+/**
+ * Middleware running the rest of the request in a new request context
+ * Must be applied after CorrelationIdMiddleware so the context uses the request's correlation ID
+ * and server span
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  /**
+   * Header name of the tenant ID
+   */
+  public static readonly TENANT_ID_HEADER = 'X-Tenant-ID';
+
+  constructor(private readonly requestContext: RequestContextService) {}
+
+  use(request: Request, _response: Response, next: NextFunction): void {
+    const tenantId = request.headers[RequestContextMiddleware.TENANT_ID_HEADER.toLowerCase()];
+    const span = (request as Request & { span?: Span }).span;
+
+    this.requestContext.run(
+      {
+        correlationId: (request as Request & { correlationId?: string }).correlationId,
+        tenantId: typeof tenantId === 'string' && tenantId ? tenantId : undefined,
+        request,
+        traceContext: span?.spanContext(),
+      },
+      next,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+
+import { RequestContextMiddleware } from './request-context.middleware';
+import { RequestContextService } from './request-context.service';
+
+/**
+ * Request context module
+ * Global so any service can read the current request context
+ */
+@Global()
+@Module({
+  providers: [RequestContextService, RequestContextMiddleware],
+  exports: [RequestContextService, RequestContextMiddleware],
+})
+export class RequestContextModule {}
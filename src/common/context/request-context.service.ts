@@ -0,0 +1,157 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+import { Injectable } from '@nestjs/common';
+
+import { TraceContext } from '../tracing/trace-context';
+
+import { RequestContext, RequestContextUser } from './request-context.interface';
+
+/**
+ * Storage shared by all RequestContextService instances
+ */
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Request context backed by AsyncLocalStorage
+ *
+ * Lets singleton services read the correlation ID, user, tenant and bindings of the
+ * current execution without being request-scoped. HTTP requests get a context from
+ * RequestContextMiddleware; jobs and event handlers can create one with run().
+ */
+@Injectable()
+export class RequestContextService {
+  /**
+   * Run a function in a new context
+   * Values that are not given are inherited from the current context, except bindings
+   * @param context Initial context values; a correlation ID is generated if missing
+   * @param callback Function to run
+   * @returns The callback's return value
+   */
+  run<T>(context: Partial<RequestContext>, callback: () => T): T {
+    const parent = storage.getStore();
+    return storage.run(
+      {
+        correlationId: context.correlationId ?? parent?.correlationId ?? randomUUID(),
+        user: context.user ?? parent?.user,
+        tenantId: context.tenantId ?? parent?.tenantId,
+        bindings: { ...context.bindings },
+        request: context.request ?? parent?.request,
+        traceContext: context.traceContext ?? parent?.traceContext,
+      },
+      callback,
+    );
+  }
+
+  /**
+   * Run a function with a different active span
+   * The function shares the user, tenant and bindings of the current context;
+   * outside any context a new one is created
+   *
+   * @param traceContext Trace context of the span to activate
+   * @param callback Function to run
+   * @returns The callback's return value
+   */
+  runWithTraceContext<T>(traceContext: TraceContext, callback: () => T): T {
+    const parent = storage.getStore();
+    if (!parent) {
+      return this.run({ traceContext }, callback);
+    }
+    return storage.run({ ...parent, traceContext }, callback);
+  }
+
+  /**
+   * Get the trace context of the active span
+   */
+  getTraceContext(): TraceContext | undefined {
+    return storage.getStore()?.traceContext;
+  }
+
+  /**
+   * Get the current context
+   * @returns The context, or undefined outside a request, job or event handler
+   */
+  getContext(): RequestContext | undefined {
+    return storage.getStore();
+  }
+
+  /**
+   * Get the correlation ID of the current context
+   */
+  getCorrelationId(): string | undefined {
+    return storage.getStore()?.correlationId;
+  }
+
+  /**
+   * Get the user of the current context
+   * Falls back to request.user, which authentication guards populate after the context is created
+   */
+  getUser(): RequestContextUser | undefined {
+    const context = storage.getStore();
+    return context?.user ?? (context?.request as { user?: RequestContextUser } | undefined)?.user;
+  }
+
+  /**
+   * Set the user of the current context
+   * @param user Authenticated user
+   */
+  setUser(user: RequestContextUser): void {
+    const context = storage.getStore();
+    if (context) {
+      context.user = user;
+    }
+  }
+
+  /**
+   * Get the tenant ID of the current context
+   */
+  getTenantId(): string | undefined {
+    return storage.getStore()?.tenantId;
+  }
+
+  /**
+   * Set the tenant ID of the current context
+   * @param tenantId Tenant ID
+   */
+  setTenantId(tenantId: string): void {
+    const context = storage.getStore();
+    if (context) {
+      context.tenantId = tenantId;
+    }
+  }
+
+  /**
+   * Add key-value pairs to every log line written in the current context
+   * @param bindings Values to add
+   */
+  bind(bindings: Record<string, unknown>): void {
+    const context = storage.getStore();
+    if (context) {
+      Object.assign(context.bindings, bindings);
+    }
+  }
+
+  /**
+   * Get the fields to add to log lines written in the current context
+   * @returns correlationId, userId, tenantId and bindings that are set
+   */
+  getLogContext(): Record<string, unknown> {
+    const context = storage.getStore();
+    if (!context) {
+      return {};
+    }
+
+    const logContext: Record<string, unknown> = {
+      ...context.bindings,
+      correlationId: context.correlationId,
+    };
+    const userId = this.getUser()?.id;
+    if (userId !== undefined) {
+      logContext.userId = userId;
+    }
+    if (context.tenantId) {
+      logContext.tenantId = context.tenantId;
+    }
+    return logContext;
+  }
+}
@@ -1,13 +1,50 @@
-import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { ArgumentsHost, Catch, ContextType, ExceptionFilter, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HttpAdapterHost } from '@nestjs/core';
 import { Request, Response } from 'express';
+import { Observable, throwError } from 'rxjs';
 
+import { I18nService } from '../i18n/i18n.service';
 import { CustomLoggerService } from '../logger/logger.service';
 
+import { HttpResponse } from './http-response.interface';
+import {
+  ErrorResponseFormat,
+  PROBLEM_JSON_CONTENT_TYPE,
+  ProblemDetails,
+} from './problem-details.interface';
 import { ErrorLoggerService } from './services/error-logger.service';
 import { ExceptionMapperService } from './services/exception-mapper.service';
 
+/**
+ * Event emitted to WebSocket clients when a handler fails
+ * Matches the event used by the NestJS WebSocket exception filter
+ */
+export const WS_EXCEPTION_EVENT = 'exception';
+
+/**
+ * Error returned to GraphQL resolvers
+ * graphql-js copies the extensions of the original error into the response
+ */
+export class GraphQLErrorResponse extends Error {
+  constructor(
+    message: string,
+    readonly extensions: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'GraphQLErrorResponse';
+  }
+}
+
+/**
+ * Minimal WebSocket client shape (socket.io and ws adapters)
+ */
+interface WsClient {
+  emit?: (event: string, payload: unknown) => void;
+  send?: (payload: string) => void;
+  handshake?: { headers?: Record<string, unknown> };
+}
+
 // AppConfig interface definition (simplified)
 interface AppConfig {
   NODE_ENV: string;
@@ -24,6 +61,7 @@ interface AppConfig {
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
   private readonly isProduction: boolean;
+  private readonly defaultFormat: ErrorResponseFormat;
 
   constructor(
     private readonly httpAdapterHost: HttpAdapterHost,
@@ -31,17 +69,46 @@ export class AllExceptionsFilter implements ExceptionFilter {
     private readonly logger: CustomLoggerService,
     private readonly exceptionMapper: ExceptionMapperService,
     private readonly errorLogger: ErrorLoggerService,
+    @Optional() private readonly i18n?: I18nService,
   ) {
     this.isProduction = configService.get<string>('NODE_ENV') === 'production';
+    this.defaultFormat =
+      configService.get<string>('ERROR_RESPONSE_FORMAT') === ErrorResponseFormat.Problem
+        ? ErrorResponseFormat.Problem
+        : ErrorResponseFormat.Default;
   }
 
   /**
    * Catch and handle all exceptions
+   * Exceptions are mapped and logged the same way for every transport,
+   * and returned in the shape the transport expects
    *
    * @param exception The exception to handle
-   * @param host Host providing request and response
+   * @param host Host providing the transport-specific arguments
+   * @returns An Observable error for RPC, an error for GraphQL, nothing otherwise
+   */
+  catch(exception: unknown, host: ArgumentsHost): unknown {
+    switch (host.getType<ContextType | 'graphql'>()) {
+      case 'ws': {
+        this.handleWsException(exception, host);
+        return;
+      }
+      case 'rpc': {
+        return this.handleRpcException(exception, host);
+      }
+      case 'graphql': {
+        return this.handleGraphqlException(exception, host);
+      }
+      default: {
+        this.handleHttpException(exception, host);
+      }
+    }
+  }
+
+  /**
+   * Reply to an HTTP request with the error response
    */
-  catch(exception: unknown, host: ArgumentsHost): void {
+  private handleHttpException(exception: unknown, host: ArgumentsHost): void {
     const ctx = host.switchToHttp();
     const request = ctx.getRequest<Request>();
     const response = ctx.getResponse<Response>();
@@ -51,12 +118,173 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const correlationId = (request as Request & { correlationId?: string }).correlationId;
 
     // Create the response object using the exception mapper service
-    const responseBody = this.exceptionMapper.mapExceptionToResponse(exception, correlationId);
+    const mappedResponse = this.exceptionMapper.mapExceptionToResponse(exception, correlationId);
 
     // Log the error with appropriate level using the error logger service
-    this.errorLogger.logException(exception, responseBody, request);
+    this.errorLogger.logException(exception, mappedResponse, request);
+
+    // Translate the client-facing messages after logging so logs stay in English
+    const responseBody = this.localize(mappedResponse, exception, request);
+
+    // Tell clients when they may retry
+    if (responseBody.retryAfter !== undefined) {
+      httpAdapter.setHeader(response, 'Retry-After', String(responseBody.retryAfter));
+    }
+
+    // Send RFC 9457 problem details when configured or requested by the client
+    if (this.resolveResponseFormat(request) === ErrorResponseFormat.Problem) {
+      const problem: ProblemDetails = this.exceptionMapper.toProblemDetails(
+        responseBody,
+        request.originalUrl || request.url,
+      );
+      httpAdapter.setHeader(response, 'Content-Type', PROBLEM_JSON_CONTENT_TYPE);
+      httpAdapter.reply(response, problem, problem.status);
+      return;
+    }
 
     // Set HTTP status code and send the response
     httpAdapter.reply(response, responseBody, responseBody.statusCode);
   }
+
+  /**
+   * Emit the error response to the WebSocket client as an exception event
+   */
+  private handleWsException(exception: unknown, host: ArgumentsHost): void {
+    const ctx = host.switchToWs();
+    const client = ctx.getClient<WsClient>();
+    const correlationId = this.getHeader(client.handshake?.headers, 'x-correlation-id');
+    const pattern = (ctx as { getPattern?: () => string }).getPattern?.();
+
+    const responseBody = this.exceptionMapper.mapExceptionToResponse(exception, correlationId);
+    this.errorLogger.logException(exception, responseBody, undefined, {
+      transport: 'ws',
+      route: pattern,
+    });
+
+    if (typeof client.emit === 'function') {
+      client.emit(WS_EXCEPTION_EVENT, responseBody);
+    } else if (typeof client.send === 'function') {
+      client.send(JSON.stringify({ event: WS_EXCEPTION_EVENT, data: responseBody }));
+    }
+  }
+
+  /**
+   * Return the error response as an RPC error payload
+   * Microservice transports serialize the payload back to the caller
+   */
+  private handleRpcException(exception: unknown, host: ArgumentsHost): Observable<never> {
+    const rpcContext = host.switchToRpc().getContext<{ getPattern?: () => string } | undefined>();
+    const pattern = rpcContext?.getPattern?.();
+
+    const responseBody = this.exceptionMapper.mapExceptionToResponse(exception);
+    this.errorLogger.logException(exception, responseBody, undefined, {
+      transport: 'rpc',
+      route: pattern,
+    });
+
+    return throwError(() => responseBody);
+  }
+
+  /**
+   * Return a GraphQL error carrying the error response in its extensions
+   */
+  private handleGraphqlException(exception: unknown, host: ArgumentsHost): GraphQLErrorResponse {
+    // GraphQL resolver arguments are (root, args, context, info)
+    const context = host.getArgByIndex<{ req?: Request } | undefined>(2);
+    const info = host.getArgByIndex<{ parentType?: { name?: string }; fieldName?: string }>(3);
+    const request = context?.req;
+    const correlationId = (request as (Request & { correlationId?: string }) | undefined)
+      ?.correlationId;
+
+    const mappedResponse = this.exceptionMapper.mapExceptionToResponse(exception, correlationId);
+    this.errorLogger.logException(exception, mappedResponse, undefined, {
+      transport: 'graphql',
+      route: info?.fieldName ? `${info.parentType?.name ?? ''}.${info.fieldName}` : undefined,
+    });
+
+    const responseBody = request
+      ? this.localize(mappedResponse, exception, request)
+      : mappedResponse;
+
+    return new GraphQLErrorResponse(responseBody.message, {
+      code: responseBody.errorCode,
+      statusCode: responseBody.statusCode,
+      correlationId: responseBody.correlationId,
+      retryable: responseBody.retryable,
+      retryAfter: responseBody.retryAfter,
+      backoff: responseBody.backoff,
+      errors: responseBody.errors,
+      violations: responseBody.violations,
+      data: responseBody.data,
+      timestamp: responseBody.timestamp,
+    });
+  }
+
+  /**
+   * Translate the response for the request locale when i18n is available
+   */
+  private localize(response: HttpResponse, exception: unknown, request: Request): HttpResponse {
+    return this.i18n
+      ? this.exceptionMapper.localizeResponse(response, exception, this.i18n.resolveLocale(request))
+      : response;
+  }
+
+  /**
+   * Read a single header value from a headers object
+   */
+  private getHeader(
+    headers: Record<string, unknown> | undefined,
+    name: string,
+  ): string | undefined {
+    const value = headers?.[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * Resolve the error response format for a request
+   * The configured format is used unless the Accept header explicitly prefers one of
+   * problem+json and plain JSON; wildcard media ranges keep the configured format
+   *
+   * @param request HTTP request
+   * @returns Response format to use
+   */
+  private resolveResponseFormat(request: Request): ErrorResponseFormat {
+    const accept = request.headers?.accept;
+    if (!accept) {
+      return this.defaultFormat;
+    }
+
+    const problemQuality = this.getMediaTypeQuality(accept, PROBLEM_JSON_CONTENT_TYPE);
+    const jsonQuality = this.getMediaTypeQuality(accept, 'application/json');
+
+    if (problemQuality > 0 && problemQuality >= jsonQuality) {
+      return ErrorResponseFormat.Problem;
+    }
+    if (jsonQuality > 0) {
+      return ErrorResponseFormat.Default;
+    }
+
+    return this.defaultFormat;
+  }
+
+  /**
+   * Get the quality value the Accept header assigns to a media type
+   * @param accept Raw Accept header value
+   * @param mediaType Media type to look up
+   * @returns Quality between 0 and 1, or 0 if the media type is not listed
+   */
+  private getMediaTypeQuality(accept: string, mediaType: string): number {
+    for (const part of accept.split(',')) {
+      const [type, ...params] = part.trim().split(';');
+      if (type.trim().toLowerCase() !== mediaType) {
+        continue;
+      }
+
+      const qualityParam = params.find((param) => param.trim().startsWith('q='));
+      const quality = qualityParam ? Number.parseFloat(qualityParam.trim().slice(2)) : 1;
+      return Number.isNaN(quality) ? 0 : quality;
+    }
+
+    return 0;
+  }
 }
@@ -1,11 +1,13 @@
 import { HttpException, HttpStatus } from '@nestjs/common';
 
+import { getErrorMetadata } from './error-catalog';
 import { ErrorCode } from './error-codes.enum';
 import { HttpResponse } from './http-response.interface';
+import { RetryBackoff, RetryMetadata } from './retry-metadata.interface';
 
 /**
  * Base application exception that extends NestJS HttpException
- * Adds support for error codes and additional context
+ * Adds support for error codes, additional context and retry guidance
  */
 export class BaseException extends HttpException {
   /**
@@ -19,22 +21,46 @@ export class BaseException extends HttpException {
    */
   readonly errorContext?: Record<string, unknown>;
 
+  /**
+   * Whether clients may retry the failed request
+   * Defaults to the retryability of the error code in the catalog
+   */
+  readonly retryable: boolean;
+
+  /**
+   * Seconds the client should wait before retrying, sent as the Retry-After header
+   */
+  readonly retryAfterSeconds?: number;
+
+  /**
+   * Backoff strategy hint for retries
+   */
+  readonly backoff?: RetryBackoff;
+
   /**
    * Constructor for BaseException
    * @param message Error message
    * @param status HTTP status code
    * @param errorCode Error code for client-side error handling
    * @param errorContext Additional error context for logging (not exposed in response)
+   * @param retry Retry guidance for clients
    */
   constructor(
     message: string,
     status: HttpStatus,
     errorCode: ErrorCode,
     errorContext?: Record<string, unknown>,
+    retry?: RetryMetadata,
   ) {
     super(message, status);
     this.errorCode = errorCode;
     this.errorContext = errorContext;
+    this.retryable = retry?.retryable ?? getErrorMetadata(errorCode).retryable;
+    this.retryAfterSeconds =
+      retry?.retryAfterSeconds === undefined
+        ? undefined
+        : Math.max(0, Math.ceil(retry.retryAfterSeconds));
+    this.backoff = retry?.backoff;
   }
 
   /**
@@ -47,6 +73,9 @@ export class BaseException extends HttpException {
       statusCode: this.getStatus(),
       message: this.message,
       errorCode: this.errorCode,
+      retryable: this.retryable,
+      retryAfter: this.retryAfterSeconds,
+      backoff: this.backoff,
       timestamp: new Date().toISOString(),
     };
   }
@@ -1,15 +1,31 @@
-import { HttpStatus } from '@nestjs/common';
-
 import { BaseException } from './base.exception';
+import { getErrorMetadata } from './error-catalog';
 import { ErrorCode } from './error-codes.enum';
+import { RetryMetadata } from './retry-metadata.interface';
+import { ValidationErrorItem } from './validation-error-item.interface';
+
+/**
+ * Construct a BaseException using the catalog defaults for an error code
+ */
+abstract class CatalogException extends BaseException {
+  constructor(
+    errorCode: ErrorCode,
+    message?: string,
+    errorContext?: Record<string, unknown>,
+    retry?: RetryMetadata,
+  ) {
+    const metadata = getErrorMetadata(errorCode);
+    super(message ?? metadata.message, metadata.httpStatus, errorCode, errorContext, retry);
+  }
+}
 
 /**
  * Resource not found exception
  * Used when a requested resource doesn't exist
  */
-export class ResourceNotFoundException extends BaseException {
-  constructor(message = 'Resource not found', errorContext?: Record<string, unknown>) {
-    super(message, HttpStatus.NOT_FOUND, ErrorCode.RESOURCE_NOT_FOUND, errorContext);
+export class ResourceNotFoundException extends CatalogException {
+  constructor(message?: string, errorContext?: Record<string, unknown>) {
+    super(ErrorCode.RESOURCE_NOT_FOUND, message, errorContext);
   }
 }
 
@@ -17,19 +33,56 @@ export class ResourceNotFoundException extends BaseException {
  * Validation exception
  * Used for validation errors
  */
-export class ValidationException extends BaseException {
+export class ValidationException extends CatalogException {
   /**
    * Validation errors object
+   * Messages keyed by field path, kept for backward compatibility
    */
   readonly errors: Record<string, string[]>;
 
+  /**
+   * Failed constraints with JSON pointer paths, constraint codes and parameters
+   */
+  readonly violations?: ValidationErrorItem[];
+
+  /**
+   * @param errors Messages keyed by field path
+   * @param message Error message
+   * @param errorContext Additional error context for logging
+   * @param violations Failed constraints
+   * @param errorCode VALIDATION_FAILED, INVALID_INPUT or INVALID_FORMAT
+   */
   constructor(
     errors: Record<string, string[]>,
-    message = 'Validation failed',
+    message?: string,
     errorContext?: Record<string, unknown>,
+    violations?: ValidationErrorItem[],
+    errorCode:
+      | ErrorCode.VALIDATION_FAILED
+      | ErrorCode.INVALID_INPUT
+      | ErrorCode.INVALID_FORMAT = ErrorCode.VALIDATION_FAILED,
   ) {
-    super(message, HttpStatus.BAD_REQUEST, ErrorCode.VALIDATION_FAILED, errorContext);
+    super(errorCode, message, errorContext);
     this.errors = errors;
+    this.violations = violations;
+  }
+
+  /**
+   * Create a validation exception from violations, deriving the errors map
+   * @param violations Failed constraints
+   * @param message Optional error message
+   * @param errorContext Additional error context for logging
+   */
+  static fromViolations(
+    violations: ValidationErrorItem[],
+    message?: string,
+    errorContext?: Record<string, unknown>,
+  ): ValidationException {
+    const errors: Record<string, string[]> = {};
+    for (const violation of violations) {
+      errors[violation.field] = [...(errors[violation.field] ?? []), violation.message];
+    }
+    return new ValidationException(errors, message, errorContext, violations);
   }
 
   /**
@@ -39,6 +92,7 @@ export class ValidationException extends BaseException {
     return {
       ...super.getResponse(),
       errors: this.errors,
+      violations: this.violations,
     };
   }
 }
@@ -47,14 +101,9 @@ export class ValidationException extends BaseException {
  * Business rule violation exception
  * Used when an operation violates a business rule
  */
-export class BusinessRuleViolationException extends BaseException {
+export class BusinessRuleViolationException extends CatalogException {
   constructor(message: string, errorContext?: Record<string, unknown>) {
-    super(
-      message,
-      HttpStatus.UNPROCESSABLE_ENTITY,
-      ErrorCode.BUSINESS_RULE_VIOLATION,
-      errorContext,
-    );
+    super(ErrorCode.BUSINESS_RULE_VIOLATION, message, errorContext);
   }
 }
 
@@ -62,9 +111,9 @@ export class BusinessRuleViolationException extends BaseException {
  * Unauthorized exception
  * Used for authentication errors
  */
-export class DomainUnauthorizedException extends BaseException {
-  constructor(message = 'Unauthorized access', errorContext?: Record<string, unknown>) {
-    super(message, HttpStatus.UNAUTHORIZED, ErrorCode.UNAUTHORIZED, errorContext);
+export class DomainUnauthorizedException extends CatalogException {
+  constructor(message?: string, errorContext?: Record<string, unknown>) {
+    super(ErrorCode.UNAUTHORIZED, message, errorContext);
   }
 }
 
@@ -72,9 +121,9 @@ export class DomainUnauthorizedException extends BaseException {
  * Forbidden exception
  * Used for authorization errors
  */
-export class DomainForbiddenException extends BaseException {
-  constructor(message = 'Access forbidden', errorContext?: Record<string, unknown>) {
-    super(message, HttpStatus.FORBIDDEN, ErrorCode.FORBIDDEN, errorContext);
+export class DomainForbiddenException extends CatalogException {
+  constructor(message?: string, errorContext?: Record<string, unknown>) {
+    super(ErrorCode.FORBIDDEN, message, errorContext);
   }
 }
 
@@ -82,9 +131,9 @@ export class DomainForbiddenException extends BaseException {
  * Conflict exception
  * Used when a resource already exists or there's a conflict with the current state
  */
-export class ConflictException extends BaseException {
-  constructor(message = 'Resource conflict', errorContext?: Record<string, unknown>) {
-    super(message, HttpStatus.CONFLICT, ErrorCode.RESOURCE_CONFLICT, errorContext);
+export class ConflictException extends CatalogException {
+  constructor(message?: string, errorContext?: Record<string, unknown>) {
+    super(ErrorCode.RESOURCE_CONFLICT, message, errorContext);
   }
 }
 
@@ -92,8 +141,33 @@ export class ConflictException extends BaseException {
  * External service exception
  * Used when an external service fails or is unavailable
  */
-export class ExternalServiceException extends BaseException {
-  constructor(message = 'External service error', errorContext?: Record<string, unknown>) {
-    super(message, HttpStatus.SERVICE_UNAVAILABLE, ErrorCode.EXTERNAL_SERVICE_ERROR, errorContext);
+export class ExternalServiceException extends CatalogException {
+  /**
+   * @param message Error message
+   * @param errorContext Additional error context for logging
+   * @param retry Retry guidance, e.g. the Retry-After value reported by the external service
+   * @param errorCode EXTERNAL_SERVICE_ERROR, EXTERNAL_SERVICE_TIMEOUT or EXTERNAL_SERVICE_UNAVAILABLE
+   */
+  constructor(
+    message?: string,
+    errorContext?: Record<string, unknown>,
+    retry?: RetryMetadata,
+    errorCode:
+      | ErrorCode.EXTERNAL_SERVICE_ERROR
+      | ErrorCode.EXTERNAL_SERVICE_TIMEOUT
+      | ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE = ErrorCode.EXTERNAL_SERVICE_ERROR,
+  ) {
+    super(errorCode, message, errorContext, retry);
+  }
+}
+
+/**
+ * Service unavailable exception
+ * Used when the application itself is temporarily unable to handle requests
+ * (maintenance, overload, dependency outage)
+ */
+export class ServiceUnavailableException extends CatalogException {
+  constructor(message?: string, retry?: RetryMetadata, errorContext?: Record<string, unknown>) {
+    super(ErrorCode.SERVICE_UNAVAILABLE, message, errorContext, retry);
   }
 }
@@ -0,0 +1,62 @@
+import { Controller, Get, Param } from '@nestjs/common';
+
+import { ResourceNotFoundException } from './domain-exceptions';
+import { ERROR_CATALOG, ErrorCodeMetadata, findErrorMetadataBySlug } from './error-catalog';
+import { ExceptionMapperService } from './services/exception-mapper.service';
+
+/**
+ * Error catalog entry as exposed by the API
+ */
+export interface ErrorCatalogEntryResponse extends Omit<ErrorCodeMetadata, 'defaultForStatus'> {
+  /**
+   * Problem details type URI for the error code
+   */
+  type: string;
+}
+
+/**
+ * Read-only endpoint exposing the error code catalog
+ * Lets client teams generate their error-handling tables from a single source
+ */
+@Controller('errors')
+export class ErrorCatalogController {
+  constructor(private readonly exceptionMapper: ExceptionMapperService) {}
+
+  /**
+   * List all error codes with their metadata
+   */
+  @Get()
+  getCatalog(): ErrorCatalogEntryResponse[] {
+    return Object.values(ERROR_CATALOG).map((metadata) => this.toResponse(metadata));
+  }
+
+  /**
+   * Get a single error code by its documentation slug
+   * Problem details type URIs resolve to this route with the default base URI
+   */
+  @Get(':slug')
+  getEntry(@Param('slug') slug: string): ErrorCatalogEntryResponse {
+    const metadata = findErrorMetadataBySlug(slug);
+    if (!metadata) {
+      throw new ResourceNotFoundException(`Unknown error type: ${slug}`);
+    }
+
+    return this.toResponse(metadata);
+  }
+
+  /**
+   * Map catalog metadata to the public response shape
+   */
+  private toResponse(metadata: ErrorCodeMetadata): ErrorCatalogEntryResponse {
+    return {
+      code: metadata.code,
+      name: metadata.name,
+      httpStatus: metadata.httpStatus,
+      message: metadata.message,
+      category: metadata.category,
+      retryable: metadata.retryable,
+      docSlug: metadata.docSlug,
+      type: this.exceptionMapper.getErrorTypeUri(metadata.code),
+    };
+  }
+}
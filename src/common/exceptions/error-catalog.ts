@@ -0,0 +1,264 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { ErrorCode } from './error-codes.enum';
+
+/**
+ * Error categories, matching the two-digit category segment of each ErrorCode
+ */
+export enum ErrorCategory {
+  Validation = 'validation',
+  Authentication = 'authentication',
+  Authorization = 'authorization',
+  Resource = 'resource',
+  BusinessLogic = 'business-logic',
+  ExternalService = 'external-service',
+  System = 'system',
+}
+
+/**
+ * Metadata describing a single error code
+ */
+export interface ErrorCodeMetadata {
+  /**
+   * Error code value (e.g. E04001)
+   */
+  code: ErrorCode;
+
+  /**
+   * Error code name (e.g. RESOURCE_NOT_FOUND)
+   */
+  name: keyof typeof ErrorCode;
+
+  /**
+   * Default HTTP status code for the error
+   */
+  httpStatus: HttpStatus;
+
+  /**
+   * Default human-readable message
+   */
+  message: string;
+
+  /**
+   * Error category
+   */
+  category: ErrorCategory;
+
+  /**
+   * Whether clients may retry the failed request
+   */
+  retryable: boolean;
+
+  /**
+   * Documentation slug, also used for the problem details type URI
+   */
+  docSlug: string;
+
+  /**
+   * Whether this code is used for plain HTTP exceptions with the same status
+   */
+  defaultForStatus?: boolean;
+}
+
+type ErrorCatalogEntry = Omit<ErrorCodeMetadata, 'code' | 'name' | 'docSlug'>;
+
+/**
+ * Catalog definitions keyed by error code name
+ * The code and documentation slug are derived from the name
+ */
+const ERROR_CATALOG_DEFINITIONS: Record<keyof typeof ErrorCode, ErrorCatalogEntry> = {
+  // Validation errors (01)
+  VALIDATION_FAILED: {
+    httpStatus: HttpStatus.BAD_REQUEST,
+    message: 'Validation failed',
+    category: ErrorCategory.Validation,
+    retryable: false,
+  },
+  INVALID_INPUT: {
+    httpStatus: HttpStatus.BAD_REQUEST,
+    message: 'Invalid input',
+    category: ErrorCategory.Validation,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  INVALID_FORMAT: {
+    httpStatus: HttpStatus.BAD_REQUEST,
+    message: 'Invalid format',
+    category: ErrorCategory.Validation,
+    retryable: false,
+  },
+
+  // Authentication errors (02)
+  UNAUTHORIZED: {
+    httpStatus: HttpStatus.UNAUTHORIZED,
+    message: 'Unauthorized access',
+    category: ErrorCategory.Authentication,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  INVALID_CREDENTIALS: {
+    httpStatus: HttpStatus.UNAUTHORIZED,
+    message: 'Invalid credentials',
+    category: ErrorCategory.Authentication,
+    retryable: false,
+  },
+  SESSION_EXPIRED: {
+    httpStatus: HttpStatus.UNAUTHORIZED,
+    message: 'Session expired',
+    category: ErrorCategory.Authentication,
+    retryable: false,
+  },
+  INVALID_TOKEN: {
+    httpStatus: HttpStatus.UNAUTHORIZED,
+    message: 'Invalid token',
+    category: ErrorCategory.Authentication,
+    retryable: false,
+  },
+
+  // Authorization errors (03)
+  FORBIDDEN: {
+    httpStatus: HttpStatus.FORBIDDEN,
+    message: 'Access forbidden',
+    category: ErrorCategory.Authorization,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  INSUFFICIENT_PERMISSIONS: {
+    httpStatus: HttpStatus.FORBIDDEN,
+    message: 'Insufficient permissions',
+    category: ErrorCategory.Authorization,
+    retryable: false,
+  },
+
+  // Resource errors (04)
+  RESOURCE_NOT_FOUND: {
+    httpStatus: HttpStatus.NOT_FOUND,
+    message: 'Resource not found',
+    category: ErrorCategory.Resource,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  RESOURCE_ALREADY_EXISTS: {
+    httpStatus: HttpStatus.CONFLICT,
+    message: 'Resource already exists',
+    category: ErrorCategory.Resource,
+    retryable: false,
+  },
+  RESOURCE_CONFLICT: {
+    httpStatus: HttpStatus.CONFLICT,
+    message: 'Resource conflict',
+    category: ErrorCategory.Resource,
+    retryable: false,
+    defaultForStatus: true,
+  },
+
+  // Business logic errors (05)
+  BUSINESS_RULE_VIOLATION: {
+    httpStatus: HttpStatus.UNPROCESSABLE_ENTITY,
+    message: 'Business rule violation',
+    category: ErrorCategory.BusinessLogic,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  INVALID_STATE: {
+    httpStatus: HttpStatus.CONFLICT,
+    message: 'Invalid state',
+    category: ErrorCategory.BusinessLogic,
+    retryable: false,
+  },
+  OPERATION_NOT_ALLOWED: {
+    httpStatus: HttpStatus.FORBIDDEN,
+    message: 'Operation not allowed',
+    category: ErrorCategory.BusinessLogic,
+    retryable: false,
+  },
+
+  // External service errors (06)
+  EXTERNAL_SERVICE_ERROR: {
+    httpStatus: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'External service error',
+    category: ErrorCategory.ExternalService,
+    retryable: true,
+  },
+  EXTERNAL_SERVICE_TIMEOUT: {
+    httpStatus: HttpStatus.GATEWAY_TIMEOUT,
+    message: 'External service timeout',
+    category: ErrorCategory.ExternalService,
+    retryable: true,
+  },
+  EXTERNAL_SERVICE_UNAVAILABLE: {
+    httpStatus: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'External service unavailable',
+    category: ErrorCategory.ExternalService,
+    retryable: true,
+  },
+
+  // System/unexpected errors (99)
+  INTERNAL_SERVER_ERROR: {
+    httpStatus: HttpStatus.INTERNAL_SERVER_ERROR,
+    message: 'Internal server error',
+    category: ErrorCategory.System,
+    retryable: false,
+    defaultForStatus: true,
+  },
+  NOT_IMPLEMENTED: {
+    httpStatus: HttpStatus.NOT_IMPLEMENTED,
+    message: 'Not implemented',
+    category: ErrorCategory.System,
+    retryable: false,
+  },
+  SERVICE_UNAVAILABLE: {
+    httpStatus: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'Service unavailable',
+    category: ErrorCategory.System,
+    retryable: true,
+    defaultForStatus: true,
+  },
+};
+
+/**
+ * Typed catalog of all application error codes and their metadata
+ */
+export const ERROR_CATALOG: Readonly<Record<ErrorCode, ErrorCodeMetadata>> = Object.freeze(
+  Object.fromEntries(
+    (Object.keys(ERROR_CATALOG_DEFINITIONS) as Array<keyof typeof ErrorCode>).map((name) => [
+      ErrorCode[name],
+      {
+        code: ErrorCode[name],
+        name,
+        docSlug: name.toLowerCase().replaceAll('_', '-'),
+        ...ERROR_CATALOG_DEFINITIONS[name],
+      },
+    ]),
+  ) as Record<ErrorCode, ErrorCodeMetadata>,
+);
+
+/**
+ * Get the catalog metadata for an error code
+ * @param errorCode Application error code
+ * @returns Error code metadata
+ */
+export function getErrorMetadata(errorCode: ErrorCode): ErrorCodeMetadata {
+  return ERROR_CATALOG[errorCode] ?? ERROR_CATALOG[ErrorCode.INTERNAL_SERVER_ERROR];
+}
+
+/**
+ * Find the catalog metadata for a documentation slug
+ * @param docSlug Documentation slug (e.g. resource-not-found)
+ * @returns Error code metadata, or undefined if the slug is unknown
+ */
+export function findErrorMetadataBySlug(docSlug: string): ErrorCodeMetadata | undefined {
+  return Object.values(ERROR_CATALOG).find((metadata) => metadata.docSlug === docSlug);
+}
+
+/**
+ * Get the error code used for plain HTTP exceptions with a given status
+ * @param status HTTP status code
+ * @returns Default error code for the status, or INTERNAL_SERVER_ERROR if none is defined
+ */
+export function getDefaultErrorCodeForStatus(status: number): ErrorCode {
+  const metadata = Object.values(ERROR_CATALOG).find(
+    (entry) => entry.defaultForStatus && entry.httpStatus === (status as HttpStatus),
+  );
+  return metadata?.code ?? ErrorCode.INTERNAL_SERVER_ERROR;
+}
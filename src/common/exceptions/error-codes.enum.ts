@@ -15,6 +15,8 @@
  * - 05: Business logic errors
  * - 06: External service errors
  * - 99: System/unexpected errors
+ *
+ * Every code must also have an entry in ERROR_CATALOG (error-catalog.ts)
  */
 export enum ErrorCode {
   // Validation errors (01)
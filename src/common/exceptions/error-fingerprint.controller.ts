@@ -0,0 +1,27 @@
+import { Controller, DefaultValuePipe, Get, ParseIntPipe, Query, UseGuards } from '@nestjs/common';
+
+import { InternalApiGuard } from '../guards/internal-api.guard';
+
+import {
+  ErrorFingerprintStats,
+  ErrorOccurrenceTracker,
+} from './services/error-occurrence-tracker.service';
+
+/**
+ * Internal endpoint listing the most frequent error fingerprints
+ */
+@Controller('internal/errors')
+@UseGuards(InternalApiGuard)
+export class ErrorFingerprintController {
+  constructor(private readonly tracker: ErrorOccurrenceTracker) {}
+
+  /**
+   * List the top fingerprints with counts, first/last seen times and a sample correlation ID
+   */
+  @Get('fingerprints')
+  getTopFingerprints(
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): ErrorFingerprintStats[] {
+    return this.tracker.getTopFingerprints(Math.min(Math.max(limit, 1), 100));
+  }
+}
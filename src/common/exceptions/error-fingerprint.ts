@@ -0,0 +1,98 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Number of stack frames included in a fingerprint
+ */
+const FINGERPRINT_STACK_FRAMES = 5;
+
+/**
+ * Path segments that identify a specific resource rather than a route
+ */
+const NUMERIC_SEGMENT_PATTERN = /^\d+$/;
+const UUID_SEGMENT_PATTERN = /^[\da-f]{8}(?:-[\da-f]{4}){3}-[\da-f]{12}$/i;
+const HEX_ID_SEGMENT_PATTERN = /^[\da-f]{16,}$/i;
+
+/**
+ * Check whether a path segment is a resource identifier (number, UUID or long hex ID)
+ */
+function isIdSegment(segment: string): boolean {
+  return (
+    NUMERIC_SEGMENT_PATTERN.test(segment) ||
+    UUID_SEGMENT_PATTERN.test(segment) ||
+    HEX_ID_SEGMENT_PATTERN.test(segment)
+  );
+}
+
+/**
+ * Normalize a stack trace so that the same failure in different requests yields the same text
+ * Keeps the first frames without line/column numbers, directories and the error message
+ *
+ * @param stack Raw stack trace
+ * @returns Normalized stack
+ */
+export function normalizeStack(stack: string | undefined): string {
+  if (!stack) {
+    return '';
+  }
+
+  return stack
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('at '))
+    .slice(0, FINGERPRINT_STACK_FRAMES)
+    .map((frame) =>
+      frame
+        .split(/[\s(]/)
+        .map((part) => {
+          // Reduce file locations like /app/dist/users.service.js:42:13 to users.service.js
+          const file = part.split(/[/\\]/).at(-1) ?? part;
+          return file.split(':')[0];
+        })
+        .filter(Boolean)
+        .join(' '),
+    )
+    .join('\n');
+}
+
+/**
+ * Normalize a request route for grouping
+ * Strips the query string and replaces identifier segments with ":id"
+ *
+ * @param route Route pattern or request URL
+ * @returns Normalized route
+ */
+export function normalizeRoute(route: string | undefined): string {
+  if (!route) {
+    return '';
+  }
+
+  const [path] = route.split('?');
+  return path
+    .split('/')
+    .map((segment) => (isIdSegment(segment) ? ':id' : segment))
+    .join('/');
+}
+
+/**
+ * Create a stable fingerprint for an error occurrence
+ *
+ * @param errorCode Application error code
+ * @param route Normalized route
+ * @param exception The original exception
+ * @returns Hex fingerprint
+ */
+export function createErrorFingerprint(
+  errorCode: string | undefined,
+  route: string,
+  exception: unknown,
+): string {
+  const stack =
+    exception instanceof Error
+      ? `${exception.name}\n${normalizeStack(exception.stack)}`
+      : typeof exception;
+
+  return createHash('sha256')
+    .update(`${errorCode ?? ''}|${route}|${stack}`)
+    .digest('hex')
+    .slice(0, 16);
+}
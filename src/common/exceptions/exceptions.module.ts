@@ -0,0 +1,76 @@
+import { DynamicModule, Global, Module, Type } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { ConfigModule } from '../../config/config.module';
+import { I18nModule } from '../i18n/i18n.module';
+
+import { ErrorCatalogController } from './error-catalog.controller';
+import { ErrorFingerprintController } from './error-fingerprint.controller';
+import { ExceptionMapper } from './mappers/exception-mapper.interface';
+import { createErrorReporter } from './reporters/error-reporter.factory';
+import { ERROR_REPORTER } from './reporters/error-reporter.interface';
+import { ErrorOccurrenceTracker } from './services/error-occurrence-tracker.service';
+import { ExceptionMapperRegistry } from './services/exception-mapper.registry';
+import { ExceptionMapperService } from './services/exception-mapper.service';
+
+/**
+ * Host module for exception mappers registered with ExceptionsModule.forFeature()
+ */
+class ExceptionMappersFeatureModule {}
+
+/**
+ * Exceptions module that exposes the error catalog, the exception mapping service
+ * and the configured error reporter
+ *
+ * The module is global so feature modules can contribute exception mappers
+ * for third-party errors with ExceptionsModule.forFeature()
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, I18nModule],
+  controllers: [ErrorCatalogController, ErrorFingerprintController],
+  providers: [
+    ErrorOccurrenceTracker,
+    ExceptionMapperRegistry,
+    ExceptionMapperService,
+    {
+      provide: ERROR_REPORTER,
+      inject: [ConfigService],
+      useFactory: createErrorReporter,
+    },
+  ],
+  exports: [
+    ErrorOccurrenceTracker,
+    ExceptionMapperRegistry,
+    ExceptionMapperService,
+    ERROR_REPORTER,
+  ],
+})
+export class ExceptionsModule {
+  /**
+   * Register exception mappers contributed by a feature module
+   * The mappers are instantiated through DI, so they can inject other providers
+   *
+   * @param mappers Mapper classes to register
+   * @returns Dynamic module registering the mappers
+   */
+  static forFeature(mappers: Array<Type<ExceptionMapper>>): DynamicModule {
+    return {
+      module: ExceptionMappersFeatureModule,
+      providers: [
+        ...mappers,
+        {
+          provide: Symbol('EXCEPTION_MAPPERS_REGISTRATION'),
+          inject: [ExceptionMapperRegistry, ...mappers],
+          useFactory: (
+            registry: ExceptionMapperRegistry,
+            ...instances: ExceptionMapper[]
+          ): ExceptionMapper[] => {
+            for (const mapper of instances) registry.register(mapper);
+            return instances;
+          },
+        },
+      ],
+    };
+  }
+}
@@ -1,3 +1,6 @@
+import { RetryBackoff } from './retry-metadata.interface';
+import { ValidationErrorItem } from './validation-error-item.interface';
+
 /**
  * Standardized HTTP response interface for consistent API responses
  * Both success and error responses follow this structure
@@ -40,6 +43,28 @@ export interface HttpResponse {
    */
   errors?: Record<string, string[]>;
 
+  /**
+   * Optional machine-readable validation errors with JSON pointer paths,
+   * constraint codes and constraint parameters
+   */
+  violations?: ValidationErrorItem[];
+
+  /**
+   * Optional flag telling clients whether the request may be retried
+   * Present only for error responses
+   */
+  retryable?: boolean;
+
+  /**
+   * Optional number of seconds to wait before retrying (mirrors the Retry-After header)
+   */
+  retryAfter?: number;
+
+  /**
+   * Optional backoff strategy hint for retries
+   */
+  backoff?: RetryBackoff;
+
   /**
    * Optional data payload
    */
@@ -5,14 +5,37 @@ export * from './all-exceptions.filter';
 export * from './base.exception';
 export * from './domain-exceptions';
 
-// Export error code enum
+// Export error code enum and catalog
 export * from './error-codes.enum';
+export * from './error-catalog';
+export * from './error-catalog.controller';
+
+// Export error fingerprinting
+export * from './error-fingerprint';
+export * from './error-fingerprint.controller';
+
+// Export module
+export * from './exceptions.module';
 
 // Export response interface
 export * from './http-response.interface';
 
+// Export problem details (RFC 9457) types
+export * from './problem-details.interface';
+
+// Export retry metadata types
+export * from './retry-metadata.interface';
+
 // Export validation pipe
 export * from './validation.pipe';
+export * from './validation-error-item.interface';
+export * from './validation-options.decorator';
+
+// Export exception mappers
+export * from './mappers/index';
+
+// Export error reporters
+export * from './reporters/index';
 
 // Export services
 export * from './services/index';
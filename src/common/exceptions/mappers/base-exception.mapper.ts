@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+
+import { BaseException } from '../base.exception';
+import { ValidationException } from '../domain-exceptions';
+import { HttpResponse } from '../http-response.interface';
+
+import {
+  ExceptionMapper,
+  ExceptionMapperContext,
+  ExceptionMapperPriority,
+} from './exception-mapper.interface';
+
+/**
+ * Maps application exceptions derived from BaseException
+ */
+@Injectable()
+export class BaseExceptionMapper implements ExceptionMapper<BaseException> {
+  readonly priority = ExceptionMapperPriority.BASE_EXCEPTION;
+
+  canMap(exception: unknown): exception is BaseException {
+    return exception instanceof BaseException;
+  }
+
+  map(
+    exception: BaseException,
+    errorResponse: HttpResponse,
+    context: ExceptionMapperContext,
+  ): void {
+    errorResponse.statusCode = exception.getStatus();
+    errorResponse.message = exception.message;
+    errorResponse.errorCode = exception.errorCode;
+    errorResponse.retryable = exception.retryable;
+
+    if (exception.retryAfterSeconds !== undefined) {
+      errorResponse.retryAfter = exception.retryAfterSeconds;
+    }
+
+    if (exception.backoff) {
+      errorResponse.backoff = exception.backoff;
+    }
+
+    // Add validation errors if available (for ValidationException)
+    if (exception instanceof ValidationException) {
+      errorResponse.errors = exception.errors;
+
+      if (exception.violations) {
+        errorResponse.violations = exception.violations;
+      }
+    }
+
+    // Add error context to data for non-production environments
+    if (!context.isProduction && exception.errorContext) {
+      errorResponse.data = exception.errorContext;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { HttpResponse } from '../http-response.interface';
+
+/**
+ * Context shared with every exception mapper
+ */
+export interface ExceptionMapperContext {
+  /**
+   * Whether the application runs in production
+   * Mappers must not expose internal details when true
+   */
+  isProduction: boolean;
+}
+
+/**
+ * Translates a family of exceptions into the standardized HttpResponse
+ *
+ * Mappers are tried in descending priority order and the first one whose
+ * canMap returns true fills in the response. The response is pre-populated
+ * with a generic 500 error and the correlation ID.
+ */
+export interface ExceptionMapper<T = unknown> {
+  /**
+   * Priority of the mapper, higher runs first
+   */
+  readonly priority: number;
+
+  /**
+   * Check whether this mapper handles the exception
+   */
+  canMap(exception: unknown): exception is T;
+
+  /**
+   * Populate the error response from the exception
+   */
+  map(exception: T, errorResponse: HttpResponse, context: ExceptionMapperContext): void;
+}
+
+/**
+ * Priorities of the built-in mappers
+ * Feature mappers for third-party errors usually go above HTTP_EXCEPTION
+ */
+export enum ExceptionMapperPriority {
+  UNKNOWN = 0,
+  VALIDATION_ERROR = 100,
+  HTTP_EXCEPTION = 200,
+  BASE_EXCEPTION = 300,
+}
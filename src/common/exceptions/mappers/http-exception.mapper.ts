@@ -0,0 +1,53 @@
+import { HttpException, Injectable } from '@nestjs/common';
+
+import { getDefaultErrorCodeForStatus } from '../error-catalog';
+import { HttpResponse } from '../http-response.interface';
+
+import {
+  ExceptionMapper,
+  ExceptionMapperContext,
+  ExceptionMapperPriority,
+} from './exception-mapper.interface';
+
+/**
+ * Maps NestJS HttpException instances, deriving the error code from the status
+ */
+@Injectable()
+export class HttpExceptionMapper implements ExceptionMapper<HttpException> {
+  readonly priority = ExceptionMapperPriority.HTTP_EXCEPTION;
+
+  canMap(exception: unknown): exception is HttpException {
+    return exception instanceof HttpException;
+  }
+
+  map(
+    exception: HttpException,
+    errorResponse: HttpResponse,
+    context: ExceptionMapperContext,
+  ): void {
+    // Set common properties once
+    errorResponse.statusCode = exception.getStatus();
+    errorResponse.errorCode = getDefaultErrorCodeForStatus(exception.getStatus());
+
+    const response = exception.getResponse();
+
+    if (typeof response === 'string') {
+      errorResponse.message = response;
+    } else if (typeof response === 'object') {
+      const responseObj = response as Record<string, unknown>;
+      errorResponse.message = (responseObj.message as string) || 'An error occurred';
+
+      // Include validation errors if available
+      if (responseObj.errors) {
+        errorResponse.errors = responseObj.errors as Record<string, string[]>;
+      }
+
+      // Add additional data for non-production environments
+      if (!context.isProduction) {
+        errorResponse.data = responseObj;
+      }
+    } else {
+      errorResponse.message = exception.message;
+    }
+  }
+}
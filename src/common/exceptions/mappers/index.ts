@@ -0,0 +1,5 @@
+export * from './base-exception.mapper';
+export * from './exception-mapper.interface';
+export * from './http-exception.mapper';
+export * from './unknown-exception.mapper';
+export * from './validation-error.mapper';
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+
+import { HttpResponse } from '../http-response.interface';
+
+import {
+  ExceptionMapper,
+  ExceptionMapperContext,
+  ExceptionMapperPriority,
+} from './exception-mapper.interface';
+
+/**
+ * Fallback mapper for anything no other mapper recognizes
+ */
+@Injectable()
+export class UnknownExceptionMapper implements ExceptionMapper<unknown> {
+  readonly priority = ExceptionMapperPriority.UNKNOWN;
+
+  canMap(_exception: unknown): _exception is unknown {
+    return true;
+  }
+
+  map(exception: unknown, errorResponse: HttpResponse, context: ExceptionMapperContext): void {
+    errorResponse.message = 'An unexpected error occurred';
+
+    // Log detailed error info in non-production environments
+    if (!context.isProduction) {
+      errorResponse.data =
+        exception instanceof Error
+          ? {
+              name: exception.name,
+              message: exception.message,
+              stack: exception.stack || '',
+            }
+          : { exception: String(exception) };
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+
+import { ErrorCode } from '../error-codes.enum';
+import { HttpResponse } from '../http-response.interface';
+import { ValidationErrorItem } from '../validation-error-item.interface';
+
+import { ExceptionMapper, ExceptionMapperPriority } from './exception-mapper.interface';
+
+/**
+ * Duck-typed validation error shape produced by class-validator and similar libraries
+ */
+type ValidationErrorLike = Record<string, unknown>;
+
+/**
+ * Maps validation errors that are not HttpExceptions
+ */
+@Injectable()
+export class ValidationErrorMapper implements ExceptionMapper<ValidationErrorLike> {
+  readonly priority = ExceptionMapperPriority.VALIDATION_ERROR;
+
+  canMap(exception: unknown): exception is ValidationErrorLike {
+    if (!exception || typeof exception !== 'object') {
+      return false;
+    }
+
+    const exceptionObj = exception as Record<string, unknown>;
+    return (
+      (exceptionObj.message as Record<string, unknown>)?.validation !== undefined ||
+      exceptionObj.errors !== undefined
+    );
+  }
+
+  map(exception: ValidationErrorLike, errorResponse: HttpResponse): void {
+    errorResponse.statusCode = HttpStatus.BAD_REQUEST;
+    errorResponse.message = 'Validation failed';
+    errorResponse.errorCode = ErrorCode.VALIDATION_FAILED;
+
+    // Format validation errors into a more user-friendly structure
+    const formattedErrors: Record<string, string[]> = {};
+
+    if (Array.isArray((exception.message as Record<string, unknown>)?.validation)) {
+      const violations: ValidationErrorItem[] = [];
+      for (const error of (exception.message as Record<string, unknown>)?.validation as Array<{
+        property: string;
+        constraints?: Record<string, string>;
+      }>) {
+        formattedErrors[error.property] = Object.values(error.constraints || {});
+        for (const [code, message] of Object.entries(error.constraints || {})) {
+          violations.push({ path: `/${error.property}`, field: error.property, code, message });
+        }
+      }
+      errorResponse.violations = violations;
+    } else if (exception.errors) {
+      const errors = exception.errors as Record<string, { message: string }>;
+      for (const key of Object.keys(errors)) {
+        formattedErrors[key] = [errors[key].message];
+      }
+    }
+
+    errorResponse.errors = formattedErrors;
+  }
+}
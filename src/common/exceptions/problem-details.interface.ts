@@ -0,0 +1,93 @@
+import { RetryBackoff } from './retry-metadata.interface';
+import { ValidationErrorItem } from './validation-error-item.interface';
+
+/**
+ * Media type for RFC 9457 problem details responses
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Supported error response output formats
+ * - default: the application's HttpResponse envelope
+ * - problem: RFC 9457 problem details (application/problem+json)
+ */
+export enum ErrorResponseFormat {
+  Default = 'default',
+  Problem = 'problem',
+}
+
+/**
+ * RFC 9457 problem details object
+ * Standard members are followed by the application's extension members
+ */
+export interface ProblemDetails {
+  /**
+   * URI reference identifying the problem type
+   */
+  type: string;
+
+  /**
+   * Short, human-readable summary of the problem type
+   */
+  title: string;
+
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * Human-readable explanation specific to this occurrence
+   */
+  detail?: string;
+
+  /**
+   * URI reference identifying this specific occurrence
+   */
+  instance?: string;
+
+  /**
+   * Extension member: application-specific error code
+   */
+  errorCode?: string;
+
+  /**
+   * Extension member: correlation ID for request tracing
+   */
+  correlationId?: string;
+
+  /**
+   * Extension member: whether clients may retry the request
+   */
+  retryable?: boolean;
+
+  /**
+   * Extension member: seconds to wait before retrying (mirrors the Retry-After header)
+   */
+  retryAfter?: number;
+
+  /**
+   * Extension member: backoff strategy hint for retries
+   */
+  backoff?: RetryBackoff;
+
+  /**
+   * Extension member: validation errors keyed by field name
+   */
+  errors?: Record<string, string[]>;
+
+  /**
+   * Extension member: machine-readable validation errors
+   */
+  violations?: ValidationErrorItem[];
+
+  /**
+   * Extension member: ISO string timestamp of when the error occurred
+   */
+  timestamp?: string;
+
+  /**
+   * Additional extension members
+   */
+  [key: string]: unknown;
+}
@@ -0,0 +1,40 @@
+import { ErrorBreadcrumb } from './error-reporter.interface';
+
+/**
+ * Maximum number of breadcrumbs kept per request; older ones are discarded
+ */
+export const MAX_BREADCRUMBS = 50;
+
+/**
+ * Breadcrumbs keyed by request, released together with the request
+ */
+const breadcrumbsByRequest = new WeakMap<object, ErrorBreadcrumb[]>();
+
+/**
+ * Record an event on a request, included in error reports for that request
+ *
+ * @param request The request the event belongs to
+ * @param breadcrumb The event; the timestamp defaults to now
+ */
+export function addBreadcrumb(
+  request: object,
+  breadcrumb: Omit<ErrorBreadcrumb, 'timestamp'> & { timestamp?: string },
+): void {
+  const breadcrumbs = breadcrumbsByRequest.get(request) ?? [];
+  breadcrumbs.push({ ...breadcrumb, timestamp: breadcrumb.timestamp ?? new Date().toISOString() });
+
+  if (breadcrumbs.length > MAX_BREADCRUMBS) {
+    breadcrumbs.splice(0, breadcrumbs.length - MAX_BREADCRUMBS);
+  }
+  breadcrumbsByRequest.set(request, breadcrumbs);
+}
+
+/**
+ * Get the breadcrumbs recorded on a request
+ *
+ * @param request The request
+ * @returns Breadcrumbs, oldest first
+ */
+export function getBreadcrumbs(request: object): ErrorBreadcrumb[] {
+  return [...(breadcrumbsByRequest.get(request) ?? [])];
+}
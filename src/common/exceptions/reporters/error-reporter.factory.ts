@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+
+import { ErrorReporter, ErrorReporterTransport } from './error-reporter.interface';
+import { FileErrorReporter } from './file-error.reporter';
+import { HttpErrorReporter } from './http-error.reporter';
+import { NoopErrorReporter } from './noop-error.reporter';
+
+/**
+ * Default NDJSON file for the file transport
+ */
+const DEFAULT_REPORT_FILE = 'logs/error-reports.ndjson';
+
+/**
+ * Create the error reporter selected by ERROR_REPORTER_TRANSPORT
+ *
+ * @param configService Configuration service
+ * @returns Configured error reporter, or a no-op reporter
+ */
+export function createErrorReporter(configService: ConfigService): ErrorReporter {
+  const transport = configService.get<string>('ERROR_REPORTER_TRANSPORT');
+
+  switch (transport) {
+    case ErrorReporterTransport.File: {
+      return new FileErrorReporter(
+        configService.get<string>('ERROR_REPORTER_FILE_PATH') || DEFAULT_REPORT_FILE,
+      );
+    }
+    case ErrorReporterTransport.Http: {
+      const url = configService.get<string>('ERROR_REPORTER_URL');
+      if (!url) {
+        throw new Error('ERROR_REPORTER_URL is required for the http error reporter transport');
+      }
+
+      return new HttpErrorReporter({
+        url,
+        apiKey: configService.get<string>('ERROR_REPORTER_API_KEY') || undefined,
+        batchSize: Number(configService.get('ERROR_REPORTER_BATCH_SIZE')) || undefined,
+        flushIntervalMs: Number(configService.get('ERROR_REPORTER_FLUSH_INTERVAL_MS')) || undefined,
+        maxQueueSize: Number(configService.get('ERROR_REPORTER_MAX_QUEUE_SIZE')) || undefined,
+      });
+    }
+    default: {
+      return new NoopErrorReporter();
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Injection token for the configured error reporter
+ */
+export const ERROR_REPORTER = Symbol('ERROR_REPORTER');
+
+/**
+ * Built-in error reporter transports
+ * - none: reports are discarded
+ * - file: reports are appended to a local NDJSON file
+ * - http: reports are sent in batches to an HTTP endpoint
+ */
+export enum ErrorReporterTransport {
+  None = 'none',
+  File = 'file',
+  Http = 'http',
+}
+
+/**
+ * Event leading up to an error, e.g. an outgoing call or a state change
+ */
+export interface ErrorBreadcrumb {
+  /**
+   * ISO string timestamp of the event
+   */
+  timestamp: string;
+
+  /**
+   * Event category (e.g. http, db, auth)
+   */
+  category: string;
+
+  /**
+   * Human-readable description of the event
+   */
+  message: string;
+
+  /**
+   * Optional structured event data
+   */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Sanitized context of the request an error was raised in
+ */
+export interface ErrorReportRequest {
+  method?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Error event forwarded to an external error tracker
+ */
+export interface ErrorReport {
+  /**
+   * ISO string timestamp of when the error occurred
+   */
+  timestamp: string;
+
+  /**
+   * Error message returned to the client
+   */
+  message: string;
+
+  /**
+   * Fingerprint grouping identical errors
+   */
+  fingerprint: string;
+
+  /**
+   * HTTP status code
+   */
+  statusCode: number;
+
+  /**
+   * Application error code
+   */
+  errorCode?: string;
+
+  /**
+   * Correlation ID for request tracing
+   */
+  correlationId?: string;
+
+  /**
+   * Deployment environment (NODE_ENV)
+   */
+  environment?: string;
+
+  /**
+   * Total number of occurrences of the fingerprint
+   */
+  occurrences?: number;
+
+  /**
+   * Name, message and stack trace of the original error
+   */
+  exception?: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+
+  /**
+   * Indexed tags for grouping and searching (route, errorCode, transport, user)
+   */
+  tags: Record<string, string>;
+
+  /**
+   * User the request was made by
+   */
+  user?: {
+    id: string;
+  };
+
+  /**
+   * Sanitized request context
+   */
+  request?: ErrorReportRequest;
+
+  /**
+   * Events leading up to the error, oldest first
+   */
+  breadcrumbs: ErrorBreadcrumb[];
+}
+
+/**
+ * Sink forwarding server-side errors to an external error tracker
+ * Implementations must never throw from report(); delivery happens in the background
+ */
+export interface ErrorReporter {
+  /**
+   * Queue an error report for delivery
+   * @param report The error report
+   */
+  report(report: ErrorReport): void;
+
+  /**
+   * Deliver all queued reports
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Deliver queued reports and release resources
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,53 @@
+import { createWriteStream, mkdirSync, WriteStream } from 'node:fs';
+import path from 'node:path';
+
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { ErrorReport, ErrorReporter } from './error-reporter.interface';
+
+/**
+ * Error reporter that appends reports to a local NDJSON file, one report per line
+ * Useful for local development and for shipping reports with a log collector
+ */
+export class FileErrorReporter implements ErrorReporter, OnModuleDestroy {
+  private readonly logger = new Logger(FileErrorReporter.name);
+  private readonly stream: WriteStream;
+  private lastWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath Path of the NDJSON file, created with its directory if missing
+   */
+  constructor(readonly filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = createWriteStream(filePath, { flags: 'a' });
+    this.stream.on('error', (error) =>
+      this.logger.warn(`Failed to write error report: ${error.message}`),
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.close();
+  }
+
+  report(report: ErrorReport): void {
+    if (!this.stream.writable) {
+      return;
+    }
+
+    // Writes complete in order, so waiting for the last one waits for all of them
+    this.lastWrite = new Promise<void>((resolve) => {
+      this.stream.write(`${JSON.stringify(report)}\n`, () => resolve());
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.lastWrite;
+  }
+
+  async close(): Promise<void> {
+    if (this.stream.closed || this.stream.writableEnded) {
+      return;
+    }
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+  }
+}
@@ -0,0 +1,182 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { ErrorReport, ErrorReporter } from './error-reporter.interface';
+
+/**
+ * Options for the HTTP error reporter
+ */
+export interface HttpErrorReporterOptions {
+  /**
+   * Endpoint receiving POST requests with a JSON body of the form { reports: ErrorReport[] }
+   */
+  url: string;
+
+  /**
+   * Optional API key sent as a bearer token
+   */
+  apiKey?: string;
+
+  /**
+   * Maximum number of reports per request
+   */
+  batchSize?: number;
+
+  /**
+   * Interval in milliseconds for sending incomplete batches
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Maximum number of queued reports; the oldest reports are dropped when exceeded
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Delivery statistics of the HTTP error reporter
+ */
+export interface HttpErrorReporterStats {
+  queued: number;
+  sent: number;
+  dropped: number;
+  failedRequests: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Error reporter that sends reports to an HTTP endpoint in batches
+ *
+ * Reports are held in a bounded in-memory queue and sent when a batch is full
+ * or the flush interval elapses. Failed batches are re-queued and retried on the
+ * next flush; when the queue is full the oldest reports are dropped.
+ */
+export class HttpErrorReporter implements ErrorReporter, OnModuleDestroy {
+  private readonly logger = new Logger(HttpErrorReporter.name);
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly timeoutMs: number;
+  private readonly flushTimer: NodeJS.Timeout;
+  private queue: ErrorReport[] = [];
+  private flushing?: Promise<void>;
+  private readonly stats: HttpErrorReporterStats = {
+    queued: 0,
+    sent: 0,
+    dropped: 0,
+    failedRequests: 0,
+  };
+
+  constructor(private readonly options: HttpErrorReporterOptions) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    // Send incomplete batches periodically, without keeping the process alive
+    this.flushTimer = setInterval(
+      () => void this.flush(),
+      options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+    );
+    this.flushTimer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.close();
+  }
+
+  report(report: ErrorReport): void {
+    this.queue.push(report);
+    this.trimQueue();
+
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send all queued reports
+   * Concurrent calls share the flush in progress
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.sendQueued().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.flushTimer);
+    await this.flush();
+  }
+
+  /**
+   * Get delivery statistics
+   */
+  getStats(): HttpErrorReporterStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  /**
+   * Send queued reports batch by batch, stopping at the first failed batch
+   */
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+
+      try {
+        await this.send(batch);
+        this.stats.sent += batch.length;
+      } catch (error) {
+        this.stats.failedRequests += 1;
+        this.logger.warn(
+          `Failed to send ${batch.length} error reports: ${error instanceof Error ? error.message : String(error)}`,
+        );
+
+        // Re-queue the batch ahead of newer reports and retry on the next flush
+        this.queue = [...batch, ...this.queue];
+        this.trimQueue();
+        return;
+      }
+    }
+  }
+
+  /**
+   * POST a batch of reports
+   * @param batch Reports to send
+   */
+  private async send(batch: ErrorReport[]): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ reports: batch }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Error tracker responded with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Drop the oldest reports when the queue exceeds its bound
+   */
+  private trimQueue(): void {
+    const overflow = this.queue.length - this.maxQueueSize;
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+      this.stats.dropped += overflow;
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export * from './error-breadcrumbs';
+export * from './error-reporter.factory';
+export * from './error-reporter.interface';
+export * from './file-error.reporter';
+export * from './http-error.reporter';
+export * from './noop-error.reporter';
@@ -0,0 +1,19 @@
+import { ErrorReport, ErrorReporter } from './error-reporter.interface';
+
+/**
+ * Error reporter that discards all reports
+ * Used when no error tracker is configured
+ */
+export class NoopErrorReporter implements ErrorReporter {
+  report(_report: ErrorReport): void {
+    // Reports are intentionally discarded
+  }
+
+  async flush(): Promise<void> {
+    // Nothing to deliver
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
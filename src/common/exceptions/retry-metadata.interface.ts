@@ -0,0 +1,30 @@
+/**
+ * Backoff strategy hint for clients retrying a failed request
+ */
+export enum RetryBackoff {
+  Fixed = 'fixed',
+  Linear = 'linear',
+  Exponential = 'exponential',
+}
+
+/**
+ * Retry guidance attached to an exception
+ */
+export interface RetryMetadata {
+  /**
+   * Whether clients may retry the failed request
+   * Defaults to the retryability of the error code in the catalog
+   */
+  retryable?: boolean;
+
+  /**
+   * Seconds the client should wait before retrying
+   * Sent as the Retry-After header
+   */
+  retryAfterSeconds?: number;
+
+  /**
+   * Backoff strategy the client should use between retries
+   */
+  backoff?: RetryBackoff;
+}
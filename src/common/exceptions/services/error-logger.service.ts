@@ -1,10 +1,18 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Request } from 'express';
 
+import { LogSanitizeOptions, resolveLogSanitizeOptions } from '../../logger/log-sanitization';
 import { CustomLoggerService } from '../../logger/logger.service';
+import { redactPii } from '../../utils/pii-detectors.utils';
 import { sanitizeObject } from '../../utils/sensitive-data.utils';
+import { getBoundSensitiveType } from '../../utils/sensitive.decorator';
+import { createErrorFingerprint, normalizeRoute } from '../error-fingerprint';
 import { HttpResponse } from '../http-response.interface';
+import { getBreadcrumbs } from '../reporters/error-breadcrumbs';
+import { ERROR_REPORTER, ErrorReport, ErrorReporter } from '../reporters/error-reporter.interface';
+
+import { ErrorOccurrenceSummary, ErrorOccurrenceTracker } from './error-occurrence-tracker.service';
 
 /**
  * Logger interface for exceptions
@@ -46,58 +54,221 @@ export interface ErrorLogContext {
    */
   correlationId?: string;
 
+  /**
+   * Fingerprint grouping identical errors
+   */
+  fingerprint?: string;
+
+  /**
+   * Total number of occurrences of the fingerprint
+   */
+  occurrences?: number;
+
   /**
    * Additional data to include in the log
    */
   [key: string]: unknown;
 }
 
+/**
+ * Origin of an exception raised outside an HTTP request
+ */
+export interface ErrorSource {
+  /**
+   * Transport the exception was raised in (ws, rpc, graphql)
+   */
+  transport: string;
+
+  /**
+   * Handler route, pattern or field the exception was raised in
+   */
+  route?: string;
+}
+
+/**
+ * Request user fields used to tag error reports
+ */
+interface ReportableUser {
+  id?: string | number;
+}
+
 /**
  * Service responsible for logging exceptions with appropriate context
  * Follows Single Responsibility Principle by focusing only on error logging
+ *
+ * Server-side errors (5xx) are also forwarded to the configured ErrorReporter
  */
 @Injectable()
 export class ErrorLoggerService {
   private readonly isProduction: boolean;
+  private readonly environment?: string;
   private readonly sensitiveHeaders = ['authorization', 'cookie', 'set-cookie'];
+  private readonly sanitizeOptions: LogSanitizeOptions;
 
   constructor(
     private readonly logger: CustomLoggerService,
     private readonly configService: ConfigService,
+    @Optional() private readonly occurrenceTracker?: ErrorOccurrenceTracker,
+    @Optional() @Inject(ERROR_REPORTER) private readonly errorReporter?: ErrorReporter,
   ) {
-    this.isProduction = configService.get<string>('NODE_ENV') === 'production';
+    this.environment = configService.get<string>('NODE_ENV');
+    this.isProduction = this.environment === 'production';
+    this.sanitizeOptions = resolveLogSanitizeOptions(configService);
+    this.occurrenceTracker?.onSummary((summary) => this.logSummary(summary));
   }
 
   /**
    * Log an exception with full context
+   * Repeated occurrences of the same fingerprint are rate-limited into periodic summaries
+   * and are not reported to the error tracker either
    * @param exception The exception to log
    * @param response The formatted response
-   * @param request The HTTP request
+   * @param request The HTTP request, if the exception was raised in one
+   * @param source Transport and route for exceptions raised outside HTTP (WebSocket, RPC, GraphQL)
+   */
+  logException(
+    exception: unknown,
+    response: HttpResponse,
+    request?: Request,
+    source?: ErrorSource,
+  ): void {
+    const route = request
+      ? normalizeRoute((request.route as { path?: string } | undefined)?.path ?? request.url)
+      : `${source?.transport ?? 'unknown'}:${source?.route ?? ''}`;
+    const fingerprint = createErrorFingerprint(response.errorCode, route, exception);
+    const decision = this.occurrenceTracker?.record({
+      fingerprint,
+      errorCode: response.errorCode,
+      statusCode: response.statusCode,
+      route,
+      message: this.redactPii(response.message),
+      correlationId: response.correlationId,
+    });
+
+    if (decision && !decision.shouldLog) {
+      return;
+    }
+
+    const context = request
+      ? this.buildLogContext(exception, response, request)
+      : this.buildTransportLogContext(exception, response, source);
+    context.fingerprint = fingerprint;
+    if (decision) {
+      context.occurrences = decision.count;
+    }
+
+    this.writeLog(
+      response.statusCode,
+      `${this.redactPii(response.message)} [${response.statusCode}]`,
+      context,
+    );
+
+    if (this.errorReporter && response.statusCode >= 500) {
+      this.reportError(exception, response, context, route, request, source);
+    }
+  }
+
+  /**
+   * Forward a server-side error to the error reporter
+   * Reporting failures are logged and never affect the error response
+   */
+  private reportError(
+    exception: unknown,
+    response: HttpResponse,
+    context: ErrorLogContext,
+    route: string,
+    request?: Request,
+    source?: ErrorSource,
+  ): void {
+    try {
+      const userId = (request as (Request & { user?: ReportableUser }) | undefined)?.user?.id;
+      const tags: Record<string, string> = {
+        route,
+        statusCode: String(response.statusCode),
+        transport: source?.transport ?? 'http',
+      };
+      if (response.errorCode) {
+        tags.errorCode = response.errorCode;
+      }
+      if (userId !== undefined) {
+        tags.user = String(userId);
+      }
+
+      const report: ErrorReport = {
+        timestamp: response.timestamp,
+        message: this.redactPii(response.message),
+        fingerprint: context.fingerprint ?? '',
+        statusCode: response.statusCode,
+        errorCode: response.errorCode,
+        correlationId: response.correlationId,
+        environment: this.environment,
+        occurrences: context.occurrences,
+        exception: exception instanceof Error ? this.getErrorDetails(exception) : undefined,
+        tags,
+        user: userId === undefined ? undefined : { id: String(userId) },
+        request: request
+          ? {
+              method: context.method,
+              url: context.path,
+              headers: context.headers,
+              query: context.query,
+              body: context.body,
+            }
+          : undefined,
+        breadcrumbs: request ? getBreadcrumbs(request) : [],
+      };
+
+      this.errorReporter?.report(report);
+    } catch (error) {
+      this.logger.warn('Failed to report error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Log a summary of suppressed occurrences
+   * @param summary Summary emitted by the occurrence tracker
    */
-  logException(exception: unknown, response: HttpResponse, request: Request): void {
-    const logLevel = this.determineLogLevel(response.statusCode);
-    const context = this.buildLogContext(exception, response, request);
+  private logSummary(summary: ErrorOccurrenceSummary): void {
+    this.writeLog(
+      summary.statusCode,
+      `${summary.message} [${summary.statusCode}] - ${summary.suppressedCount} more occurrences in the last ${Math.round(summary.windowMs / 1000)}s`,
+      {
+        statusCode: summary.statusCode,
+        errorCode: summary.errorCode,
+        path: summary.route,
+        fingerprint: summary.fingerprint,
+        suppressedCount: summary.suppressedCount,
+      },
+    );
+  }
+
+  /**
+   * Write a log line with the level matching the status code
+   * @param statusCode HTTP status code
+   * @param message Log message without the level prefix
+   * @param context Log context
+   */
+  private writeLog(statusCode: number, message: string, context: ErrorLogContext): void {
+    const logLevel = this.determineLogLevel(statusCode);
 
     // Log with appropriate level
     switch (logLevel) {
       case 'error': {
-        this.logger.error(
-          `Error: ${response.message} [${response.statusCode}]`,
-          undefined,
-          context,
-        );
+        this.logger.error(`Error: ${message}`, undefined, context);
         break;
       }
       case 'warn': {
-        this.logger.warn(`Warning: ${response.message} [${response.statusCode}]`, context);
+        this.logger.warn(`Warning: ${message}`, context);
         break;
       }
       case 'debug': {
-        this.logger.debug(`Debug: ${response.message} [${response.statusCode}]`, context);
+        this.logger.debug(`Debug: ${message}`, context);
         break;
       }
       default: {
-        this.logger.log(`Info: ${response.message} [${response.statusCode}]`, context);
+        this.logger.log(`Info: ${message}`, context);
       }
     }
   }
@@ -142,25 +313,76 @@ export class ErrorLoggerService {
     context.headers = this.getSecureHeaders(request);
 
     // Include query parameters and body for debug purposes (sanitized)
-    context.query = sanitizeObject(request.query);
+    context.query = sanitizeObject(request.query, this.sanitizeOptions);
 
-    // Only include body for certain methods and if it exists
+    // Only include body for certain methods and if it exists, masking the @Sensitive()
+    // properties of the DTO GlobalValidationPipe validated it as
     if (['POST', 'PUT', 'PATCH'].includes(request.method) && request.body) {
-      context.body = sanitizeObject(request.body);
+      context.body = sanitizeObject(request.body, {
+        ...this.sanitizeOptions,
+        type: getBoundSensitiveType(request.body),
+      });
     }
 
     // Add error details if not in production
     if (!this.isProduction && exception instanceof Error) {
-      context.error = {
-        name: exception.name,
-        message: exception.message,
-        stack: exception.stack,
-      };
+      context.error = this.getErrorDetails(exception);
+    }
+
+    return context;
+  }
+
+  /**
+   * Build log context for exceptions raised outside an HTTP request
+   * @param exception Original exception
+   * @param response Formatted response
+   * @param source Transport and route of the exception
+   * @returns Formatted log context
+   */
+  private buildTransportLogContext(
+    exception: unknown,
+    response: HttpResponse,
+    source?: ErrorSource,
+  ): ErrorLogContext {
+    const context: ErrorLogContext = {
+      statusCode: response.statusCode,
+      errorCode: response.errorCode,
+      transport: source?.transport,
+      path: source?.route,
+      correlationId: response.correlationId,
+    };
+
+    // Add error details if not in production
+    if (!this.isProduction && exception instanceof Error) {
+      context.error = this.getErrorDetails(exception);
     }
 
     return context;
   }
 
+  /**
+   * Get loggable details of an error
+   * @param exception The error
+   * @returns Name, message and stack trace, with detected values masked
+   */
+  private getErrorDetails(exception: Error): { name: string; message: string; stack?: string } {
+    return this.redactPii({
+      name: exception.name,
+      message: exception.message,
+      stack: exception.stack,
+    });
+  }
+
+  /**
+   * Mask personal data and credentials detected by the LOG_PII_DETECTORS detectors
+   * @param value Value to scan
+   * @returns Copy of the value with detected values masked
+   */
+  private redactPii<T>(value: T): T {
+    const { detectPii } = this.sanitizeOptions;
+    return detectPii ? redactPii(value, detectPii) : value;
+  }
+
   /**
    * Get sanitized headers from request
    * @param request HTTP request
@@ -168,6 +390,7 @@ export class ErrorLoggerService {
    */
   private getSecureHeaders(request: Request): Record<string, string> {
     return sanitizeObject(request.headers, {
+      ...this.sanitizeOptions,
       customSensitiveFields: this.sensitiveHeaders,
     }) as Record<string, string>;
   }
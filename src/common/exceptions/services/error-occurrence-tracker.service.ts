@@ -0,0 +1,233 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Default deduplication window in milliseconds
+ */
+const DEFAULT_WINDOW_MS = 60_000;
+
+/**
+ * Default number of fully logged occurrences per fingerprint and window
+ */
+const DEFAULT_THRESHOLD = 10;
+
+/**
+ * Default maximum number of tracked fingerprints
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Details of a single error occurrence
+ */
+export interface ErrorOccurrence {
+  fingerprint: string;
+  errorCode?: string;
+  statusCode: number;
+  route: string;
+  message: string;
+  correlationId?: string;
+}
+
+/**
+ * Aggregated statistics for a fingerprint
+ */
+export interface ErrorFingerprintStats {
+  fingerprint: string;
+  errorCode?: string;
+  statusCode: number;
+  route: string;
+  message: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  sampleCorrelationId?: string;
+}
+
+/**
+ * Summary of occurrences suppressed during a window
+ */
+export interface ErrorOccurrenceSummary {
+  fingerprint: string;
+  errorCode?: string;
+  statusCode: number;
+  route: string;
+  message: string;
+  suppressedCount: number;
+  windowMs: number;
+}
+
+/**
+ * Decision for a recorded occurrence
+ */
+export interface ErrorOccurrenceDecision {
+  /**
+   * Whether the occurrence should be logged in full
+   */
+  shouldLog: boolean;
+
+  /**
+   * Total number of occurrences of this fingerprint
+   */
+  count: number;
+}
+
+interface FingerprintEntry {
+  stats: ErrorFingerprintStats;
+  windowStart: number;
+  loggedInWindow: number;
+  suppressedInWindow: number;
+}
+
+/**
+ * Tracks error occurrences by fingerprint
+ *
+ * Within each window the first occurrences of a fingerprint are logged in full,
+ * later ones are suppressed and reported periodically as a summary.
+ */
+@Injectable()
+export class ErrorOccurrenceTracker implements OnModuleDestroy {
+  private readonly windowMs: number;
+  private readonly threshold: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, FingerprintEntry>();
+  private readonly summaryListeners: Array<(summary: ErrorOccurrenceSummary) => void> = [];
+  private readonly flushTimer: NodeJS.Timeout;
+
+  constructor(private readonly configService: ConfigService) {
+    this.windowMs = Number(configService.get('ERROR_DEDUP_WINDOW_MS')) || DEFAULT_WINDOW_MS;
+    this.threshold = Number(configService.get('ERROR_DEDUP_THRESHOLD')) || DEFAULT_THRESHOLD;
+    this.maxEntries =
+      Number(configService.get('ERROR_FINGERPRINT_MAX_ENTRIES')) || DEFAULT_MAX_ENTRIES;
+
+    // Emit summaries periodically, without keeping the process alive
+    this.flushTimer = setInterval(() => this.flushSummaries(), this.windowMs);
+    this.flushTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.flushTimer);
+  }
+
+  /**
+   * Register a listener for suppressed occurrence summaries
+   * @param listener Called once per fingerprint and window with suppressed occurrences
+   */
+  onSummary(listener: (summary: ErrorOccurrenceSummary) => void): void {
+    this.summaryListeners.push(listener);
+  }
+
+  /**
+   * Record an occurrence and decide whether it should be logged in full
+   * @param occurrence The error occurrence
+   * @param now Current time in milliseconds
+   * @returns Logging decision
+   */
+  record(occurrence: ErrorOccurrence, now = Date.now()): ErrorOccurrenceDecision {
+    let entry = this.entries.get(occurrence.fingerprint);
+
+    if (entry) {
+      // Re-insert to keep the map ordered from least to most recently seen
+      this.entries.delete(occurrence.fingerprint);
+    } else {
+      entry = this.createEntry(occurrence, now);
+      this.evictOldest();
+    }
+    this.entries.set(occurrence.fingerprint, entry);
+
+    if (now - entry.windowStart >= this.windowMs) {
+      this.emitSummary(entry);
+      entry.windowStart = now;
+      entry.loggedInWindow = 0;
+    }
+
+    entry.stats.count += 1;
+    entry.stats.lastSeen = new Date(now).toISOString();
+    entry.stats.sampleCorrelationId = occurrence.correlationId ?? entry.stats.sampleCorrelationId;
+
+    if (entry.loggedInWindow < this.threshold) {
+      entry.loggedInWindow += 1;
+      return { shouldLog: true, count: entry.stats.count };
+    }
+
+    entry.suppressedInWindow += 1;
+    return { shouldLog: false, count: entry.stats.count };
+  }
+
+  /**
+   * Emit summaries for fingerprints whose window has ended
+   * @param now Current time in milliseconds
+   */
+  flushSummaries(now = Date.now()): void {
+    for (const entry of this.entries.values()) {
+      if (now - entry.windowStart >= this.windowMs) {
+        this.emitSummary(entry);
+        entry.windowStart = now;
+        entry.loggedInWindow = 0;
+      }
+    }
+  }
+
+  /**
+   * Get the most frequent fingerprints
+   * @param limit Maximum number of fingerprints to return
+   * @returns Fingerprint statistics ordered by count
+   */
+  getTopFingerprints(limit = 20): ErrorFingerprintStats[] {
+    return [...this.entries.values()]
+      .map((entry) => ({ ...entry.stats }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  private createEntry(occurrence: ErrorOccurrence, now: number): FingerprintEntry {
+    const timestamp = new Date(now).toISOString();
+    return {
+      stats: {
+        fingerprint: occurrence.fingerprint,
+        errorCode: occurrence.errorCode,
+        statusCode: occurrence.statusCode,
+        route: occurrence.route,
+        message: occurrence.message,
+        count: 0,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+      },
+      windowStart: now,
+      loggedInWindow: 0,
+      suppressedInWindow: 0,
+    };
+  }
+
+  private emitSummary(entry: FingerprintEntry): void {
+    if (entry.suppressedInWindow === 0) {
+      return;
+    }
+
+    const summary: ErrorOccurrenceSummary = {
+      fingerprint: entry.stats.fingerprint,
+      errorCode: entry.stats.errorCode,
+      statusCode: entry.stats.statusCode,
+      route: entry.stats.route,
+      message: entry.stats.message,
+      suppressedCount: entry.suppressedInWindow,
+      windowMs: this.windowMs,
+    };
+    entry.suppressedInWindow = 0;
+
+    for (const listener of this.summaryListeners) listener(summary);
+  }
+
+  private evictOldest(): void {
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) {
+        return;
+      }
+      const entry = this.entries.get(oldest.value);
+      if (entry) {
+        this.emitSummary(entry);
+      }
+      this.entries.delete(oldest.value);
+    }
+  }
+}
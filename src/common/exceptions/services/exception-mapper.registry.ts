@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+  BaseExceptionMapper,
+  ExceptionMapper,
+  HttpExceptionMapper,
+  UnknownExceptionMapper,
+  ValidationErrorMapper,
+} from '../mappers';
+
+/**
+ * Registry of exception mappers
+ *
+ * Holds the built-in mappers plus any contributed by feature modules through
+ * ExceptionsModule.forFeature(). Mappers are resolved by descending priority;
+ * mappers with equal priority keep their registration order.
+ */
+@Injectable()
+export class ExceptionMapperRegistry {
+  private readonly mappers: ExceptionMapper[] = [];
+
+  constructor() {
+    this.register(new BaseExceptionMapper());
+    this.register(new HttpExceptionMapper());
+    this.register(new ValidationErrorMapper());
+    this.register(new UnknownExceptionMapper());
+  }
+
+  /**
+   * Register a mapper
+   * @param mapper The mapper to add
+   */
+  register(mapper: ExceptionMapper): void {
+    const index = this.mappers.findIndex((existing) => existing.priority < mapper.priority);
+    if (index === -1) {
+      this.mappers.push(mapper);
+    } else {
+      this.mappers.splice(index, 0, mapper);
+    }
+  }
+
+  /**
+   * Find the mapper responsible for an exception
+   * @param exception The exception to map
+   * @returns The highest-priority mapper that can handle the exception
+   */
+  resolve(exception: unknown): ExceptionMapper {
+    const mapper = this.mappers.find((candidate) => candidate.canMap(exception));
+
+    // The built-in unknown exception mapper always matches, this is only a safeguard
+    return mapper ?? new UnknownExceptionMapper();
+  }
+
+  /**
+   * Get the registered mappers in resolution order
+   */
+  getMappers(): readonly ExceptionMapper[] {
+    return this.mappers;
+  }
+}
@@ -1,21 +1,43 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { HttpStatus, Injectable, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
-import { BaseException } from '../base.exception';
+import { I18nService } from '../../i18n/i18n.service';
 import { ValidationException } from '../domain-exceptions';
+import { getDefaultErrorCodeForStatus, getErrorMetadata } from '../error-catalog';
 import { ErrorCode } from '../error-codes.enum';
 import { HttpResponse } from '../http-response.interface';
+import { ExceptionMapperContext } from '../mappers/exception-mapper.interface';
+import { ProblemDetails } from '../problem-details.interface';
+import { ValidationErrorItem } from '../validation-error-item.interface';
+
+import { ExceptionMapperRegistry } from './exception-mapper.registry';
+
+/**
+ * Default base URI for problem type identifiers
+ */
+const DEFAULT_ERROR_TYPE_BASE_URI = '/errors';
 
 /**
  * Service responsible for mapping different exception types to standardized HttpResponse objects
  * Follows Single Responsibility Principle by focusing only on mapping exceptions to responses
+ *
+ * The mapping itself is delegated to the mappers held by ExceptionMapperRegistry
  */
 @Injectable()
 export class ExceptionMapperService {
   private readonly isProduction: boolean;
-
-  constructor(private readonly configService: ConfigService) {
+  private readonly errorTypeBaseUri: string;
+  private readonly registry: ExceptionMapperRegistry;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() private readonly i18n?: I18nService,
+    @Optional() registry?: ExceptionMapperRegistry,
+  ) {
     this.isProduction = configService.get<string>('NODE_ENV') === 'production';
+    this.registry = registry ?? new ExceptionMapperRegistry();
+    const baseUri = configService.get<string>('ERROR_TYPE_BASE_URI') || DEFAULT_ERROR_TYPE_BASE_URI;
+    this.errorTypeBaseUri = baseUri.endsWith('/') ? baseUri.slice(0, -1) : baseUri;
   }
 
   /**
@@ -39,16 +61,14 @@ export class ExceptionMapperService {
       errorResponse.correlationId = correlationId;
     }
 
-    // Map different types of exceptions
-    if (exception instanceof BaseException) {
-      this.mapBaseException(exception, errorResponse);
-    } else if (exception instanceof HttpException) {
-      this.mapHttpException(exception, errorResponse);
-    } else if (this.isKnownValidationFormat(exception)) {
-      this.mapValidationError(exception as Record<string, unknown>, errorResponse);
-    } else {
-      this.mapUnknownException(exception, errorResponse);
-    }
+    // Map the exception with the highest-priority matching mapper
+    const context: ExceptionMapperContext = { isProduction: this.isProduction };
+    this.registry.resolve(exception).map(exception, errorResponse, context);
+
+    // Fall back to the catalog retryability when the mapper did not set it
+    errorResponse.retryable ??= getErrorMetadata(
+      (errorResponse.errorCode as ErrorCode) || ErrorCode.INTERNAL_SERVER_ERROR,
+    ).retryable;
 
     // Remove stack trace in production
     if (this.isProduction && errorResponse.data?.stack) {
@@ -59,135 +79,144 @@ export class ExceptionMapperService {
   }
 
   /**
-   * Maps BaseException to HttpResponse
+   * Translates the message and validation errors of a mapped response
+   * Only catalog default messages are translated; custom messages are kept as thrown
+   * The English response is returned unchanged when no translation applies
+   * @param response The standardized error response
+   * @param exception The original exception, used for its validation violations
+   * @param locale Target locale
+   * @returns Localized copy of the response
    */
-  private mapBaseException(exception: BaseException, errorResponse: HttpResponse): void {
-    errorResponse.statusCode = exception.getStatus();
-    errorResponse.message = exception.message;
-    errorResponse.errorCode = exception.errorCode;
-
-    // Add validation errors if available (for ValidationException)
-    if (exception instanceof ValidationException) {
-      errorResponse.errors = exception.errors;
+  localizeResponse(response: HttpResponse, exception: unknown, locale: string): HttpResponse {
+    if (!this.i18n || this.i18n.isFallbackLocale(locale)) {
+      return response;
+    }
+
+    const errorCode = (response.errorCode as ErrorCode) || ErrorCode.INTERNAL_SERVER_ERROR;
+    const localized: HttpResponse = { ...response };
+    if (response.message === getErrorMetadata(errorCode).message) {
+      localized.message = this.i18n.translateError(errorCode, locale, response.message);
     }
 
-    // Add error context to data for non-production environments
-    if (!this.isProduction && exception.errorContext) {
-      errorResponse.data = exception.errorContext;
+    if (exception instanceof ValidationException && exception.violations) {
+      localized.violations = this.localizeViolations(exception.violations, locale, this.i18n);
+      localized.errors = { ...exception.errors };
+      for (const field of new Set(localized.violations.map((violation) => violation.field))) {
+        localized.errors[field] = localized.violations
+          .filter((violation) => violation.field === field)
+          .map((violation) => violation.message);
+      }
     }
+
+    return localized;
   }
 
   /**
-   * Maps HttpException to HttpResponse
+   * Maps any exception to an RFC 9457 problem details object
+   * @param exception The exception to map
+   * @param correlationId Optional correlation ID for request tracing
+   * @param instance Optional URI reference identifying this occurrence (usually the request path)
+   * @returns Problem details object
    */
-  private mapHttpException(exception: HttpException, errorResponse: HttpResponse): void {
-    // Set common properties once
-    errorResponse.statusCode = exception.getStatus();
-    errorResponse.errorCode = this.mapStatusToErrorCode(exception.getStatus());
-
-    const response = exception.getResponse();
-
-    if (typeof response === 'string') {
-      errorResponse.message = response;
-    } else if (typeof response === 'object') {
-      const responseObj = response as Record<string, unknown>;
-      errorResponse.message = (responseObj.message as string) || 'An error occurred';
-
-      // Include validation errors if available
-      if (responseObj.errors) {
-        errorResponse.errors = responseObj.errors as Record<string, string[]>;
-      }
-
-      // Add additional data for non-production environments
-      if (!this.isProduction) {
-        errorResponse.data = responseObj;
-      }
-    } else {
-      errorResponse.message = exception.message;
-    }
+  mapExceptionToProblemDetails(
+    exception: unknown,
+    correlationId?: string,
+    instance?: string,
+  ): ProblemDetails {
+    return this.toProblemDetails(this.mapExceptionToResponse(exception, correlationId), instance);
   }
 
   /**
-   * Maps validation errors to HttpResponse
+   * Converts a standardized HttpResponse into an RFC 9457 problem details object
+   * errorCode, correlationId, retry hints, errors, violations and data become extension members
+   * @param response The standardized error response
+   * @param instance Optional URI reference identifying this occurrence
+   * @returns Problem details object
    */
-  private mapValidationError(
-    exception: Record<string, unknown>,
-    errorResponse: HttpResponse,
-  ): void {
-    errorResponse.statusCode = HttpStatus.BAD_REQUEST;
-    errorResponse.message = 'Validation failed';
-    errorResponse.errorCode = ErrorCode.VALIDATION_FAILED;
-
-    // Format validation errors into a more user-friendly structure
-    const formattedErrors: Record<string, string[]> = {};
-
-    if (Array.isArray((exception.message as Record<string, unknown>)?.validation)) {
-      for (const error of (exception.message as Record<string, unknown>)?.validation as Array<{
-        property: string;
-        constraints?: Record<string, string>;
-      }>) {
-        formattedErrors[error.property] = Object.values(error.constraints || {});
-      }
-    } else if (exception.errors) {
-      const errors = exception.errors as Record<string, { message: string }>;
-      for (const key of Object.keys(errors)) {
-        formattedErrors[key] = [errors[key].message];
-      }
+  toProblemDetails(response: HttpResponse, instance?: string): ProblemDetails {
+    const errorCode = (response.errorCode as ErrorCode) || ErrorCode.INTERNAL_SERVER_ERROR;
+
+    const problem: ProblemDetails = {
+      type: this.getErrorTypeUri(errorCode),
+      title: getErrorMetadata(errorCode).message,
+      status: response.statusCode,
+      detail: response.message,
+      errorCode,
+      timestamp: response.timestamp,
+    };
+
+    if (instance) {
+      problem.instance = instance;
+    }
+
+    if (response.correlationId) {
+      problem.correlationId = response.correlationId;
     }
 
-    errorResponse.errors = formattedErrors;
+    if (response.retryable !== undefined) {
+      problem.retryable = response.retryable;
+    }
+
+    if (response.retryAfter !== undefined) {
+      problem.retryAfter = response.retryAfter;
+    }
+
+    if (response.backoff) {
+      problem.backoff = response.backoff;
+    }
+
+    if (response.errors) {
+      problem.errors = response.errors;
+    }
+
+    if (response.violations) {
+      problem.violations = response.violations;
+    }
+
+    if (response.data) {
+      problem.data = response.data;
+    }
+
+    return problem;
   }
 
   /**
-   * Maps unknown exceptions to HttpResponse
+   * Get the stable problem type URI for an error code
+   * @param errorCode Application error code
+   * @returns Problem type URI, e.g. /errors/resource-not-found
    */
-  private mapUnknownException(exception: unknown, errorResponse: HttpResponse): void {
-    errorResponse.message = 'An unexpected error occurred';
-
-    // Log detailed error info in non-production environments
-    if (!this.isProduction) {
-      errorResponse.data =
-        exception instanceof Error
-          ? {
-              name: exception.name,
-              message: exception.message,
-              stack: exception.stack || '',
-            }
-          : { exception: String(exception) };
-    }
+  getErrorTypeUri(errorCode: ErrorCode): string {
+    return `${this.errorTypeBaseUri}/${getErrorMetadata(errorCode).docSlug}`;
   }
 
   /**
-   * Maps HTTP status codes to error codes
-   * @param status HTTP status code
-   * @returns Corresponding error code
+   * Translates validation messages by constraint code
+   * Constraint parameters are available for interpolation, e.g. {{min}}
    */
-  mapStatusToErrorCode(status: number): ErrorCode {
-    const errorCodeMap: Record<number, ErrorCode> = {
-      [HttpStatus.BAD_REQUEST]: ErrorCode.INVALID_INPUT,
-      [HttpStatus.UNAUTHORIZED]: ErrorCode.UNAUTHORIZED,
-      [HttpStatus.FORBIDDEN]: ErrorCode.FORBIDDEN,
-      [HttpStatus.NOT_FOUND]: ErrorCode.RESOURCE_NOT_FOUND,
-      [HttpStatus.CONFLICT]: ErrorCode.RESOURCE_CONFLICT,
-      [HttpStatus.UNPROCESSABLE_ENTITY]: ErrorCode.BUSINESS_RULE_VIOLATION,
-      [HttpStatus.SERVICE_UNAVAILABLE]: ErrorCode.SERVICE_UNAVAILABLE,
-    };
-
-    return errorCodeMap[status] || ErrorCode.INTERNAL_SERVER_ERROR;
+  private localizeViolations(
+    violations: ValidationErrorItem[],
+    locale: string,
+    i18n: I18nService,
+  ): ValidationErrorItem[] {
+    return violations.map((violation) => {
+      const property = violation.field.split('.').at(-1) ?? violation.field;
+      return {
+        ...violation,
+        message: i18n.translateConstraint(violation.code, locale, violation.message, {
+          ...violation.params,
+          property,
+          path: violation.field,
+        }),
+      };
+    });
   }
 
   /**
-   * Checks if an exception is a validation error
+   * Maps HTTP status codes to error codes using the error catalog defaults
+   * @param status HTTP status code
+   * @returns Corresponding error code
    */
-  private isKnownValidationFormat(exception: unknown): boolean {
-    if (!exception || typeof exception !== 'object') {
-      return false;
-    }
-
-    const exceptionObj = exception as Record<string, unknown>;
-    return (
-      (exceptionObj.message as Record<string, unknown>)?.validation !== undefined ||
-      exceptionObj.errors !== undefined
-    );
+  mapStatusToErrorCode(status: number): ErrorCode {
+    return getDefaultErrorCodeForStatus(status);
   }
 }
@@ -1,2 +1,4 @@
 export * from './error-logger.service';
+export * from './error-occurrence-tracker.service';
+export * from './exception-mapper.registry';
 export * from './exception-mapper.service';
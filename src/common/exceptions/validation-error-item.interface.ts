@@ -0,0 +1,29 @@
+/**
+ * Machine-readable description of a single failed validation constraint
+ */
+export interface ValidationErrorItem {
+  /**
+   * JSON pointer (RFC 6901) to the invalid value, e.g. /items/0/email
+   */
+  path: string;
+
+  /**
+   * Field path used as key in the errors map, e.g. items[0].email
+   */
+  field: string;
+
+  /**
+   * Failed constraint code (class-validator constraint name, e.g. isEmail, min)
+   */
+  code: string;
+
+  /**
+   * Human-readable message
+   */
+  message: string;
+
+  /**
+   * Constraint parameters, e.g. { min: 8 } for minLength(8)
+   */
+  params?: Record<string, unknown>;
+}
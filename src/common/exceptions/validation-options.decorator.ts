@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import {
+  applyDecorators,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  SetMetadata,
+  UseInterceptors,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+
+/**
+ * Validation options that can be overridden per controller or handler
+ */
+export interface ValidationRouteOptions {
+  /**
+   * Validation groups to apply; only constraints in these groups (or marked always) are checked
+   */
+  groups?: string[];
+
+  /**
+   * Whether to skip validation of properties that are null or undefined (e.g. for PATCH)
+   */
+  skipMissingProperties?: boolean;
+
+  /**
+   * Whether to strip properties that don't have decorators
+   */
+  whitelist?: boolean;
+
+  /**
+   * Whether to throw an error if non-whitelisted properties are present
+   */
+  forbidNonWhitelisted?: boolean;
+
+  /**
+   * Whether to reject nested objects that don't have decorators
+   */
+  forbidUnknownValues?: boolean;
+}
+
+/**
+ * Metadata key for route validation options
+ */
+export const VALIDATION_OPTIONS_KEY = 'validation:options';
+
+/**
+ * Route validation options of the handler being executed
+ * Read by GlobalValidationPipe, which has no access to the handler itself
+ */
+export const validationOptionsStorage = new AsyncLocalStorage<ValidationRouteOptions>();
+
+/**
+ * Interceptor exposing the route validation options to GlobalValidationPipe
+ * Pipes run inside the interceptor chain, so they see the options of the current handler
+ */
+@Injectable()
+export class ValidationOptionsInterceptor implements NestInterceptor {
+  constructor(private readonly reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const [classOptions, handlerOptions] = this.reflector.getAll<
+      Array<ValidationRouteOptions | undefined>
+    >(VALIDATION_OPTIONS_KEY, [context.getClass(), context.getHandler()]);
+    const merged: ValidationRouteOptions = { ...classOptions, ...handlerOptions };
+
+    return new Observable((subscriber) =>
+      validationOptionsStorage.run(merged, () => next.handle().subscribe(subscriber)),
+    );
+  }
+}
+
+/**
+ * Override GlobalValidationPipe options for a controller or handler
+ * Handler options take precedence over controller options
+ *
+ * @example
+ * ```typescript
+ * @Patch(':id')
+ * @ValidationOptions({ skipMissingProperties: true, groups: ['update'] })
+ * update(@Param('id') id: number, @Body() dto: UserDto) {}
+ * ```
+ *
+ * @param options Validation options for the route
+ */
+export function ValidationOptions(
+  options: ValidationRouteOptions,
+): ClassDecorator & MethodDecorator {
+  return applyDecorators(
+    SetMetadata(VALIDATION_OPTIONS_KEY, options),
+    UseInterceptors(ValidationOptionsInterceptor),
+  );
+}
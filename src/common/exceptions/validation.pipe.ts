@@ -1,12 +1,84 @@
 import { ArgumentMetadata, Injectable, PipeTransform, Type } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
-import { validate, ValidationError } from 'class-validator';
+import { getMetadataStorage, validate, ValidationError } from 'class-validator';
+
+import { bindSensitiveType } from '../utils/sensitive.decorator';
 
 import { ValidationException } from './domain-exceptions';
+import { ErrorCode } from './error-codes.enum';
+import { ValidationErrorItem } from './validation-error-item.interface';
+import { ValidationRouteOptions, validationOptionsStorage } from './validation-options.decorator';
+
+/**
+ * Parameter names of built-in constraints, in decorator argument order
+ * Other constraints use class-validator's message placeholder names (constraint1, constraint2, ...)
+ */
+const CONSTRAINT_PARAM_NAMES: Record<string, string[]> = {
+  min: ['min'],
+  max: ['max'],
+  minLength: ['min'],
+  maxLength: ['max'],
+  isLength: ['min', 'max'],
+  arrayMinSize: ['min'],
+  arrayMaxSize: ['max'],
+  minDate: ['min'],
+  maxDate: ['max'],
+  isIn: ['values'],
+  isNotIn: ['values'],
+  equals: ['comparison'],
+  notEquals: ['comparison'],
+  isDivisibleBy: ['divisor'],
+  contains: ['seed'],
+  notContains: ['seed'],
+  matches: ['pattern', 'modifiers'],
+  isEnum: ['entity', 'values'],
+};
+
+/**
+ * Errors map key for errors about the validated value as a whole
+ */
+const ROOT_ERROR_FIELD = '_error';
+
+/**
+ * Escape a path segment for use in a JSON pointer (RFC 6901)
+ */
+function escapePointerSegment(segment: string): string {
+  return segment.replaceAll('~', '~0').replaceAll('/', '~1');
+}
+
+/**
+ * Convert a constraint argument to a JSON-safe parameter value
+ */
+function toParamValue(value: unknown): unknown {
+  if (value instanceof RegExp) {
+    return value.source;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'function') {
+    return (value as { name?: string }).name;
+  }
+  return value;
+}
+
+/**
+ * Options for GlobalValidationPipe
+ */
+export interface GlobalValidationPipeOptions extends ValidationRouteOptions {
+  /**
+   * Whether to enable auto type conversion
+   */
+  transform?: boolean;
+}
 
 /**
  * Global validation pipe that validates DTOs using class-validator
  * Provides consistent validation error format
+ *
+ * Options can be overridden per controller or handler with @ValidationOptions().
+ * Scalar route params and query values typed as number, boolean or Date are
+ * coerced, and rejected with INVALID_FORMAT when they cannot be converted.
  */
 @Injectable()
 export class GlobalValidationPipe implements PipeTransform {
@@ -15,24 +87,7 @@ export class GlobalValidationPipe implements PipeTransform {
    * @param options Options for the validation pipe
    */
   constructor(
-    private readonly options: {
-      /**
-       * Whether to enable auto type conversion
-       */
-      transform?: boolean;
-      /**
-       * Whether to whitelist properties that don't have decorators
-       */
-      whitelist?: boolean;
-      /**
-       * Whether to throw an error if non-whitelisted properties are present
-       */
-      forbidNonWhitelisted?: boolean;
-      /**
-       * Whether to reject nested objects that don't have decorators
-       */
-      forbidUnknownValues?: boolean;
-    } = {
+    private readonly options: GlobalValidationPipeOptions = {
       transform: true,
       whitelist: true,
       forbidNonWhitelisted: false,
@@ -49,11 +104,22 @@ export class GlobalValidationPipe implements PipeTransform {
    */
   async transform(value: unknown, metadata: ArgumentMetadata): Promise<unknown> {
     try {
+      // Coerce and validate scalar route params and query values
+      if (metadata.metatype && this.isScalarArgument(metadata)) {
+        return this.coerceScalar(value, metadata.metatype, metadata.data ?? metadata.type);
+      }
+
       // Only validate if metatype is defined and it's not a primitive type
       if (!metadata.metatype || this.isNativeType(metadata.metatype)) {
         return value;
       }
 
+      // Apply the per-route overrides of @ValidationOptions()
+      const options: GlobalValidationPipeOptions = {
+        ...this.options,
+        ...validationOptionsStorage.getStore(),
+      };
+
       // Skip validation for non-object values (e.g., params, query with a single value)
       if (typeof value !== 'object' || value === null) {
         return value;
@@ -61,21 +127,27 @@ export class GlobalValidationPipe implements PipeTransform {
 
       const valueAsRecord = value as Record<string, unknown>;
 
+      // Logged request bodies are masked by the @Sensitive() properties of the DTO,
+      // including bodies failing validation
+      bindSensitiveType(valueAsRecord, metadata.metatype);
+
       // Transform plain object to instance of the metatype class
       const object = plainToInstance(metadata.metatype, valueAsRecord, {
-        enableImplicitConversion: this.options.transform,
+        enableImplicitConversion: options.transform,
       });
 
       // Validate the object
       const errors = await validate(object as object, {
-        whitelist: this.options.whitelist,
-        forbidNonWhitelisted: this.options.forbidNonWhitelisted,
-        forbidUnknownValues: this.options.forbidUnknownValues,
+        whitelist: options.whitelist,
+        forbidNonWhitelisted: options.forbidNonWhitelisted,
+        forbidUnknownValues: options.forbidUnknownValues,
+        skipMissingProperties: options.skipMissingProperties,
+        groups: options.groups,
       });
 
       // If there are validation errors, format them and throw an exception
       if (errors.length > 0) {
-        throw new ValidationException(this.formatErrors(errors));
+        throw ValidationException.fromViolations(this.collectViolations(errors));
       }
 
       // Return the validated object
@@ -88,7 +160,7 @@ export class GlobalValidationPipe implements PipeTransform {
 
       // Otherwise, wrap the error in a ValidationException with a friendly message
       throw new ValidationException(
-        { _error: ['An unexpected error occurred during validation'] },
+        { [ROOT_ERROR_FIELD]: ['An unexpected error occurred during validation'] },
         `Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`,
       );
     }
@@ -105,28 +177,146 @@ export class GlobalValidationPipe implements PipeTransform {
   }
 
   /**
-   * Format validation errors into a more user-friendly structure
-   * @param errors Validation errors from class-validator
-   * @returns Formatted errors
+   * Check if an argument is a single route param or query value of a scalar type
+   * @param metadata Metadata about the value
+   * @returns Boolean indicating if the value should be coerced
    */
-  private formatErrors(errors: ValidationError[]): Record<string, string[]> {
-    const formattedErrors: Record<string, string[]> = {};
+  private isScalarArgument(metadata: ArgumentMetadata): boolean {
+    const scalarTypes: Array<Type<unknown>> = [Number, Boolean, Date];
+    return (
+      (metadata.type === 'param' || metadata.type === 'query') &&
+      metadata.data !== undefined &&
+      !!metadata.metatype &&
+      scalarTypes.includes(metadata.metatype)
+    );
+  }
+
+  /**
+   * Convert a string param or query value to its declared scalar type
+   * Missing values are passed through so optional query parameters keep working
+   * @param value The raw value
+   * @param metatype Declared type (Number, Boolean or Date)
+   * @param name Parameter name used in the error
+   * @returns The converted value
+   * @throws ValidationException with INVALID_FORMAT if the value cannot be converted
+   */
+  private coerceScalar(value: unknown, metatype: Type<unknown>, name: string): unknown {
+    if (value === undefined || value === null || typeof value !== 'string') {
+      return value;
+    }
+
+    const trimmed = value.trim();
+    let code: string;
+    let message: string;
+
+    if (metatype === Number) {
+      const number = Number(trimmed);
+      if (trimmed !== '' && Number.isFinite(number)) {
+        return number;
+      }
+      code = 'isNumber';
+      message = `${name} must be a number`;
+    } else if (metatype === Boolean) {
+      if (['true', '1'].includes(trimmed.toLowerCase())) {
+        return true;
+      }
+      if (['false', '0'].includes(trimmed.toLowerCase())) {
+        return false;
+      }
+      code = 'isBoolean';
+      message = `${name} must be a boolean value`;
+    } else {
+      const date = new Date(trimmed);
+      if (trimmed !== '' && !Number.isNaN(date.getTime())) {
+        return date;
+      }
+      code = 'isDateString';
+      message = `${name} must be a valid ISO 8601 date string`;
+    }
+
+    const path = `/${escapePointerSegment(name)}`;
+    const violation: ValidationErrorItem = { path, field: name, code, message };
+    throw new ValidationException(
+      { [name]: [message] },
+      undefined,
+      undefined,
+      [violation],
+      ErrorCode.INVALID_FORMAT,
+    );
+  }
 
-    const formatError = (error: ValidationError, parentPath = ''): void => {
-      const property = parentPath ? `${parentPath}.${error.property}` : error.property;
+  /**
+   * Flatten validation errors into machine-readable violations
+   * Each failed constraint yields one item with its JSON pointer, field path and parameters
+   * @param errors Validation errors from class-validator
+   * @returns Violations in validation order
+   */
+  private collectViolations(errors: ValidationError[]): ValidationErrorItem[] {
+    const violations: ValidationErrorItem[] = [];
 
-      // Handle constraints (validation errors)
-      if (error.constraints) {
-        formattedErrors[property] = Object.values(error.constraints);
+    const collect = (error: ValidationError, parentPointer: string, parentField: string): void => {
+      // Errors about the value itself (e.g. unknownValue) have no property
+      let path = parentPointer;
+      let field = parentField || ROOT_ERROR_FIELD;
+      if (error.property) {
+        path = `${parentPointer}/${escapePointerSegment(error.property)}`;
+        if (/^\d+$/.test(error.property)) {
+          field = `${parentField}[${error.property}]`;
+        } else {
+          field = parentField ? `${parentField}.${error.property}` : error.property;
+        }
       }
 
-      // Handle nested errors
-      if (error.children && error.children.length > 0) {
-        for (const child of error.children) formatError(child, property);
+      for (const [code, message] of Object.entries(error.constraints ?? {})) {
+        const violation: ValidationErrorItem = { path, field, code, message };
+        const params = this.getConstraintParams(error, code);
+        if (params) {
+          violation.params = params;
+        }
+        violations.push(violation);
       }
+
+      for (const child of error.children ?? []) collect(child, path, field);
     };
 
-    for (const error of errors) formatError(error);
-    return formattedErrors;
+    for (const error of errors) collect(error, '', '');
+    return violations;
+  }
+
+  /**
+   * Look up the arguments a constraint was declared with
+   * @param error Validation error of the property
+   * @param code Constraint name
+   * @returns Named constraint parameters, or undefined if the constraint has none
+   */
+  private getConstraintParams(
+    error: ValidationError,
+    code: string,
+  ): Record<string, unknown> | undefined {
+    const target = error.target;
+    if (!target || typeof target !== 'object') {
+      return undefined;
+    }
+
+    const metadata = getMetadataStorage()
+      .getTargetValidationMetadatas(target.constructor, '', false, false)
+      .find(
+        (entry) => entry.propertyName === error.property && (entry.name ?? entry.type) === code,
+      );
+    const constraints = metadata?.constraints as unknown[] | undefined;
+    if (!constraints?.length) {
+      return undefined;
+    }
+
+    const names = CONSTRAINT_PARAM_NAMES[code] ?? [];
+    const params: Record<string, unknown> = Object.fromEntries(
+      constraints
+        .map((value, index): [string, unknown] => [
+          names[index] ?? `constraint${index + 1}`,
+          toParamValue(value),
+        ])
+        .filter(([, value]) => value !== undefined),
+    );
+    return Object.keys(params).length > 0 ? params : undefined;
   }
 }
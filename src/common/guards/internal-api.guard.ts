@@ -0,0 +1,58 @@
+import { timingSafeEqual } from 'node:crypto';
+
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import {
+  DomainUnauthorizedException,
+  ResourceNotFoundException,
+} from '../exceptions/domain-exceptions';
+
+/**
+ * Guard for internal and administrative endpoints
+ *
+ * Endpoints are hidden (404) unless INTERNAL_API_ENABLED is true, and requests must
+ * send INTERNAL_API_TOKEN in the X-Internal-Token header. Without a configured token
+ * every request is rejected.
+ */
+@Injectable()
+export class InternalApiGuard implements CanActivate {
+  /**
+   * Header carrying the internal API token
+   */
+  public static readonly TOKEN_HEADER = 'X-Internal-Token';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (String(this.configService.get('INTERNAL_API_ENABLED')) !== 'true') {
+      throw new ResourceNotFoundException();
+    }
+
+    const expectedToken = this.configService.get<string>('INTERNAL_API_TOKEN');
+    if (!expectedToken) {
+      throw new DomainUnauthorizedException('Internal API token is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const token = request.headers[InternalApiGuard.TOKEN_HEADER.toLowerCase()];
+
+    if (typeof token !== 'string' || !this.tokensMatch(token, expectedToken)) {
+      throw new DomainUnauthorizedException('Invalid internal API token');
+    }
+
+    return true;
+  }
+
+  /**
+   * Compare tokens in constant time
+   */
+  private tokensMatch(actual: string, expected: string): boolean {
+    const actualBuffer = Buffer.from(actual);
+    const expectedBuffer = Buffer.from(expected);
+    return (
+      actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer)
+    );
+  }
+}
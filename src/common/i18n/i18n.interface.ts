@@ -0,0 +1,32 @@
+import { ErrorCode } from '../exceptions/error-codes.enum';
+
+/**
+ * Parameters available for message interpolation
+ */
+export type MessageParams = Record<string, unknown>;
+
+/**
+ * Translated messages for a single locale
+ * Missing entries fall back to the built-in English text
+ */
+export interface MessageBundle {
+  /**
+   * Error messages keyed by error code
+   * Translate the catalog default message; custom exception messages are not translated
+   */
+  errors?: Partial<Record<ErrorCode, string>>;
+
+  /**
+   * Validation messages keyed by class-validator constraint name (e.g. isEmail, minLength)
+   * May reference {{property}} and the constraint parameters
+   */
+  validation?: Record<string, string>;
+}
+
+/**
+ * User profile fields consulted when resolving the request locale
+ */
+export interface LocaleAwareUser {
+  locale?: string;
+  language?: string;
+}
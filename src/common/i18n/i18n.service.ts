@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import { ErrorCode } from '../exceptions/error-codes.enum';
+
+import { LocaleAwareUser, MessageBundle, MessageParams } from './i18n.interface';
+import { MESSAGE_BUNDLES } from './locales';
+
+/**
+ * Locale used for the built-in English messages
+ */
+export const FALLBACK_LOCALE = 'en';
+
+/**
+ * Default query parameter used to select the locale
+ */
+const DEFAULT_LOCALE_QUERY_PARAM = 'lang';
+
+/**
+ * Placeholder syntax for message interpolation, e.g. {{property}}
+ */
+const PLACEHOLDER_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Translation service for error and validation messages
+ * Resolves the request locale and looks up message bundles,
+ * falling back to the original English text when no translation exists
+ */
+@Injectable()
+export class I18nService {
+  private readonly defaultLocale: string;
+  private readonly queryParam: string;
+  private readonly bundles: Record<string, MessageBundle>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.bundles = MESSAGE_BUNDLES;
+    this.queryParam = configService.get<string>('I18N_QUERY_PARAM') || DEFAULT_LOCALE_QUERY_PARAM;
+    this.defaultLocale =
+      this.matchLocale(configService.get<string>('I18N_DEFAULT_LOCALE') || '') ?? FALLBACK_LOCALE;
+  }
+
+  /**
+   * Get the locales messages are available in
+   */
+  getSupportedLocales(): string[] {
+    return [FALLBACK_LOCALE, ...Object.keys(this.bundles)];
+  }
+
+  /**
+   * Resolve the locale for a request
+   * Order: query parameter, user profile, Accept-Language header, configured default
+   *
+   * @param request HTTP request
+   * @returns Supported locale
+   */
+  resolveLocale(request: Request): string {
+    const queryLocale = request.query?.[this.queryParam];
+    const user = (request as Request & { user?: LocaleAwareUser }).user;
+
+    const candidates = [
+      typeof queryLocale === 'string' ? queryLocale : undefined,
+      user?.locale,
+      user?.language,
+      ...this.parseAcceptLanguage(request.headers?.['accept-language']),
+    ];
+
+    for (const candidate of candidates) {
+      const locale = candidate ? this.matchLocale(candidate) : undefined;
+      if (locale) {
+        return locale;
+      }
+    }
+
+    return this.defaultLocale;
+  }
+
+  /**
+   * Translate an error message
+   * @param errorCode Error code used as the message key
+   * @param locale Target locale
+   * @param fallback English message used when no translation exists
+   * @returns Translated message, or the fallback
+   */
+  translateError(errorCode: ErrorCode, locale: string, fallback: string): string {
+    return this.bundles[locale]?.errors?.[errorCode] || fallback;
+  }
+
+  /**
+   * Translate a validation constraint message
+   * @param constraint class-validator constraint name (e.g. isEmail)
+   * @param locale Target locale
+   * @param fallback English message produced by class-validator
+   * @param params Interpolation parameters (property name and constraint parameters)
+   * @returns Translated message, or the fallback
+   */
+  translateConstraint(
+    constraint: string,
+    locale: string,
+    fallback: string,
+    params: MessageParams = {},
+  ): string {
+    return this.translate(this.bundles[locale]?.validation?.[constraint], fallback, params);
+  }
+
+  /**
+   * Check whether a locale uses the built-in English messages
+   */
+  isFallbackLocale(locale: string): boolean {
+    return locale === FALLBACK_LOCALE;
+  }
+
+  /**
+   * Interpolate a template, falling back when a placeholder has no value
+   */
+  private translate(template: string | undefined, fallback: string, params: MessageParams): string {
+    if (!template) {
+      return fallback;
+    }
+
+    let missingParam = false;
+    const message = template.replaceAll(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      const value = params[name];
+      if (value === undefined || value === null || typeof value === 'object') {
+        missingParam = true;
+        return '';
+      }
+      return String(value as string | number | boolean);
+    });
+
+    return missingParam ? fallback : message;
+  }
+
+  /**
+   * Match a requested locale against the supported locales
+   * Tries the exact tag first, then its primary language (de-AT -> de)
+   */
+  private matchLocale(requested: string): string | undefined {
+    const normalized = requested.trim().toLowerCase();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const supported = this.getSupportedLocales();
+    if (supported.includes(normalized)) {
+      return normalized;
+    }
+
+    const [language] = normalized.split(/[-_]/);
+    return supported.includes(language) ? language : undefined;
+  }
+
+  /**
+   * Parse an Accept-Language header into language tags ordered by quality
+   */
+  private parseAcceptLanguage(header: string | undefined): string[] {
+    if (!header) {
+      return [];
+    }
+
+    return header
+      .split(',')
+      .map((part) => {
+        const [tag, ...params] = part.trim().split(';');
+        const qualityParam = params.find((param) => param.trim().startsWith('q='));
+        const quality = qualityParam ? Number.parseFloat(qualityParam.trim().slice(2)) : 1;
+        return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality };
+      })
+      .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+      .sort((a, b) => b.quality - a.quality)
+      .map(({ tag }) => tag);
+  }
+}
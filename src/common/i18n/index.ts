@@ -0,0 +1,4 @@
+export * from './i18n.interface';
+export * from './i18n.module';
+export * from './i18n.service';
+export * from './locales';
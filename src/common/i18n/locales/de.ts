@@ -0,0 +1,48 @@
+import { ErrorCode } from '../../exceptions/error-codes.enum';
+import { MessageBundle } from '../i18n.interface';
+
+/**
+ * German messages
+ */
+export const de: MessageBundle = {
+  errors: {
+    [ErrorCode.VALIDATION_FAILED]: 'Validierung fehlgeschlagen',
+    [ErrorCode.INVALID_INPUT]: 'Ungültige Eingabe',
+    [ErrorCode.INVALID_FORMAT]: 'Ungültiges Format',
+    [ErrorCode.UNAUTHORIZED]: 'Nicht autorisierter Zugriff',
+    [ErrorCode.INVALID_CREDENTIALS]: 'Ungültige Anmeldedaten',
+    [ErrorCode.SESSION_EXPIRED]: 'Sitzung abgelaufen',
+    [ErrorCode.INVALID_TOKEN]: 'Ungültiges Token',
+    [ErrorCode.FORBIDDEN]: 'Zugriff verweigert',
+    [ErrorCode.INSUFFICIENT_PERMISSIONS]: 'Unzureichende Berechtigungen',
+    [ErrorCode.RESOURCE_NOT_FOUND]: 'Ressource nicht gefunden',
+    [ErrorCode.RESOURCE_ALREADY_EXISTS]: 'Ressource existiert bereits',
+    [ErrorCode.RESOURCE_CONFLICT]: 'Ressourcenkonflikt',
+    [ErrorCode.BUSINESS_RULE_VIOLATION]: 'Verstoß gegen eine Geschäftsregel',
+    [ErrorCode.INVALID_STATE]: 'Ungültiger Zustand',
+    [ErrorCode.OPERATION_NOT_ALLOWED]: 'Vorgang nicht erlaubt',
+    [ErrorCode.EXTERNAL_SERVICE_ERROR]: 'Fehler eines externen Dienstes',
+    [ErrorCode.EXTERNAL_SERVICE_TIMEOUT]: 'Zeitüberschreitung eines externen Dienstes',
+    [ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE]: 'Externer Dienst nicht verfügbar',
+    [ErrorCode.INTERNAL_SERVER_ERROR]: 'Interner Serverfehler',
+    [ErrorCode.NOT_IMPLEMENTED]: 'Nicht implementiert',
+    [ErrorCode.SERVICE_UNAVAILABLE]: 'Dienst nicht verfügbar',
+  },
+  validation: {
+    isNotEmpty: '{{property}} darf nicht leer sein',
+    isDefined: '{{property}} muss angegeben werden',
+    isString: '{{property}} muss eine Zeichenkette sein',
+    isInt: '{{property}} muss eine ganze Zahl sein',
+    isNumber: '{{property}} muss eine Zahl sein',
+    isBoolean: '{{property}} muss ein boolescher Wert sein',
+    isEmail: '{{property}} muss eine E-Mail-Adresse sein',
+    isUuid: '{{property}} muss eine UUID sein',
+    isEnum: '{{property}} muss ein gültiger Wert sein',
+    isDateString: '{{property}} muss ein gültiges Datum sein',
+    minLength: '{{property}} muss mindestens {{min}} Zeichen lang sein',
+    maxLength: '{{property}} darf höchstens {{max}} Zeichen lang sein',
+    min: '{{property}} darf nicht kleiner als {{min}} sein',
+    max: '{{property}} darf nicht größer als {{max}} sein',
+    whitelistValidation: 'Die Eigenschaft {{property}} ist nicht erlaubt',
+  },
+};
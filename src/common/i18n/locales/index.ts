@@ -0,0 +1,11 @@
+import { MessageBundle } from '../i18n.interface';
+
+import { de } from './de';
+
+/**
+ * Message bundles keyed by locale
+ * English is the built-in fallback and needs no bundle
+ */
+export const MESSAGE_BUNDLES: Record<string, MessageBundle> = {
+  de,
+};
@@ -1,10 +1,20 @@
 import { randomUUID } from 'node:crypto';
 
-import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Injectable, NestMiddleware, Optional } from '@nestjs/common';
 import { NextFunction, Request, Response } from 'express';
 
+import { Span } from '../tracing/span';
+import { SpanKind, SpanStatusCode } from '../tracing/span.interface';
+import {
+  formatTraceParent,
+  parseTraceParent,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from '../tracing/trace-context';
+import { TracingService } from '../tracing/tracing.service';
+
 /**
- * Middleware to add a correlation ID to each request
+ * Middleware to add a correlation ID and W3C Trace Context to each request
  * Used for tracking and correlating logs across the request lifecycle
  */
 @Injectable()
@@ -14,10 +24,15 @@ export class CorrelationIdMiddleware implements NestMiddleware {
    */
   public static readonly CORRELATION_ID_HEADER = 'X-Correlation-ID';
 
+  constructor(@Optional() private readonly tracing?: TracingService) {}
+
   /**
    * Add correlation ID to the request
    * If the request already has a correlation ID, use it
    * Otherwise, generate a new one
+   *
+   * When tracing is available, a server span is started as a child of the incoming
+   * traceparent (or as a new trace) and returned in the traceparent response header
    */
   use(request: Request, response: Response, next: NextFunction): void {
     // Get existing correlation ID or generate a new one
@@ -31,6 +46,52 @@ export class CorrelationIdMiddleware implements NestMiddleware {
     // Add correlation ID to the request object for logger access
     (request as Request & { correlationId?: string }).correlationId = correlationId as string;
 
+    if (this.tracing) {
+      const span = this.startServerSpan(this.tracing, request, response);
+      (request as Request & { span?: Span }).span = span;
+    }
+
     next();
   }
+
+  /**
+   * Start the server span of a request and end it when the response is finished
+   */
+  private startServerSpan(tracing: TracingService, request: Request, response: Response): Span {
+    const parent = parseTraceParent(
+      request.headers[TRACEPARENT_HEADER],
+      request.headers[TRACESTATE_HEADER],
+    );
+    const span = tracing.startSpan(`${request.method} ${request.path}`, {
+      kind: SpanKind.Server,
+      parent,
+      attributes: {
+        'http.method': request.method,
+        'http.target': request.path,
+        'correlation.id': (request as Request & { correlationId?: string }).correlationId ?? '',
+      },
+    });
+
+    const traceContext = span.spanContext();
+    response.set(TRACEPARENT_HEADER, formatTraceParent(traceContext));
+    if (traceContext.traceState) {
+      response.set(TRACESTATE_HEADER, traceContext.traceState);
+    }
+
+    const endSpan = (): void => {
+      const route = (request.route as { path?: string } | undefined)?.path;
+      if (route) {
+        span.updateName(`${request.method} ${route}`).setAttribute('http.route', route);
+      }
+      span.setAttribute('http.status_code', response.statusCode);
+      if (response.statusCode >= 500) {
+        span.setStatus(SpanStatusCode.Error, `HTTP ${response.statusCode}`);
+      }
+      span.end();
+    };
+    response.once('finish', endSpan);
+    response.once('close', endSpan);
+
+    return span;
+  }
 }
@@ -0,0 +1,43 @@
+import { IsIn, IsInt, IsISO8601, IsOptional, IsString, Max, Min } from 'class-validator';
+
+import { LogCaptureQuery } from '../log-capture.interface';
+import { LOG_LEVELS, LogLevel } from '../log-level.interface';
+
+/**
+ * Maximum number of captured lines returned at once
+ */
+export const MAX_LOG_ENTRIES_LIMIT = 1000;
+
+/**
+ * Query string of the log inspector
+ */
+export class QueryLogEntriesDto implements LogCaptureQuery {
+  @IsString()
+  @IsOptional()
+  correlationId?: string;
+
+  /**
+   * Minimum level
+   */
+  @IsIn(LOG_LEVELS)
+  @IsOptional()
+  level?: LogLevel;
+
+  @IsString()
+  @IsOptional()
+  context?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  from?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  to?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LOG_ENTRIES_LIMIT)
+  @IsOptional()
+  limit?: number;
+}
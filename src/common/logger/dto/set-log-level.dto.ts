@@ -0,0 +1,33 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+import { LOG_LEVELS, LogLevel } from '../log-level.interface';
+
+/**
+ * Maximum TTL of a runtime log level, in seconds
+ */
+export const MAX_LOG_LEVEL_TTL_SECONDS = 86_400;
+
+/**
+ * Body of a runtime log level change
+ */
+export class SetLogLevelDto {
+  @IsIn(LOG_LEVELS)
+  level!: LogLevel;
+
+  /**
+   * Seconds after which the level reverts
+   */
+  @IsInt()
+  @Min(1)
+  @Max(MAX_LOG_LEVEL_TTL_SECONDS)
+  @IsOptional()
+  ttlSeconds?: number;
+
+  /**
+   * Why the change is made, recorded in the audit event
+   */
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+}
@@ -0,0 +1,101 @@
+import { Bindings } from 'pino';
+
+import { LogFormatter, LogFormatterOptions } from './log-format.interface';
+import {
+  asIdentifier,
+  getErrorFields,
+  getRequestFields,
+  getResponseStatus,
+} from './log-format.utils';
+
+/**
+ * ECS version the fields follow
+ */
+export const ECS_VERSION = '8.11.0';
+
+/**
+ * Map the bindings of the root logger to ECS fields
+ */
+function formatEcsBindings(bindings: Bindings): Record<string, unknown> {
+  const { pid, hostname, ...rest } = bindings;
+
+  return {
+    ...rest,
+    'process.pid': pid as unknown,
+    'host.hostname': hostname as unknown,
+  };
+}
+
+/**
+ * Map the request bound by pino-http to ECS fields, without headers
+ */
+function formatEcsRequest(req: unknown): Record<string, unknown> {
+  const request = getRequestFields(req);
+
+  return {
+    'http.request.id': request?.id,
+    'http.request.method': request?.method,
+    'url.original': request?.url,
+    'user_agent.original': request?.userAgent,
+    'client.ip': request?.remoteIp,
+  };
+}
+
+/**
+ * Map the fields of a log call to ECS fields
+ * Dotted keys are used so that fields from bindings and log calls never collide
+ */
+function formatEcsLog(
+  object: Record<string, unknown>,
+  options: LogFormatterOptions,
+): Record<string, unknown> {
+  const {
+    trace_id,
+    span_id,
+    correlationId,
+    context,
+    userId,
+    tenantId,
+    err,
+    error,
+    errorCode,
+    statusCode,
+    res,
+    responseTime,
+    ...rest
+  } = object;
+  const errorFields = getErrorFields(err ?? error);
+
+  return {
+    'ecs.version': ECS_VERSION,
+    'service.name': options.serviceName,
+    ...rest,
+    'log.logger': context,
+    'trace.id': trace_id,
+    'span.id': span_id,
+    'labels.correlation_id': correlationId,
+    'user.id': asIdentifier(userId),
+    'organization.id': tenantId,
+    'error.type': errorFields?.type,
+    'error.message': errorFields?.message,
+    'error.stack_trace': errorFields?.stack,
+    'error.code': errorCode,
+    'http.response.status_code': statusCode ?? getResponseStatus(res),
+    'event.duration': typeof responseTime === 'number' ? responseTime * 1_000_000 : undefined,
+  };
+}
+
+/**
+ * Create the Elastic Common Schema (ECS) output format
+ * @see https://www.elastic.co/guide/en/ecs-logging/overview/current/intro.html
+ */
+export function createEcsFormatter(options: LogFormatterOptions = {}): LogFormatter {
+  return {
+    messageKey: 'message',
+    timestamp: () => `,"@timestamp":"${new Date().toISOString()}"`,
+    levelFields: (label) => ({ 'log.level': label }),
+    bindings: formatEcsBindings,
+    requestFields: formatEcsRequest,
+    log: (object) => formatEcsLog(object, options),
+  };
+}
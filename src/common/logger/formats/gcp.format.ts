@@ -0,0 +1,90 @@
+import { stdTimeFunctions } from 'pino';
+
+import { LogFormatter, LogFormatterOptions } from './log-format.interface';
+import {
+  asIdentifier,
+  getErrorFields,
+  getRequestFields,
+  getResponseRequest,
+  getResponseStatus,
+} from './log-format.utils';
+
+/**
+ * Cloud Logging severities by Pino level
+ */
+const GCP_SEVERITIES: Record<string, string> = {
+  trace: 'DEBUG',
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARNING',
+  error: 'ERROR',
+  fatal: 'CRITICAL',
+};
+
+/**
+ * Build the httpRequest field of the access log line written by pino-http
+ * @see https://cloud.google.com/logging/docs/reference/v2/rest/v2/LogEntry#HttpRequest
+ */
+function formatHttpRequest(
+  response: unknown,
+  responseTime: unknown,
+): Record<string, unknown> | undefined {
+  const request = getRequestFields(getResponseRequest(response));
+  if (!request) {
+    return undefined;
+  }
+
+  return {
+    requestMethod: request.method,
+    requestUrl: request.url,
+    status: getResponseStatus(response),
+    userAgent: request.userAgent,
+    remoteIp: request.remoteIp,
+    protocol: request.protocol,
+    ...(typeof responseTime === 'number' && { latency: `${responseTime / 1000}s` }),
+  };
+}
+
+/**
+ * Map the fields of a log call to Cloud Logging special fields
+ * @see https://cloud.google.com/logging/docs/structured-logging#special-payload-fields
+ */
+function formatGcpLog(
+  object: Record<string, unknown>,
+  options: LogFormatterOptions,
+): Record<string, unknown> {
+  const { trace_id, span_id, correlationId, err, res, responseTime, ...rest } = object;
+  const errorFields = getErrorFields(err ?? rest.error);
+  const trace =
+    typeof trace_id === 'string' && options.gcpProjectId
+      ? `projects/${options.gcpProjectId}/traces/${trace_id}`
+      : trace_id;
+
+  return {
+    ...rest,
+    ...(err !== undefined && { error: { name: errorFields?.type, message: errorFields?.message } }),
+    // Error Reporting groups entries by service and reads the stack from stack_trace
+    ...(errorFields?.stack && {
+      stack_trace: errorFields.stack,
+      serviceContext: options.serviceName ? { service: options.serviceName } : undefined,
+    }),
+    httpRequest: res === undefined ? undefined : formatHttpRequest(res, responseTime),
+    'logging.googleapis.com/trace': trace,
+    'logging.googleapis.com/spanId': span_id,
+    'logging.googleapis.com/labels':
+      correlationId === undefined ? undefined : { correlationId: asIdentifier(correlationId) },
+  };
+}
+
+/**
+ * Create the Google Cloud Logging structured output format
+ * @see https://cloud.google.com/logging/docs/structured-logging
+ */
+export function createGcpFormatter(options: LogFormatterOptions = {}): LogFormatter {
+  return {
+    messageKey: 'message',
+    timestamp: stdTimeFunctions.isoTime,
+    levelFields: (label) => ({ severity: GCP_SEVERITIES[label] ?? 'DEFAULT' }),
+    log: (object) => formatGcpLog(object, options),
+  };
+}
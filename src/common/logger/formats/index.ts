@@ -0,0 +1,5 @@
+export * from './ecs.format';
+export * from './gcp.format';
+export * from './log-format.factory';
+export * from './log-format.interface';
+export * from './log-format.utils';
@@ -0,0 +1,26 @@
+import { createEcsFormatter } from './ecs.format';
+import { createGcpFormatter } from './gcp.format';
+import { LogFormatter, LogFormatterOptions } from './log-format.interface';
+
+/**
+ * Create the output format for LOG_FORMAT
+ * @param format Configured LOG_FORMAT; dev, json and unknown values keep Pino's JSON shape
+ * @param options Format options
+ * @returns The output format, empty for Pino's JSON shape
+ */
+export function createLogFormatter(
+  format: string | undefined,
+  options: LogFormatterOptions = {},
+): LogFormatter {
+  switch (format) {
+    case 'ecs': {
+      return createEcsFormatter(options);
+    }
+    case 'gcp': {
+      return createGcpFormatter(options);
+    }
+    default: {
+      return {};
+    }
+  }
+}
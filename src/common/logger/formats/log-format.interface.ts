@@ -0,0 +1,55 @@
+import { Bindings } from 'pino';
+
+/**
+ * Options shared by the output formats
+ */
+export interface LogFormatterOptions {
+  /**
+   * Name of the service, reported by formats that include one
+   */
+  serviceName?: string;
+
+  /**
+   * Google Cloud project, used to build fully qualified trace names
+   */
+  gcpProjectId?: string;
+}
+
+/**
+ * Shape of the JSON log lines written by Pino
+ *
+ * Level fields are added by the mixin, next to Pino's numeric level, so that they
+ * are also written when log lines are routed to multiple transport targets.
+ */
+export interface LogFormatter {
+  /**
+   * Key of the message, defaults to msg
+   */
+  messageKey?: string;
+
+  /**
+   * Pino timestamp function, returning the timestamp field as a JSON fragment
+   */
+  timestamp?: () => string;
+
+  /**
+   * Fields naming the level of a line
+   */
+  levelFields?: (label: string) => Record<string, unknown>;
+
+  /**
+   * Remap the bindings of the root logger (pid, hostname)
+   * Pino does not apply it to the bindings of child loggers
+   */
+  bindings?: (bindings: Bindings) => Record<string, unknown>;
+
+  /**
+   * Fields bound to the request logger of pino-http, in place of the serialized request
+   */
+  requestFields?: (request: unknown) => Record<string, unknown>;
+
+  /**
+   * Remap the fields of a log call, after the mixin fields were merged in
+   */
+  log?: (object: Record<string, unknown>) => Record<string, unknown>;
+}
@@ -0,0 +1,90 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * Fields of an error, from an Error instance or the error context of ErrorLoggerService
+ */
+export interface ErrorFields {
+  type?: string;
+  message?: string;
+  stack?: string;
+}
+
+/**
+ * Fields of an HTTP request bound by pino-http
+ */
+export interface RequestFields {
+  id?: string;
+  method?: string;
+  url?: string;
+  userAgent?: string;
+  remoteIp?: string;
+  protocol?: string;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Get an identifier, such as a user or request ID, as a string
+ */
+export function asIdentifier(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Get the type, message and stack of an error
+ * @param error Error instance, `{ name, message, stack }` object or message
+ */
+export function getErrorFields(error: unknown): ErrorFields | undefined {
+  if (typeof error === 'string') {
+    return { message: error };
+  }
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { name, type, message, stack } = error as Record<string, unknown>;
+  return {
+    type: asString(name) ?? asString(type),
+    message: asString(message),
+    stack: asString(stack),
+  };
+}
+
+/**
+ * Get the fields of a raw Express request
+ * @param request Request bound to the log line, before serialization
+ */
+export function getRequestFields(request: unknown): RequestFields | undefined {
+  if (!request || typeof request !== 'object') {
+    return undefined;
+  }
+
+  const { id, method, url, originalUrl, headers, ip, socket, httpVersion } =
+    request as IncomingMessage & { id?: unknown; originalUrl?: string; ip?: string };
+  return {
+    id: asIdentifier(id),
+    method,
+    url: originalUrl ?? url,
+    userAgent: asString(headers?.['user-agent']),
+    remoteIp: ip ?? socket?.remoteAddress,
+    protocol: httpVersion ? `HTTP/${httpVersion}` : undefined,
+  };
+}
+
+/**
+ * Get the status code of a raw response logged by pino-http
+ */
+export function getResponseStatus(response: unknown): number | undefined {
+  return response && typeof response === 'object'
+    ? (response as ServerResponse).statusCode
+    : undefined;
+}
+
+/**
+ * Get the request of a raw response logged by pino-http
+ */
+export function getResponseRequest(response: unknown): IncomingMessage | undefined {
+  return response && typeof response === 'object' ? (response as ServerResponse).req : undefined;
+}
@@ -1,4 +1,25 @@
 export * from './correlation-id.middleware';
+export * from './dto/query-log-entries.dto';
+export * from './dto/set-log-level.dto';
+export * from './formats';
+export * from './log-capture.controller';
+export * from './log-capture.interface';
+export * from './log-capture.module';
+export * from './log-capture.service';
+export * from './log-level.controller';
+export * from './log-level.interface';
+export * from './log-level.module';
+export * from './log-level.service';
+export * from './log-sampling.interface';
+export * from './log-sampling.module';
+export * from './log-sampling.service';
+export * from './log-sanitization';
+export * from './logger-config.module';
 export * from './logger.config';
 export * from './logger.module';
 export * from './logger.service';
+export * from './method-timing.service';
+export * from './payload-logging.interceptor';
+export * from './payload-logging.interface';
+export * from './timed.decorator';
+export * from './transports';
@@ -0,0 +1,46 @@
+import { Controller, Delete, Get, HttpCode, HttpStatus, Query, UseGuards } from '@nestjs/common';
+
+import { ResourceNotFoundException } from '../exceptions/domain-exceptions';
+import { InternalApiGuard } from '../guards/internal-api.guard';
+
+import { QueryLogEntriesDto } from './dto/query-log-entries.dto';
+import { CapturedLogEntry } from './log-capture.interface';
+import { LogCaptureService } from './log-capture.service';
+
+/**
+ * Internal endpoints for inspecting recent log lines during development
+ * Available when both INTERNAL_API_ENABLED and LOG_CAPTURE_ENABLED are true, outside production
+ */
+@Controller('internal/logging/entries')
+@UseGuards(InternalApiGuard)
+export class LogCaptureController {
+  constructor(private readonly logCapture: LogCaptureService) {}
+
+  /**
+   * Find captured lines by correlation ID, minimum level, context and time range, oldest first
+   */
+  @Get()
+  getEntries(@Query() query: QueryLogEntriesDto): CapturedLogEntry[] {
+    this.ensureEnabled();
+    return this.logCapture.query(query);
+  }
+
+  /**
+   * Remove all captured lines
+   */
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  clearEntries(): void {
+    this.ensureEnabled();
+    this.logCapture.clear();
+  }
+
+  /**
+   * Hide the endpoints unless log capture is enabled
+   */
+  private ensureEnabled(): void {
+    if (!this.logCapture.isEnabled()) {
+      throw new ResourceNotFoundException();
+    }
+  }
+}
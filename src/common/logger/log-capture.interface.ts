@@ -0,0 +1,59 @@
+import { LogLevel } from './log-level.interface';
+
+/**
+ * Log line kept by the log capture
+ */
+export interface CapturedLogEntry {
+  /**
+   * Time of the line, as an ISO 8601 string
+   */
+  time: string;
+
+  level: string;
+
+  /**
+   * Logger context, e.g. AppController
+   */
+  context?: string;
+
+  /**
+   * Correlation ID of the request the line was written in
+   */
+  correlationId?: string;
+
+  message?: string;
+
+  /**
+   * The line as written by Pino, after redaction and formatting
+   */
+  line: Record<string, unknown>;
+}
+
+/**
+ * Filter for captured log lines; all given conditions must match
+ */
+export interface LogCaptureQuery {
+  correlationId?: string;
+
+  /**
+   * Minimum level, e.g. warn for warn, error and fatal lines
+   */
+  level?: LogLevel;
+
+  context?: string;
+
+  /**
+   * Earliest time, inclusive
+   */
+  from?: Date | string;
+
+  /**
+   * Latest time, inclusive
+   */
+  to?: Date | string;
+
+  /**
+   * Maximum number of lines, the most recent are returned
+   */
+  limit?: number;
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { ConfigModule } from '../../config/config.module';
+import { RequestContextModule } from '../context/request-context.module';
+
+import { LogCaptureService } from './log-capture.service';
+
+/**
+ * Module providing the in-memory log capture
+ * Shared by the Pino logger configuration, the log inspector endpoint and tests
+ */
+@Module({
+  imports: [ConfigModule, RequestContextModule],
+  providers: [LogCaptureService],
+  exports: [LogCaptureService],
+})
+export class LogCaptureModule {}
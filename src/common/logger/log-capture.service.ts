@@ -0,0 +1,160 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { levels } from 'pino';
+
+import { Environment } from '../../config/env/env.interface';
+import { RequestContextService } from '../context/request-context.service';
+
+import { CapturedLogEntry, LogCaptureQuery } from './log-capture.interface';
+
+/**
+ * Default number of captured log lines
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read the level label of a line; the json format writes labels, ecs and gcp numbers
+ */
+function readLevel(line: Record<string, unknown>): string {
+  const { level } = line;
+  if (typeof level === 'number') {
+    return levels.labels[level] ?? String(level);
+  }
+  return typeof level === 'string' ? level.toLowerCase() : 'info';
+}
+
+/**
+ * Read the time of a line in milliseconds, falling back to the capture time
+ */
+function readTime(line: Record<string, unknown>): number {
+  const time = line.time ?? line['@timestamp'];
+  if (typeof time === 'number') {
+    return time;
+  }
+
+  const parsed = typeof time === 'string' ? Date.parse(time) : Number.NaN;
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+}
+
+/**
+ * Read the correlation ID of a line in any output format
+ */
+function readCorrelationId(line: Record<string, unknown>): string | undefined {
+  const gcpLabels = line['logging.googleapis.com/labels'] as Record<string, unknown> | undefined;
+  return (
+    asString(line.correlationId) ??
+    asString(line['labels.correlation_id']) ??
+    asString(gcpLabels?.correlationId)
+  );
+}
+
+/**
+ * In-memory capture of the most recent log lines, for development and tests
+ *
+ * When LOG_CAPTURE_ENABLED is true outside production, LoggerConfigService hands every
+ * line written by Pino to capture(), on the main thread and regardless of the
+ * configured transports. Lines are kept in a ring buffer of LOG_CAPTURE_MAX_ENTRIES
+ * and can be queried by correlation ID, level, context and time range.
+ */
+@Injectable()
+export class LogCaptureService {
+  private readonly enabled: boolean;
+  private readonly maxEntries: number;
+  private readonly entries: CapturedLogEntry[] = [];
+  private next = 0;
+
+  constructor(
+    configService: ConfigService,
+    @Optional() private readonly requestContext?: RequestContextService,
+  ) {
+    this.enabled =
+      String(configService.get('LOG_CAPTURE_ENABLED')) === 'true' &&
+      configService.get<Environment>('NODE_ENV') !== Environment.Production;
+    this.maxEntries = Number(configService.get('LOG_CAPTURE_MAX_ENTRIES')) || DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Whether log lines are captured
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Keep a line written by Pino
+   * @param line Serialized JSON line
+   */
+  capture(line: string): void {
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      return;
+    }
+
+    // The hook runs synchronously within the log call, in the request context of the caller
+    this.add({
+      time: new Date(readTime(parsed)).toISOString(),
+      level: readLevel(parsed),
+      context: asString(parsed.context) ?? asString(parsed['log.logger']),
+      correlationId: this.requestContext?.getCorrelationId() ?? readCorrelationId(parsed),
+      message: asString(parsed.msg) ?? asString(parsed.message),
+      line: parsed,
+    });
+  }
+
+  /**
+   * Find captured lines, oldest first
+   * @param query Conditions the lines must match
+   */
+  query(query: LogCaptureQuery = {}): CapturedLogEntry[] {
+    const minLevel = query.level === undefined ? undefined : levels.values[query.level];
+    const from = query.from === undefined ? undefined : new Date(query.from).getTime();
+    const to = query.to === undefined ? undefined : new Date(query.to).getTime();
+
+    const matches = this.getEntries().filter((entry) => {
+      const time = Date.parse(entry.time);
+      return (
+        (query.correlationId === undefined || entry.correlationId === query.correlationId) &&
+        (minLevel === undefined || (levels.values[entry.level] ?? 0) >= minLevel) &&
+        (query.context === undefined || entry.context === query.context) &&
+        (from === undefined || time >= from) &&
+        (to === undefined || time <= to)
+      );
+    });
+
+    return query.limit === undefined ? matches : matches.slice(-query.limit);
+  }
+
+  /**
+   * Get all captured lines, oldest first
+   */
+  getEntries(): CapturedLogEntry[] {
+    return [...this.entries.slice(this.next), ...this.entries.slice(0, this.next)];
+  }
+
+  /**
+   * Remove all captured lines
+   */
+  clear(): void {
+    this.entries.length = 0;
+    this.next = 0;
+  }
+
+  /**
+   * Add an entry, overwriting the oldest one when the buffer is full
+   */
+  private add(entry: CapturedLogEntry): void {
+    if (this.entries.length < this.maxEntries) {
+      this.entries.push(entry);
+      return;
+    }
+
+    this.entries[this.next] = entry;
+    this.next = (this.next + 1) % this.maxEntries;
+  }
+}
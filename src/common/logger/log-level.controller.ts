@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+import { ResourceNotFoundException } from '../exceptions/domain-exceptions';
+import { InternalApiGuard } from '../guards/internal-api.guard';
+
+import { SetLogLevelDto } from './dto/set-log-level.dto';
+import { LogLevelOverride, LogLevelsSnapshot } from './log-level.interface';
+import { LogLevelService } from './log-level.service';
+
+/**
+ * Internal endpoints for reading and changing log levels at runtime
+ * Available when both INTERNAL_API_ENABLED and LOG_LEVEL_ADMIN_ENABLED are true
+ */
+@Controller('internal/logging/levels')
+@UseGuards(InternalApiGuard)
+export class LogLevelController {
+  constructor(private readonly logLevels: LogLevelService) {}
+
+  /**
+   * Get the default level, the global level in effect and all overrides
+   */
+  @Get()
+  getLevels(): LogLevelsSnapshot {
+    this.ensureEnabled();
+    return this.logLevels.getLevels();
+  }
+
+  /**
+   * Set the global level
+   */
+  @Put()
+  setGlobalLevel(@Body() body: SetLogLevelDto, @Req() request: Request): LogLevelOverride {
+    this.ensureEnabled();
+    return this.logLevels.setLevel({ ...body, actor: this.getActor(request) });
+  }
+
+  /**
+   * Set the level of one logger context, e.g. AppController
+   */
+  @Put(':context')
+  setContextLevel(
+    @Param('context') context: string,
+    @Body() body: SetLogLevelDto,
+    @Req() request: Request,
+  ): LogLevelOverride {
+    this.ensureEnabled();
+    return this.logLevels.setLevel({ ...body, actor: this.getActor(request) }, context);
+  }
+
+  /**
+   * Revert the global level to LOG_LEVEL
+   */
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  resetGlobalLevel(@Req() request: Request): void {
+    this.ensureEnabled();
+    this.logLevels.resetLevel(this.getActor(request));
+  }
+
+  /**
+   * Remove the override of one logger context
+   */
+  @Delete(':context')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  resetContextLevel(@Param('context') context: string, @Req() request: Request): void {
+    this.ensureEnabled();
+    if (!this.logLevels.resetLevel(this.getActor(request), context)) {
+      throw new ResourceNotFoundException(`No log level override for context: ${context}`, {
+        context,
+      });
+    }
+  }
+
+  /**
+   * Hide the endpoints unless runtime log levels are enabled
+   */
+  private ensureEnabled(): void {
+    if (!this.logLevels.isEnabled()) {
+      throw new ResourceNotFoundException();
+    }
+  }
+
+  /**
+   * Identify who made a change for the audit event
+   */
+  private getActor(request: Request): string {
+    const userId = (request as Request & { user?: { id?: string | number } }).user?.id;
+    return userId === undefined ? `internal-api (${request.ip ?? 'unknown'})` : `user:${userId}`;
+  }
+}
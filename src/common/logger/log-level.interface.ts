@@ -0,0 +1,66 @@
+/**
+ * Log levels that can be set at runtime, from most to least verbose
+ */
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Runtime override of the global level or of a logger context's level
+ */
+export interface LogLevelOverride {
+  level: LogLevel;
+
+  /**
+   * Logger context the override applies to; undefined for the global level
+   */
+  context?: string;
+
+  changedAt: string;
+  changedBy: string;
+
+  /**
+   * Time the override reverts, if it was set with a TTL
+   */
+  expiresAt?: string;
+}
+
+/**
+ * Current log levels
+ */
+export interface LogLevelsSnapshot {
+  /**
+   * Level configured by LOG_LEVEL
+   */
+  defaultLevel: LogLevel;
+
+  /**
+   * Global level in effect
+   */
+  globalLevel: LogLevel;
+
+  globalOverride?: LogLevelOverride;
+  contexts: LogLevelOverride[];
+}
+
+/**
+ * Requested log level change
+ */
+export interface LogLevelChange {
+  level: LogLevel;
+
+  /**
+   * Seconds after which the level reverts
+   */
+  ttlSeconds?: number;
+
+  /**
+   * Who requested the change, recorded in the audit event
+   */
+  actor: string;
+
+  /**
+   * Why the change was made, recorded in the audit event
+   */
+  reason?: string;
+}
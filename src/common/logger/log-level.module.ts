@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+
+import { ConfigModule } from '../../config/config.module';
+
+import { LogLevelService } from './log-level.service';
+
+/**
+ * Module providing the runtime log levels
+ * Shared by the Pino logger configuration and the log level endpoints
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [LogLevelService],
+  exports: [LogLevelService],
+})
+export class LogLevelModule {}
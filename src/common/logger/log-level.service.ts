@@ -0,0 +1,196 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { levels } from 'pino';
+
+import {
+  LOG_LEVELS,
+  LogLevel,
+  LogLevelChange,
+  LogLevelOverride,
+  LogLevelsSnapshot,
+} from './log-level.interface';
+
+/**
+ * Key identifying the global override
+ */
+const GLOBAL_KEY = Symbol('global');
+
+/**
+ * Actor recorded when an override expires
+ */
+const TTL_ACTOR = 'ttl';
+
+interface OverrideEntry {
+  override: LogLevelOverride;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Check whether a value is a supported log level
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+/**
+ * Runtime log levels for the pino logger, globally and per logger context
+ *
+ * When LOG_LEVEL_ADMIN_ENABLED is true, LoggerConfigService creates pino with the
+ * most verbose level and filters each log call through shouldLog(), so changes
+ * apply immediately to all loggers, including those of requests in flight.
+ * Every change is written as an audit log event, regardless of the levels in effect.
+ */
+@Injectable()
+export class LogLevelService implements OnModuleDestroy {
+  private readonly logger = new Logger(LogLevelService.name);
+  private readonly enabled: boolean;
+  private readonly defaultLevel: LogLevel;
+  private readonly overrides = new Map<string | typeof GLOBAL_KEY, OverrideEntry>();
+
+  constructor(configService: ConfigService) {
+    this.enabled = String(configService.get('LOG_LEVEL_ADMIN_ENABLED')) === 'true';
+    const level = configService.get<string>('LOG_LEVEL');
+    this.defaultLevel = isLogLevel(level) ? level : 'info';
+  }
+
+  onModuleDestroy(): void {
+    for (const entry of this.overrides.values()) clearTimeout(entry.timer);
+  }
+
+  /**
+   * Whether log levels can be changed at runtime
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Get the level configured by LOG_LEVEL
+   */
+  getDefaultLevel(): LogLevel {
+    return this.defaultLevel;
+  }
+
+  /**
+   * Get the current levels and overrides
+   */
+  getLevels(): LogLevelsSnapshot {
+    const contexts = [...this.overrides.entries()]
+      .filter(([key]) => key !== GLOBAL_KEY)
+      .map(([, entry]) => ({ ...entry.override }))
+      .sort((a, b) => (a.context ?? '').localeCompare(b.context ?? ''));
+    const globalOverride = this.overrides.get(GLOBAL_KEY)?.override;
+
+    return {
+      defaultLevel: this.defaultLevel,
+      globalLevel: globalOverride?.level ?? this.defaultLevel,
+      globalOverride: globalOverride && { ...globalOverride },
+      contexts,
+    };
+  }
+
+  /**
+   * Set the global level, or the level of one logger context
+   * @param change New level, TTL and audit details
+   * @param context Logger context, e.g. AppController; undefined for the global level
+   * @returns The override in effect
+   */
+  setLevel(change: LogLevelChange, context?: string): LogLevelOverride {
+    const key = context ?? GLOBAL_KEY;
+    const previous = this.overrides.get(key);
+    clearTimeout(previous?.timer);
+
+    const now = Date.now();
+    const override: LogLevelOverride = {
+      level: change.level,
+      context,
+      changedAt: new Date(now).toISOString(),
+      changedBy: change.actor,
+      expiresAt: change.ttlSeconds
+        ? new Date(now + change.ttlSeconds * 1000).toISOString()
+        : undefined,
+    };
+
+    const entry: OverrideEntry = { override };
+    if (change.ttlSeconds) {
+      // Revert after the TTL, without keeping the process alive
+      entry.timer = setTimeout(() => this.resetLevel(TTL_ACTOR, context), change.ttlSeconds * 1000);
+      entry.timer.unref();
+    }
+    this.overrides.set(key, entry);
+
+    this.audit('log_level.changed', {
+      context,
+      previousLevel: previous?.override.level ?? this.getFallbackLevel(context),
+      newLevel: change.level,
+      ttlSeconds: change.ttlSeconds,
+      expiresAt: override.expiresAt,
+      actor: change.actor,
+      reason: change.reason,
+    });
+
+    return { ...override };
+  }
+
+  /**
+   * Remove the override of the global level or of one logger context
+   * @param actor Who requested the reset, recorded in the audit event
+   * @param context Logger context; undefined for the global level
+   * @returns Whether an override was removed
+   */
+  resetLevel(actor: string, context?: string): boolean {
+    const key = context ?? GLOBAL_KEY;
+    const entry = this.overrides.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    clearTimeout(entry.timer);
+    this.overrides.delete(key);
+
+    this.audit(actor === TTL_ACTOR ? 'log_level.expired' : 'log_level.reset', {
+      context,
+      previousLevel: entry.override.level,
+      newLevel: this.getFallbackLevel(context),
+      actor,
+    });
+    return true;
+  }
+
+  /**
+   * Decide whether a log call passes the levels in effect
+   * Audit events always pass
+   *
+   * @param level Numeric pino level of the call
+   * @param firstArg First argument of the call, carrying the logger context
+   */
+  shouldLog(level: number, firstArg?: unknown): boolean {
+    const fields =
+      firstArg && typeof firstArg === 'object' ? (firstArg as Record<string, unknown>) : {};
+    if (fields.audit === true) {
+      return true;
+    }
+
+    const context = typeof fields.context === 'string' ? fields.context : undefined;
+    const override = (context && this.overrides.get(context)) || this.overrides.get(GLOBAL_KEY);
+    return level >= this.toLevelValue(override?.override.level ?? this.defaultLevel);
+  }
+
+  /**
+   * Level a context falls back to when its override is removed
+   */
+  private getFallbackLevel(context?: string): LogLevel {
+    return (context && this.overrides.get(GLOBAL_KEY)?.override.level) || this.defaultLevel;
+  }
+
+  private toLevelValue(level: LogLevel): number {
+    return level === 'silent' ? Number.POSITIVE_INFINITY : levels.values[level];
+  }
+
+  /**
+   * Write an audit event, whose details must not shadow the fields of the line such as `level`
+   */
+  private audit(event: string, details: Record<string, unknown>): void {
+    this.logger.log({ msg: `Audit: ${event}`, audit: true, event, ...details });
+  }
+}
@@ -0,0 +1,41 @@
+import { LogLevel } from './log-level.interface';
+
+/**
+ * Rule keeping a fraction of matching log lines
+ * All given conditions must match; glob patterns use `*` for any sequence of characters
+ */
+export interface LogSamplingRule {
+  /**
+   * Levels the rule applies to; only trace, debug and info lines are sampled
+   */
+  level?: LogLevel | LogLevel[];
+
+  /**
+   * Logger context, e.g. AppController
+   */
+  context?: string;
+
+  /**
+   * Message key: the logKey field of the line, or its message
+   */
+  message?: string;
+
+  /**
+   * Request path, e.g. /users/*
+   */
+  route?: string;
+
+  /**
+   * Fraction of matching lines to keep, between 0 and 1
+   */
+  rate: number;
+}
+
+/**
+ * Summary of log lines suppressed by rate limiting
+ */
+export interface LogRateLimitSummary {
+  key: string;
+  suppressed: number;
+  intervalMs: number;
+}
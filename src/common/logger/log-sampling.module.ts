@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+
+import { ConfigModule } from '../../config/config.module';
+import { RequestContextModule } from '../context/request-context.module';
+
+import { LogSamplingService } from './log-sampling.service';
+
+/**
+ * Module providing log sampling and rate limiting for the Pino logger configuration
+ */
+@Module({
+  imports: [ConfigModule, RequestContextModule],
+  providers: [LogSamplingService],
+  exports: [LogSamplingService],
+})
+export class LogSamplingModule {}
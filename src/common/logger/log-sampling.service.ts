@@ -0,0 +1,263 @@
+import { createHash, randomInt } from 'node:crypto';
+
+import { Injectable, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { levels } from 'pino';
+
+import { RequestContextService } from '../context/request-context.service';
+import { matchesGlob } from '../utils/glob.utils';
+
+import { isLogLevel } from './log-level.service';
+import { LogRateLimitSummary, LogSamplingRule } from './log-sampling.interface';
+
+/**
+ * Default interval for rate limit summaries in milliseconds
+ */
+const DEFAULT_SUMMARY_INTERVAL_MS = 60_000;
+
+/**
+ * Maximum number of rate limited keys tracked at once
+ */
+const MAX_RATE_LIMIT_KEYS = 1000;
+
+/**
+ * Resolution of sampling decisions
+ */
+const SAMPLE_RANGE = 2 ** 32;
+
+/**
+ * Digit sequences, replaced in message keys so that lines differing only in IDs share a key
+ */
+const DIGITS_PATTERN = /\d+/g;
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  suppressed: number;
+}
+
+/**
+ * Fields of a log line relevant to sampling
+ */
+interface LogLine {
+  level: number;
+  context?: string;
+  message?: string;
+  key: string;
+}
+
+/**
+ * Parse and validate sampling rules
+ * @param value LOG_SAMPLING_RULES, as JSON or already parsed
+ * @returns Sampling rules
+ */
+export function parseSamplingRules(value: unknown): LogSamplingRule[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  const rules: unknown = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(rules)) {
+    throw new TypeError('LOG_SAMPLING_RULES must be a JSON array of rules');
+  }
+
+  return rules.map((rule: Partial<LogSamplingRule>, index) => {
+    const ruleLevels = rule.level === undefined ? [] : [rule.level].flat();
+    if (typeof rule.rate !== 'number' || rule.rate < 0 || rule.rate > 1) {
+      throw new TypeError(`LOG_SAMPLING_RULES[${index}].rate must be a number between 0 and 1`);
+    }
+    if (!ruleLevels.every((level) => isLogLevel(level))) {
+      throw new TypeError(`LOG_SAMPLING_RULES[${index}].level contains an unknown level`);
+    }
+    return rule as LogSamplingRule;
+  });
+}
+
+/**
+ * Sampling and rate limiting for high-volume log lines
+ *
+ * Trace, debug and info lines matching a sampling rule are kept with the rule's rate.
+ * The decision is derived from the correlation ID, so a sampled request is logged
+ * completely. Lines are additionally limited per message key with a token bucket;
+ * suppressed counts are logged periodically. Warn, error and fatal lines are always kept.
+ */
+@Injectable()
+export class LogSamplingService implements OnModuleDestroy {
+  private readonly logger = new Logger(LogSamplingService.name);
+  private readonly rules: LogSamplingRule[];
+  private readonly ratePerSecond?: number;
+  private readonly burst: number;
+  private readonly summaryIntervalMs: number;
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly summaryTimer?: NodeJS.Timeout;
+  private lastCorrelation?: { id: string; sample: number };
+
+  constructor(
+    configService: ConfigService,
+    @Optional() private readonly requestContext?: RequestContextService,
+  ) {
+    this.rules = parseSamplingRules(configService.get('LOG_SAMPLING_RULES'));
+    this.ratePerSecond = Number(configService.get('LOG_RATE_LIMIT_PER_SECOND')) || undefined;
+    this.burst = Number(configService.get('LOG_RATE_LIMIT_BURST')) || (this.ratePerSecond ?? 0);
+    this.summaryIntervalMs =
+      Number(configService.get('LOG_RATE_LIMIT_SUMMARY_INTERVAL_MS')) ||
+      DEFAULT_SUMMARY_INTERVAL_MS;
+
+    if (this.ratePerSecond) {
+      // Log suppressed counts periodically, without keeping the process alive
+      this.summaryTimer = setInterval(() => this.flushSummaries(), this.summaryIntervalMs);
+      this.summaryTimer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.summaryTimer);
+    this.flushSummaries();
+  }
+
+  /**
+   * Whether sampling rules or rate limiting are configured
+   */
+  isEnabled(): boolean {
+    return this.rules.length > 0 || this.ratePerSecond !== undefined;
+  }
+
+  /**
+   * Decide whether a log call is kept
+   * @param level Numeric pino level of the call
+   * @param args Arguments of the pino log call
+   * @param now Current time in milliseconds
+   */
+  shouldLog(level: number, args: unknown[], now = Date.now()): boolean {
+    if (level >= levels.values.warn) {
+      return true;
+    }
+
+    const fields =
+      args[0] && typeof args[0] === 'object' ? (args[0] as Record<string, unknown>) : {};
+    if (fields.audit === true || fields.logSampling === true) {
+      return true;
+    }
+
+    const line = this.describe(level, fields, args);
+    const rule = this.rules.find((candidate) => this.matches(candidate, line));
+    if (rule && !this.isSampled(rule.rate)) {
+      return false;
+    }
+
+    return this.takeToken(line.key, now);
+  }
+
+  /**
+   * Log and reset the counts of lines suppressed by rate limiting
+   * @returns The emitted summaries
+   */
+  flushSummaries(): LogRateLimitSummary[] {
+    const summaries: LogRateLimitSummary[] = [];
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.suppressed > 0) {
+        summaries.push(this.emitSummary(key, bucket));
+      }
+    }
+    return summaries;
+  }
+
+  private describe(level: number, fields: Record<string, unknown>, args: unknown[]): LogLine {
+    const context = typeof fields.context === 'string' ? fields.context : undefined;
+    const message = [args[0], args[1], fields.msg].find(
+      (value): value is string => typeof value === 'string',
+    );
+    const messageKey =
+      typeof fields.logKey === 'string'
+        ? fields.logKey
+        : (message ?? '').replaceAll(DIGITS_PATTERN, '#');
+
+    return {
+      level,
+      context,
+      message: typeof fields.logKey === 'string' ? fields.logKey : message,
+      key: `${context ?? ''}:${messageKey}`,
+    };
+  }
+
+  private matches(rule: LogSamplingRule, line: LogLine): boolean {
+    const ruleLevels = rule.level === undefined ? undefined : [rule.level].flat();
+    return (
+      (!ruleLevels || ruleLevels.some((level) => levels.values[level] === line.level)) &&
+      (!rule.context || matchesGlob(line.context, rule.context)) &&
+      (!rule.message || matchesGlob(line.message, rule.message)) &&
+      (!rule.route || matchesGlob(this.requestContext?.getContext()?.request?.path, rule.route))
+    );
+  }
+
+  /**
+   * Sampling decision, stable for all lines of the same correlation ID
+   */
+  private isSampled(rate: number): boolean {
+    if (rate >= 1 || rate <= 0) {
+      return rate >= 1;
+    }
+
+    const correlationId = this.requestContext?.getCorrelationId();
+    if (!correlationId) {
+      return randomInt(SAMPLE_RANGE) / SAMPLE_RANGE < rate;
+    }
+
+    if (this.lastCorrelation?.id !== correlationId) {
+      const hash = createHash('sha256').update(correlationId).digest();
+      this.lastCorrelation = { id: correlationId, sample: hash.readUInt32BE(0) / SAMPLE_RANGE };
+    }
+    return this.lastCorrelation.sample < rate;
+  }
+
+  /**
+   * Take a token from the key's bucket, counting the line as suppressed when empty
+   */
+  private takeToken(key: string, now: number): boolean {
+    if (!this.ratePerSecond) {
+      return true;
+    }
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      this.evictOldestBucket();
+      bucket = { tokens: this.burst, updatedAt: now, suppressed: 0 };
+      this.buckets.set(key, bucket);
+    }
+
+    const elapsedSeconds = Math.max(now - bucket.updatedAt, 0) / 1000;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + elapsedSeconds * this.ratePerSecond);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return true;
+    }
+
+    bucket.suppressed += 1;
+    return false;
+  }
+
+  private evictOldestBucket(): void {
+    if (this.buckets.size < MAX_RATE_LIMIT_KEYS) {
+      return;
+    }
+
+    const [key, bucket] = this.buckets.entries().next().value as [string, TokenBucket];
+    if (bucket.suppressed > 0) {
+      this.emitSummary(key, bucket);
+    }
+    this.buckets.delete(key);
+  }
+
+  private emitSummary(key: string, bucket: TokenBucket): LogRateLimitSummary {
+    const summary = { key, suppressed: bucket.suppressed, intervalMs: this.summaryIntervalMs };
+    bucket.suppressed = 0;
+    this.logger.log({
+      msg: `Suppressed ${summary.suppressed} log lines for ${key}`,
+      logSampling: true,
+      ...summary,
+    });
+    return summary;
+  }
+}
@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config';
+
+import { REDACTION_RULES } from '../constants/sensitive-fields.constants';
+import { parsePiiDetectionOptions } from '../utils/pii-detectors.utils';
+import { parseMaskingRules, RedactionRule } from '../utils/redaction-rules.utils';
+import { SanitizeOptions } from '../utils/sensitive-data.utils';
+
+/**
+ * Sanitization options of log lines and logged objects
+ */
+export interface LogSanitizeOptions extends SanitizeOptions {
+  /**
+   * REDACTION_RULES followed by the configured masking strategies
+   */
+  rules: RedactionRule[];
+}
+
+/**
+ * Read the sanitization options of logs from the environment
+ *
+ * The field and path strategies of LOG_MASKING_STRATEGIES are appended to REDACTION_RULES,
+ * so they override the full mask of the default rules. The same options are used by
+ * Pino's redaction, the error logger and payload logging.
+ *
+ * @param configService Configuration service
+ */
+export function resolveLogSanitizeOptions(configService: ConfigService): LogSanitizeOptions {
+  return {
+    rules: [...REDACTION_RULES, ...parseMaskingRules(configService.get('LOG_MASKING_STRATEGIES'))],
+    pseudonymizationKey: configService.get<string>('LOG_PSEUDONYMIZATION_KEY') || undefined,
+    detectPii: parsePiiDetectionOptions(
+      configService.get('LOG_PII_DETECTORS'),
+      configService.get('LOG_PII_DETECTOR_BUDGET_MS'),
+    ),
+  };
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+
+import { ConfigModule } from '../../config/config.module';
+import { RequestContextModule } from '../context/request-context.module';
+
+import { LogCaptureModule } from './log-capture.module';
+import { LogLevelModule } from './log-level.module';
+import { LogSamplingModule } from './log-sampling.module';
+import { LoggerConfigService } from './logger.config';
+
+/**
+ * Module providing the Pino logger configuration, shared with PinoLoggerModule.forRootAsync
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    RequestContextModule,
+    LogLevelModule,
+    LogSamplingModule,
+    LogCaptureModule,
+  ],
+  providers: [LoggerConfigService],
+  exports: [LoggerConfigService],
+})
+export class LoggerConfigModule {}
@@ -1,21 +1,83 @@
-import { Injectable } from '@nestjs/common';
+import path from 'node:path';
+
+import { Injectable, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Params } from 'nestjs-pino';
-import { LoggerOptions } from 'pino';
+import { levels, LoggerOptions, SerializerFn } from 'pino';
+import { Options as HttpLoggerOptions } from 'pino-http';
 
 import { Environment } from '../../config/env/env.interface';
-import { SENSITIVE_FIELDS } from '../constants/sensitive-fields.constants';
+import { LogTransportConfig } from '../../config/env/log-transports.interface';
+import { parseLogTransports } from '../../config/env/log-transports.validation';
+import { RequestContextService } from '../context/request-context.service';
+import { isPlainObject } from '../utils/object.utils';
+import { PiiDetectionOptions, redactPii } from '../utils/pii-detectors.utils';
+import { createRedactionCensor, toPinoRedactPaths } from '../utils/redaction-rules.utils';
+import { isSanitizedValue } from '../utils/sensitive-data.utils';
+
+import { createLogFormatter } from './formats/log-format.factory';
+import { LogFormatter } from './formats/log-format.interface';
+import { LogCaptureService } from './log-capture.service';
+import { LogLevelService } from './log-level.service';
+import { LogSamplingService } from './log-sampling.service';
+import { LogSanitizeOptions, resolveLogSanitizeOptions } from './log-sanitization';
+import { createTransportTarget, withLevelLabel } from './transports/transport-targets';
 
 /**
- * Header paths that contain sensitive information
+ * Serializer leaving its key out of the line, as Pino skips undefined values
  */
-export const SENSITIVE_HEADERS = [
-  'req.headers.authorization',
-  'req.headers.cookie',
-  'req.headers["x-api-key"]',
-  'req.headers["x-token"]',
-  'res.headers["set-cookie"]',
-];
+function omitSerializedValue(): undefined {
+  return;
+}
+
+/**
+ * Copy the fields of a serialized request or error into an object literal
+ * pino-std-serializers create them with a prototype holding the raw value
+ */
+function toPlainFields(value: unknown): unknown {
+  return value && typeof value === 'object' && !(value instanceof Error) ? { ...value } : value;
+}
+
+/**
+ * Field already sanitized by sanitizeObject, hidden from Pino's redaction and written as is
+ * Its masking strategies, e.g. of @Sensitive() properties, would otherwise be replaced by the censor
+ */
+class SanitizedField {
+  readonly #value: unknown;
+
+  constructor(value: unknown) {
+    this.#value = value;
+  }
+
+  toJSON(): unknown {
+    return this.#value;
+  }
+}
+
+/**
+ * Wrap the sanitized fields of a log call, at the top level and one level down like the redact paths
+ * Only the objects holding a sanitized field are copied
+ */
+function protectSanitizedFields(
+  object: Record<string, unknown>,
+  redact: (value: unknown) => unknown,
+  nested = false,
+): Record<string, unknown> {
+  let protectedFields: Record<string, unknown> | undefined;
+  for (const [key, value] of Object.entries(object)) {
+    let field: unknown = value;
+    if (isSanitizedValue(value)) {
+      field = new SanitizedField(redact(value));
+    } else if (!nested && isPlainObject(value)) {
+      field = protectSanitizedFields(value, redact, true);
+    }
+    if (field !== value) {
+      protectedFields ??= { ...object };
+      protectedFields[key] = field;
+    }
+  }
+  return protectedFields ?? object;
+}
 
 /**
  * Logger configuration service
@@ -23,101 +85,283 @@ export const SENSITIVE_HEADERS = [
  */
 @Injectable()
 export class LoggerConfigService {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() private readonly requestContext?: RequestContextService,
+    @Optional() private readonly logLevels?: LogLevelService,
+    @Optional() private readonly logSampling?: LogSamplingService,
+    @Optional() private readonly logCapture?: LogCaptureService,
+  ) {}
 
   /**
    * Creates the logger configuration
    * @returns Pino logger configuration
    */
   createLoggerOptions(): Params {
-    const nodeEnv = this.configService.get<Environment>('NODE_ENV');
     const logLevel = this.configService.get<string>('LOG_LEVEL');
-    const logFormat = this.configService.get<string>('LOG_FORMAT');
+    const formatter = this.getLogFormatter();
+    const sanitizeOptions = this.getSanitizeOptions();
+    const piiDetection = sanitizeOptions.detectPii;
+    const formatLog = this.createLogFieldsFormatter(formatter, piiDetection);
 
     // Base logger options
     const loggerOptions: LoggerOptions = {
       level: logLevel || 'info',
+      ...this.createLogFilterOptions(),
+      ...(formatter.messageKey && { messageKey: formatter.messageKey }),
+      ...(formatter.timestamp && { timestamp: formatter.timestamp }),
       formatters: {
-        level: (label) => {
-          return { level: label.toUpperCase() };
-        },
+        // Formats with their own level fields keep Pino's numeric level
+        ...(!formatter.levelFields && {
+          level: (label: string) => ({ level: label.toUpperCase() }),
+        }),
+        ...(formatter.bindings && { bindings: formatter.bindings }),
+        log: formatLog,
       },
+      serializers: this.createSerializers(formatter, piiDetection),
       redact: {
-        paths: [
-          // Authentication related
-          ...SENSITIVE_HEADERS,
-
-          // Common credential patterns
-          ...SENSITIVE_FIELDS,
+        // Sensitive headers, and credential fields at the top level, one level down and in the request body
+        paths: toPinoRedactPaths(sanitizeOptions.rules),
+        censor: this.createCensor(sanitizeOptions),
+      },
+      // Add the level fields of the output format and the active span to every log line
+      mixin: (_object, level) => ({
+        ...formatter.levelFields?.(levels.labels[level]),
+        ...this.getTraceFields(),
+      }),
+    };
 
-          // Nested credentials with wildcards
-          ...SENSITIVE_FIELDS.map((field) => `*.${field}`),
+    // Keep every written line in the log capture, after redaction and formatting
+    const { logCapture } = this;
+    if (logCapture?.isEnabled()) {
+      loggerOptions.hooks = {
+        ...loggerOptions.hooks,
+        streamWrite: (line): string => {
+          logCapture.capture(line);
+          return line;
+        },
+      };
+    }
 
-          // Request body may contain sensitive information
-          ...SENSITIVE_FIELDS.map((field) => `req.body.${field}`),
-        ],
-        // Use censor method instead of remove
-        censor: '[REDACTED]',
+    return {
+      pinoHttp: {
+        ...this.applyTransports(loggerOptions, this.getTransportConfigs()),
+        ...this.createRequestOptions(formatter, piiDetection),
       },
     };
+  }
+
+  /**
+   * Get the output format selected by LOG_FORMAT
+   * ecs and gcp remap the standard fields; dev, json and other values keep Pino's JSON shape
+   */
+  getLogFormatter(): LogFormatter {
+    return createLogFormatter(this.configService.get<string>('LOG_FORMAT'), {
+      serviceName: this.configService.get<string>('APP_NAME'),
+      gcpProjectId: this.configService.get<string>('LOG_GCP_PROJECT_ID'),
+    });
+  }
+
+  /**
+   * Get the redaction rules, masking strategies and value detectors of log lines
+   */
+  getSanitizeOptions(): LogSanitizeOptions {
+    return resolveLogSanitizeOptions(this.configService);
+  }
+
+  /**
+   * Get the configured log transports
+   * Without LOG_TRANSPORTS, development with LOG_FORMAT=dev pretty-prints to stdout,
+   * production writes JSON to stdout and to rotating files, and other environments
+   * write JSON to stdout
+   */
+  getTransportConfigs(): LogTransportConfig[] {
+    const configured = parseLogTransports(this.configService.get<string>('LOG_TRANSPORTS'));
+    if (configured.length > 0) {
+      return configured;
+    }
+
+    const nodeEnv = this.configService.get<Environment>('NODE_ENV');
+    const logFormat = this.configService.get<string>('LOG_FORMAT');
 
-    // Dev-specific configuration with pretty printing
     if (nodeEnv !== Environment.Production && logFormat === 'dev') {
-      return {
-        pinoHttp: {
-          ...loggerOptions,
-          transport: {
-            target: 'pino-pretty',
-            options: {
-              colorize: true,
-              levelFirst: true,
-              translateTime: 'yyyy-mm-dd HH:MM:ss.l',
-              singleLine: false,
-              messageFormat: '{correlationId} {req.method} {req.url} {msg}',
-              errorLikeObjectKeys: ['err', 'error'],
-              ignore: 'pid,hostname',
-            },
-          },
-        },
-      };
+      return [{ type: 'stdout', pretty: true }];
     }
 
-    // Production-specific configuration with JSON formatting and log rotation
     if (nodeEnv === Environment.Production) {
       const logDir = this.configService.get<string>('LOG_DIR', 'logs');
       const logFilePrefix = this.configService.get<string>('LOG_FILE_PREFIX', 'app');
 
-      return {
-        pinoHttp: {
-          ...loggerOptions,
-          transport: {
-            target: 'pino-roll',
-            options: {
-              // Log file path and naming pattern
-              file: `${logDir}/${logFilePrefix}-%Y-%m-%d-%H-%M.log`,
+      return [
+        { type: 'stdout' },
+        {
+          type: 'file',
+          path: path.join(logDir, logFilePrefix),
+          size: '10m',
+          count: 7,
+          compress: true,
+        },
+      ];
+    }
 
-              // Size-based rotation (when file reaches 10 MB)
-              size: '10m',
+    return [{ type: 'stdout' }];
+  }
 
-              // Keep 7 days of logs
-              maxFiles: 7,
+  /**
+   * Apply log transports to the logger options
+   *
+   * Plain JSON on stdout is written on the main thread. Other transports run in a
+   * Pino worker thread; the logger level is lowered to the most verbose target
+   * level so that every target receives its lines.
+   */
+  private applyTransports(
+    loggerOptions: LoggerOptions,
+    transports: LogTransportConfig[],
+  ): LoggerOptions {
+    // With runtime log levels the logMethod hook filters lines, so targets accept all levels
+    const defaultLevel = this.logLevels?.isEnabled() ? 'trace' : (loggerOptions.level ?? 'info');
+    const appName = this.configService.get<string>('APP_NAME');
+    const targets = transports.map((transport) =>
+      createTransportTarget(transport, transport.level ?? defaultLevel, appName),
+    );
+    const level =
+      levels.labels[
+        Math.min(...targets.map((target) => levels.values[target.level ?? defaultLevel]))
+      ];
 
-              // Use gzip compression for rotated logs
-              compress: 'gzip',
+    const [transport] = transports;
+    if (transports.length === 1 && transport.type === 'stdout' && !transport.pretty) {
+      return { ...loggerOptions, level };
+    }
 
-              // Create the log directory if it doesn't exist
-              mkdir: true,
-            },
-          },
-        },
-      };
+    if (targets.length === 1) {
+      const [{ target, options }] = targets;
+      return { ...loggerOptions, level, transport: { target, options } };
     }
 
-    // Default configuration with JSON formatting (no rotation)
+    // Targets are selected by numeric level in the worker, which rules out a custom level formatter,
+    // so each target formats the level label itself
+    const { level: formatLevel, ...formatters } = loggerOptions.formatters ?? {};
     return {
-      pinoHttp: {
-        ...loggerOptions,
-        // No transport configuration - outputs plain JSON
+      ...loggerOptions,
+      level,
+      formatters,
+      transport: {
+        targets: formatLevel ? targets.map((target) => withLevelLabel(target)) : targets,
+      },
+    };
+  }
+
+  /**
+   * Create the formatter of the fields of a log call
+   * Fields sanitized by sanitizeObject are kept from the censor, see SanitizedField.
+   * Detected values are masked in the strings of the fields before the output format remaps them;
+   * serialized errors and requests are scanned by their serializers
+   */
+  private createLogFieldsFormatter(
+    formatter: LogFormatter,
+    piiDetection?: PiiDetectionOptions,
+  ): NonNullable<LogFormatter['log']> {
+    const { log } = formatter;
+    const redact = (value: unknown): unknown =>
+      piiDetection ? redactPii(value, piiDetection) : value;
+
+    return (object) => {
+      const redacted = redact(protectSanitizedFields(object, redact)) as Record<string, unknown>;
+      return log ? log(redacted) : redacted;
+    };
+  }
+
+  /**
+   * Create the censor of the redact paths
+   * Values are masked with the strategy of the matching rule instead of removed,
+   * sanitized fields are left as they are
+   */
+  private createCensor(
+    sanitizeOptions: LogSanitizeOptions,
+  ): (value: unknown, path: string[]) => unknown {
+    const censor = createRedactionCensor(sanitizeOptions.rules, {
+      mask: '[REDACTED]',
+      pseudonymizationKey: sanitizeOptions.pseudonymizationKey,
+    });
+    return (value, path) => (value instanceof SanitizedField ? value : censor(value, path));
+  }
+
+  /**
+   * Create the serializers masking detected values in the message, errors and requests
+   * Formats binding their own request fields leave the serialized request out
+   */
+  private createSerializers(
+    formatter: LogFormatter,
+    piiDetection?: PiiDetectionOptions,
+  ): Record<string, SerializerFn> {
+    const serializers: Record<string, SerializerFn> = {};
+    if (piiDetection) {
+      const redact = (value: unknown): unknown => redactPii(toPlainFields(value), piiDetection);
+      serializers[formatter.messageKey ?? 'msg'] = redact;
+      serializers.err = redact;
+      serializers.req = redact;
+    }
+    if (formatter.requestFields) {
+      serializers.req = omitSerializedValue;
+    }
+    return serializers;
+  }
+
+  /**
+   * Bind the request fields of the output format in place of the serialized request
+   * pino-http binds the request to a child logger, which Pino's bindings formatter skips
+   */
+  private createRequestOptions(
+    formatter: LogFormatter,
+    piiDetection?: PiiDetectionOptions,
+  ): HttpLoggerOptions {
+    const { requestFields } = formatter;
+    if (!requestFields) {
+      return {};
+    }
+
+    return {
+      customProps: (req) =>
+        piiDetection ? redactPii(requestFields(req), piiDetection) : requestFields(req),
+    };
+  }
+
+  /**
+   * Get the trace_id and span_id of the active span, if any
+   */
+  private getTraceFields(): Record<string, string> {
+    const traceContext = this.requestContext?.getTraceContext();
+    return traceContext ? { trace_id: traceContext.traceId, span_id: traceContext.spanId } : {};
+  }
+
+  /**
+   * Create the options filtering log calls by runtime log levels and sampling, when enabled
+   *
+   * With runtime log levels Pino is created with the most verbose level and every call
+   * is filtered by LogLevelService, so level changes apply to all existing loggers
+   * immediately. Calls passing the levels are then sampled and rate limited by
+   * LogSamplingService.
+   */
+  private createLogFilterOptions(): Pick<LoggerOptions, 'level' | 'hooks'> {
+    const logLevels = this.logLevels?.isEnabled() ? this.logLevels : undefined;
+    const logSampling = this.logSampling?.isEnabled() ? this.logSampling : undefined;
+    if (!logLevels && !logSampling) {
+      return {};
+    }
+
+    return {
+      ...(logLevels && { level: 'trace' }),
+      hooks: {
+        logMethod(args, method, level): void {
+          if (logLevels && !logLevels.shouldLog(level, args[0])) {
+            return;
+          }
+          if (logSampling && !logSampling.shouldLog(level, args)) {
+            return;
+          }
+          method.apply(this, args);
+        },
       },
     };
   }
@@ -1,33 +1,61 @@
 import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { LoggerModule as PinoLoggerModule } from 'nestjs-pino';
 
 import { ConfigModule } from '../../config/config.module';
+import { RequestContextMiddleware } from '../context/request-context.middleware';
+import { RequestContextModule } from '../context/request-context.module';
 
 import { CorrelationIdMiddleware } from './correlation-id.middleware';
+import { LogCaptureController } from './log-capture.controller';
+import { LogCaptureModule } from './log-capture.module';
+import { LogLevelController } from './log-level.controller';
+import { LogLevelModule } from './log-level.module';
+import { LogSamplingModule } from './log-sampling.module';
+import { LoggerConfigModule } from './logger-config.module';
 import { LoggerConfigService } from './logger.config';
 import { CustomLoggerService } from './logger.service';
+import { MethodTimingService } from './method-timing.service';
+import { PayloadLoggingInterceptor } from './payload-logging.interceptor';
 
 /**
- * Logger module that provides a configured Pino logger and correlation ID middleware
+ * Logger module that provides a configured Pino logger, correlation ID and request context middleware,
+ * the opt-in request/response payload logging interceptor and the development log capture
  */
 @Module({
   imports: [
     ConfigModule,
+    RequestContextModule,
+    LogLevelModule,
+    LogSamplingModule,
+    LogCaptureModule,
     PinoLoggerModule.forRootAsync({
-      inject: [ConfigService],
-      useFactory: (configService: ConfigService) => {
-        const loggerConfigService = new LoggerConfigService(configService);
-        return loggerConfigService.createLoggerOptions();
-      },
+      imports: [LoggerConfigModule],
+      inject: [LoggerConfigService],
+      useFactory: (loggerConfigService: LoggerConfigService) =>
+        loggerConfigService.createLoggerOptions(),
     }),
   ],
-  providers: [LoggerConfigService, CustomLoggerService],
-  exports: [PinoLoggerModule, CustomLoggerService],
+  controllers: [LogLevelController, LogCaptureController],
+  providers: [
+    CustomLoggerService,
+    MethodTimingService,
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: PayloadLoggingInterceptor,
+    },
+  ],
+  exports: [
+    PinoLoggerModule,
+    CustomLoggerService,
+    MethodTimingService,
+    LogLevelModule,
+    LogCaptureModule,
+  ],
 })
 export class LoggerModule implements NestModule {
   configure(consumer: MiddlewareConsumer): void {
-    // Apply the correlation ID middleware to all routes
-    consumer.apply(CorrelationIdMiddleware).forRoutes('*');
+    // Apply the correlation ID middleware to all routes, then run the request in its own context
+    consumer.apply(CorrelationIdMiddleware, RequestContextMiddleware).forRoutes('*');
   }
 }
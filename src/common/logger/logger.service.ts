@@ -1,22 +1,38 @@
-import { Inject, Injectable, LoggerService, Scope } from '@nestjs/common';
-import { REQUEST } from '@nestjs/core';
-import { Request } from 'express';
+import { Injectable, LoggerService, Optional } from '@nestjs/common';
 import { PinoLogger } from 'nestjs-pino';
+import { Level, levels } from 'pino';
+
+import { RequestContextService } from '../context/request-context.service';
+
+import { LogLevelService } from './log-level.service';
 
 /**
  * Custom logger service that extends Pino logger
  * Adds helper methods and request context awareness
+ *
+ * The service is a singleton: correlation ID, user, tenant and bindings are read
+ * from the request context of the current execution when a message is logged
  */
-@Injectable({ scope: Scope.TRANSIENT })
+@Injectable()
 export class CustomLoggerService implements LoggerService {
   constructor(
     private readonly pinoLogger: PinoLogger,
-    @Inject(REQUEST) private readonly request?: Request & { correlationId?: string },
-  ) {
-    // If a request is available, add correlation ID to logger context
-    if (this.request?.correlationId) {
-      this.pinoLogger.setContext('request');
+    private readonly requestContext: RequestContextService,
+    @Optional() private readonly logLevels?: LogLevelService,
+  ) {}
+
+  /**
+   * Check whether messages of a level are logged, e.g. before building costly log fields
+   * @param level Level of the messages
+   * @param context Log context, whose runtime level applies when runtime levels are enabled
+   */
+  isLevelEnabled(level: Level, context?: string): boolean {
+    if (!this.pinoLogger.logger.isLevelEnabled(level)) {
+      return false;
     }
+    return (
+      !this.logLevels?.isEnabled() || this.logLevels.shouldLog(levels.values[level], { context })
+    );
   }
 
   /**
@@ -24,7 +40,7 @@ export class CustomLoggerService implements LoggerService {
    */
   log(message: string, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
     this.pinoLogger.info(correlationContext, message);
   }
 
@@ -33,7 +49,7 @@ export class CustomLoggerService implements LoggerService {
    */
   error(message: string | Error, trace?: string, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
 
     if (message instanceof Error) {
       this.pinoLogger.error({ err: message, trace, ...correlationContext }, message.message);
@@ -47,7 +63,7 @@ export class CustomLoggerService implements LoggerService {
    */
   warn(message: string, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
     this.pinoLogger.warn(correlationContext, message);
   }
 
@@ -56,7 +72,7 @@ export class CustomLoggerService implements LoggerService {
    */
   debug(message: string, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
     this.pinoLogger.debug(correlationContext, message);
   }
 
@@ -66,7 +82,7 @@ export class CustomLoggerService implements LoggerService {
    */
   trace(message: string, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
     this.pinoLogger.trace(correlationContext, message);
   }
 
@@ -76,7 +92,7 @@ export class CustomLoggerService implements LoggerService {
    */
   fatal(message: string | Error, ...optionalParams: unknown[]): void {
     const context = this.getContext(optionalParams);
-    const correlationContext = this.addCorrelationId(context);
+    const correlationContext = this.addRequestContext(context);
 
     if (message instanceof Error) {
       this.pinoLogger.fatal({ err: message, ...correlationContext }, message.message);
@@ -103,15 +119,10 @@ export class CustomLoggerService implements LoggerService {
   }
 
   /**
-   * Add correlation ID to the context if available
+   * Add the current request context (correlation ID, user, tenant, bindings)
+   * Values passed explicitly in the log context take precedence
    */
-  private addCorrelationId(context: Record<string, unknown>): Record<string, unknown> {
-    if (this.request?.correlationId) {
-      return {
-        ...context,
-        correlationId: this.request.correlationId,
-      };
-    }
-    return context;
+  private addRequestContext(context: Record<string, unknown>): Record<string, unknown> {
+    return { ...this.requestContext.getLogContext(), ...context };
   }
 }
@@ -0,0 +1,137 @@
+import { performance } from 'node:perf_hooks';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { sanitizeObject } from '../utils/sensitive-data.utils';
+
+import { LogSanitizeOptions, resolveLogSanitizeOptions } from './log-sanitization';
+import { CustomLoggerService } from './logger.service';
+
+/**
+ * Default duration above which a call is logged as slow
+ */
+const DEFAULT_SLOW_CALL_THRESHOLD_MS = 1000;
+
+/**
+ * A timed method call
+ */
+export interface TimedCall {
+  /**
+   * Class of the method, used as the log context
+   */
+  className: string;
+
+  /**
+   * Name of the method
+   */
+  methodName: string;
+
+  /**
+   * Arguments of the call; omitted from logs when undefined
+   */
+  args?: unknown[];
+
+  /**
+   * Duration above which the call is logged as slow, overriding LOG_SLOW_CALL_THRESHOLD_MS
+   */
+  slowThresholdMs?: number;
+}
+
+/**
+ * Measures method calls for `@Timed()`
+ *
+ * Logs entry and exit of each call at trace level, and a warning for calls taking
+ * longer than the slow call threshold. Promises are measured until they settle.
+ */
+@Injectable()
+export class MethodTimingService {
+  private readonly slowThresholdMs: number;
+  private readonly sanitizeOptions: LogSanitizeOptions;
+
+  constructor(
+    configService: ConfigService,
+    private readonly logger: CustomLoggerService,
+  ) {
+    this.slowThresholdMs =
+      Number(configService.get('LOG_SLOW_CALL_THRESHOLD_MS')) || DEFAULT_SLOW_CALL_THRESHOLD_MS;
+    this.sanitizeOptions = resolveLogSanitizeOptions(configService);
+  }
+
+  /**
+   * Run a method call, logging its entry, exit and duration
+   * @param call The call being made
+   * @param method Invokes the method
+   * @returns The method's result; errors are logged and rethrown
+   */
+  measure<T>(call: TimedCall, method: () => T): T {
+    // Arguments are only sanitized when the entry is logged
+    const traced = this.logger.isLevelEnabled('trace', call.className);
+    const start = performance.now();
+    if (traced) {
+      this.logger.trace(`Entering ${call.className}.${call.methodName}`, {
+        context: call.className,
+        method: call.methodName,
+        ...(call.args && { args: sanitizeObject(call.args, this.sanitizeOptions) }),
+      });
+    }
+
+    let result: T;
+    try {
+      result = method();
+    } catch (error) {
+      this.complete(call, start, traced, { error });
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (value: unknown) => {
+          this.complete(call, start, traced);
+          return value;
+        },
+        (error: unknown) => {
+          this.complete(call, start, traced, { error });
+          throw error;
+        },
+      ) as T;
+    }
+
+    this.complete(call, start, traced);
+    return result;
+  }
+
+  private complete(
+    call: TimedCall,
+    start: number,
+    traced: boolean,
+    failure?: { error: unknown },
+  ): void {
+    const durationMs = Math.round((performance.now() - start) * 1000) / 1000;
+    const name = `${call.className}.${call.methodName}`;
+    const details = {
+      context: call.className,
+      method: call.methodName,
+      durationMs,
+      ...(failure && {
+        error: failure.error instanceof Error ? failure.error.message : String(failure.error),
+      }),
+    };
+
+    if (traced) {
+      this.logger.trace(
+        `${failure ? 'Failed' : 'Exiting'} ${name} after ${durationMs} ms`,
+        details,
+      );
+    }
+
+    const slowThresholdMs = call.slowThresholdMs ?? this.slowThresholdMs;
+    if (durationMs > slowThresholdMs) {
+      this.logger.warn(`Slow call ${name} took ${durationMs} ms`, {
+        ...details,
+        logKey: 'method.slow',
+        slowThresholdMs,
+      });
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { randomInt } from 'node:crypto';
+
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  SetMetadata,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { Observable, tap } from 'rxjs';
+
+import { matchesGlob } from '../utils/glob.utils';
+import { sanitizeObject, SanitizeOptions } from '../utils/sensitive-data.utils';
+import { getBoundSensitiveType } from '../utils/sensitive.decorator';
+
+import { LogSanitizeOptions, resolveLogSanitizeOptions } from './log-sanitization';
+import { LoggedPayload, PayloadLoggingOptions } from './payload-logging.interface';
+
+/**
+ * Default maximum length of a serialized body
+ */
+const DEFAULT_MAX_BODY_LENGTH = 4096;
+
+/**
+ * Media types logged by default
+ */
+const DEFAULT_CONTENT_TYPES = [
+  'application/json',
+  'application/*+json',
+  'application/x-www-form-urlencoded',
+  'text/*',
+];
+
+/**
+ * Routes never logged by default, as their payloads carry credentials
+ */
+const DEFAULT_EXCLUDE_ROUTES = ['*/login', '*/auth/*'];
+
+/**
+ * Resolution of sampling decisions
+ */
+const SAMPLE_RANGE = 2 ** 32;
+
+/**
+ * Metadata key for per-route payload logging options
+ */
+export const PAYLOAD_LOGGING_KEY = 'logger:payload-logging';
+
+/**
+ * Split a comma-separated list, ignoring empty items
+ */
+function parseList(value: unknown, defaults: string[]): string[] {
+  if (typeof value !== 'string' || !value.trim()) {
+    return defaults;
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read the global payload logging options from the environment
+ * @param configService Configuration service
+ */
+export function resolvePayloadLoggingOptions(configService: ConfigService): PayloadLoggingOptions {
+  const sampleRate = Number(configService.get('LOG_PAYLOADS_SAMPLE_RATE') ?? 1);
+
+  return {
+    enabled: String(configService.get('LOG_PAYLOADS_ENABLED')) === 'true',
+    maxBodyLength:
+      Number(configService.get('LOG_PAYLOADS_MAX_BODY_LENGTH')) || DEFAULT_MAX_BODY_LENGTH,
+    contentTypes: parseList(configService.get('LOG_PAYLOADS_CONTENT_TYPES'), DEFAULT_CONTENT_TYPES),
+    sampleRate: Number.isNaN(sampleRate) ? 1 : sampleRate,
+    excludeRoutes: parseList(
+      configService.get('LOG_PAYLOADS_EXCLUDE_ROUTES'),
+      DEFAULT_EXCLUDE_ROUTES,
+    ),
+  };
+}
+
+/**
+ * Get the media type of a Content-Type header, without parameters
+ */
+function getMediaType(contentType: unknown): string | undefined {
+  if (typeof contentType !== 'string') {
+    return undefined;
+  }
+  return contentType.split(';')[0].trim().toLowerCase() || undefined;
+}
+
+/**
+ * Sanitize a body and truncate its serialization to the maximum length
+ * @param sanitizeOptions Redaction rules and masking strategies, defaults to REDACTION_RULES
+ * @returns The payload to log, or undefined for empty bodies and excluded media types
+ */
+export function formatPayload(
+  body: unknown,
+  contentType: string | undefined,
+  options: Pick<PayloadLoggingOptions, 'contentTypes' | 'maxBodyLength'>,
+  sanitizeOptions?: SanitizeOptions,
+): LoggedPayload | undefined {
+  if (body === undefined || body === null || body === '') {
+    return undefined;
+  }
+  if (typeof body === 'object' && Object.keys(body).length === 0) {
+    return undefined;
+  }
+  if (!contentType || !options.contentTypes.some((pattern) => matchesGlob(contentType, pattern))) {
+    return undefined;
+  }
+
+  const sanitized = sanitizeObject(body, sanitizeOptions);
+  let serialized: string;
+  try {
+    serialized = typeof sanitized === 'string' ? sanitized : JSON.stringify(sanitized);
+  } catch {
+    return { contentType, body: '[Unserializable body]' };
+  }
+
+  if (serialized.length <= options.maxBodyLength) {
+    return { contentType, body: sanitized };
+  }
+  return {
+    contentType,
+    body: serialized.slice(0, options.maxBodyLength),
+    size: serialized.length,
+    truncated: true,
+  };
+}
+
+/**
+ * Enable, disable or configure payload logging for a controller or handler
+ * Options are merged over the global LOG_PAYLOADS_* configuration
+ *
+ * @example
+ * ```typescript
+ * @Post('webhooks/stripe')
+ * @LogPayloads({ maxBodyLength: 16_384 })
+ * handleWebhook(@Body() event: StripeEvent) {}
+ *
+ * @Post('password')
+ * @LogPayloads({ enabled: false })
+ * changePassword(@Body() dto: ChangePasswordDto) {}
+ * ```
+ *
+ * @param options Payload logging options for the route, enabled unless stated otherwise
+ */
+export function LogPayloads(
+  options: Partial<PayloadLoggingOptions> = {},
+): MethodDecorator & ClassDecorator {
+  return SetMetadata(PAYLOAD_LOGGING_KEY, { enabled: true, ...options });
+}
+
+/**
+ * Interceptor logging sanitized request and response bodies once a response is sent
+ *
+ * Opt-in, either globally with LOG_PAYLOADS_ENABLED or per route with `@LogPayloads()`.
+ * Bodies are logged for allowed media types only, truncated to a maximum length and
+ * sampled per request; excluded routes are never logged.
+ */
+@Injectable()
+export class PayloadLoggingInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(PayloadLoggingInterceptor.name);
+  private readonly options: PayloadLoggingOptions;
+  private readonly sanitizeOptions: LogSanitizeOptions;
+
+  constructor(
+    configService: ConfigService,
+    private readonly reflector: Reflector,
+  ) {
+    this.options = resolvePayloadLoggingOptions(configService);
+    this.sanitizeOptions = resolveLogSanitizeOptions(configService);
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const options = this.getOptions(context);
+    if (!this.shouldLog(request, options)) {
+      return next.handle();
+    }
+
+    const response = context.switchToHttp().getResponse<Response>();
+    let responseBody: unknown;
+    response.once('finish', () => this.log(request, response, responseBody, options));
+
+    return next.handle().pipe(
+      tap((body) => {
+        responseBody = body;
+      }),
+    );
+  }
+
+  private getOptions(context: ExecutionContext): PayloadLoggingOptions {
+    const routeOptions = this.reflector.getAllAndOverride<
+      Partial<PayloadLoggingOptions> | undefined
+    >(PAYLOAD_LOGGING_KEY, [context.getHandler(), context.getClass()]);
+    return { ...this.options, ...routeOptions };
+  }
+
+  private shouldLog(request: Request, options: PayloadLoggingOptions): boolean {
+    if (!options.enabled) {
+      return false;
+    }
+    if (options.excludeRoutes.some((pattern) => matchesGlob(request.path, pattern))) {
+      return false;
+    }
+    if (options.sampleRate >= 1 || options.sampleRate <= 0) {
+      return options.sampleRate >= 1;
+    }
+    return randomInt(SAMPLE_RANGE) / SAMPLE_RANGE < options.sampleRate;
+  }
+
+  private log(
+    request: Request,
+    response: Response,
+    responseBody: unknown,
+    options: PayloadLoggingOptions,
+  ): void {
+    // Handlers returning a value are sent as JSON unless they set another Content-Type
+    const responseContentType =
+      getMediaType(response.getHeader('content-type')) ??
+      (typeof responseBody === 'object' ? 'application/json' : 'text/html');
+
+    this.logger.log({
+      msg: `${request.method} ${request.path} payload`,
+      logKey: 'http.payload',
+      request: formatPayload(
+        request.body,
+        getMediaType(request.headers['content-type']),
+        options,
+        // Validated bodies are masked by the @Sensitive() properties of their DTO
+        { ...this.sanitizeOptions, type: getBoundSensitiveType(request.body) },
+      ),
+      response: {
+        statusCode: response.statusCode,
+        ...formatPayload(responseBody, responseContentType, options, this.sanitizeOptions),
+      },
+    });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Options for logging request and response payloads
+ */
+export interface PayloadLoggingOptions {
+  /**
+   * Whether payloads are logged
+   */
+  enabled: boolean;
+
+  /**
+   * Maximum length of a serialized body; longer bodies are truncated
+   */
+  maxBodyLength: number;
+
+  /**
+   * Media types whose bodies are logged, e.g. application/json or text/*
+   */
+  contentTypes: string[];
+
+  /**
+   * Fraction of requests whose payloads are logged, between 0 and 1
+   */
+  sampleRate: number;
+
+  /**
+   * Request path patterns whose payloads are never logged, e.g. login routes
+   */
+  excludeRoutes: string[];
+}
+
+/**
+ * Logged body of a request or response
+ */
+export interface LoggedPayload {
+  /**
+   * Media type of the body
+   */
+  contentType?: string;
+
+  /**
+   * Sanitized body, or the beginning of its serialization when truncated
+   */
+  body?: unknown;
+
+  /**
+   * Length of the serialized body
+   */
+  size?: number;
+
+  /**
+   * Set when the body exceeded the maximum length
+   */
+  truncated?: true;
+}
@@ -0,0 +1,145 @@
+import { Inject, Optional } from '@nestjs/common';
+
+import { MethodTimingService } from './method-timing.service';
+
+/**
+ * Options of a timed method or class
+ */
+export interface TimedOptions {
+  /**
+   * Duration above which a call is logged as slow, overriding LOG_SLOW_CALL_THRESHOLD_MS
+   */
+  slowThresholdMs?: number;
+
+  /**
+   * Whether the sanitized arguments are logged on entry, defaults to true
+   */
+  logArgs?: boolean;
+}
+
+/**
+ * Property holding the injected MethodTimingService on timed instances
+ */
+const METHOD_TIMING_SERVICE = Symbol('MethodTimingService');
+
+/**
+ * Marks methods already wrapped by `@Timed()`
+ */
+const TIMED_METHOD = Symbol('TimedMethod');
+
+type AnyMethod = ((...args: unknown[]) => unknown) & { [TIMED_METHOD]?: true };
+
+type TimedInstance = { [METHOD_TIMING_SERVICE]?: MethodTimingService };
+
+/**
+ * Prototypes on which MethodTimingService injection is registered
+ */
+const injectedPrototypes = new WeakSet<object>();
+
+/**
+ * Register optional property injection of MethodTimingService, once per prototype
+ */
+function injectTimingService(prototype: object): void {
+  if (injectedPrototypes.has(prototype)) {
+    return;
+  }
+  Optional()(prototype, METHOD_TIMING_SERVICE);
+  Inject(MethodTimingService)(prototype, METHOD_TIMING_SERVICE);
+  injectedPrototypes.add(prototype);
+}
+
+/**
+ * Wrap a method so that its calls are measured
+ * The wrapper keeps the method's name and metadata, e.g. route decorators applied before
+ */
+function wrapMethod(
+  prototype: object,
+  methodName: string,
+  method: AnyMethod,
+  options: TimedOptions,
+): AnyMethod {
+  const className = prototype.constructor.name;
+  const timed: AnyMethod = function (this: TimedInstance, ...args: unknown[]): unknown {
+    const timing = this[METHOD_TIMING_SERVICE];
+    if (!timing) {
+      return method.apply(this, args);
+    }
+    return timing.measure(
+      {
+        className,
+        methodName,
+        args: options.logArgs === false ? undefined : args,
+        slowThresholdMs: options.slowThresholdMs,
+      },
+      () => method.apply(this, args),
+    );
+  };
+
+  Object.defineProperty(timed, 'name', { value: method.name });
+  for (const key of Reflect.getMetadataKeys(method)) {
+    Reflect.defineMetadata(key, Reflect.getMetadata(key, method), timed);
+  }
+  timed[TIMED_METHOD] = true;
+  injectTimingService(prototype);
+  return timed;
+}
+
+/**
+ * Time every call of a method, or of every method of a class
+ *
+ * Entry (with sanitized arguments) and exit (with the duration) are logged at trace
+ * level through CustomLoggerService, with the class as context and the correlation ID
+ * of the current request. Calls taking longer than LOG_SLOW_CALL_THRESHOLD_MS are
+ * logged as warnings. Async methods are measured until their promise settles, and
+ * thrown or rejected errors are logged and rethrown unchanged.
+ *
+ * The class must be created by Nest in a module importing LoggerModule; otherwise
+ * calls run untimed. On a class, options of method-level decorators take precedence.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * @Timed()
+ * export class UsersService {
+ *   @Timed({ slowThresholdMs: 200, logArgs: false })
+ *   async importUsers(file: Buffer): Promise<void> {}
+ * }
+ * ```
+ *
+ * @param options Timing options
+ */
+export function Timed(options: TimedOptions = {}): ClassDecorator & MethodDecorator {
+  return ((
+    target: object,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor,
+  ): PropertyDescriptor | void => {
+    if (descriptor) {
+      descriptor.value = wrapMethod(
+        target,
+        String(propertyKey),
+        descriptor.value as AnyMethod,
+        options,
+      );
+      return descriptor;
+    }
+
+    const prototype = (target as { prototype: object }).prototype;
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      const methodDescriptor = Object.getOwnPropertyDescriptor(prototype, name);
+      const method = methodDescriptor?.value as AnyMethod | undefined;
+      if (name === 'constructor' || typeof method !== 'function' || method[TIMED_METHOD]) {
+        continue;
+      }
+      Object.defineProperty(prototype, name, {
+        ...methodDescriptor,
+        value: wrapMethod(prototype, name, method, options),
+      });
+    }
+  }) as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Alias of `@Timed()` for tracing method calls in logs
+ */
+export const Trace = Timed;
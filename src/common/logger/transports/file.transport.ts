@@ -0,0 +1,149 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { readdir, stat, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+
+import pinoRoll, { RollingFileDestination } from 'pino-roll';
+
+import { reportTransportError } from './transport.utils';
+
+/**
+ * Options for the rotating file transport
+ */
+export interface FileTransportOptions {
+  /**
+   * Base path of the log files; the rotation number and .log are appended
+   */
+  file: string;
+
+  /**
+   * Maximum file size before rotating, e.g. 10m
+   */
+  size?: string;
+
+  /**
+   * Additional time-based rotation
+   */
+  frequency?: 'daily' | 'hourly';
+
+  /**
+   * Number of rotated files kept
+   */
+  count?: number;
+
+  /**
+   * Whether rotated files are compressed with gzip
+   */
+  compress?: boolean;
+}
+
+const DEFAULT_FILE_SIZE = '10m';
+const DEFAULT_FILE_COUNT = 7;
+
+/**
+ * Compress a file with gzip and remove the original
+ * @param file Path of the file
+ * @returns Path of the compressed file
+ */
+export async function compressFile(file: string): Promise<string> {
+  const archive = `${file}.gz`;
+  await pipeline(createReadStream(file), createGzip(), createWriteStream(archive));
+  await unlink(file);
+  return archive;
+}
+
+/**
+ * List the archives of rotated files left by earlier runs, oldest first
+ * @param file Base path of the log files
+ * @returns Paths of the archives
+ */
+export async function listArchives(file: string): Promise<string[]> {
+  const directory = path.dirname(file);
+  const prefix = `${path.basename(file)}.`;
+  const names = await readdir(directory);
+  const archives = await Promise.all(
+    names
+      .filter((name) => name.startsWith(prefix) && name.endsWith('.log.gz'))
+      .map(async (name) => {
+        const archive = path.join(directory, name);
+        const { mtimeMs } = await stat(archive);
+        return { archive, mtimeMs };
+      }),
+  );
+  return archives.toSorted((a, b) => a.mtimeMs - b.mtimeMs).map(({ archive }) => archive);
+}
+
+/**
+ * Compress files once the destination has rotated away from them,
+ * keeping the most recent archives only, including those of earlier runs
+ */
+function compressRotatedFiles(
+  destination: RollingFileDestination,
+  file: string,
+  count: number,
+): void {
+  let archives: string[] = [];
+  let currentFile = destination.file;
+  let compressing = listArchives(file)
+    .then((existing) => {
+      archives = existing;
+    })
+    .catch((error: unknown) => {
+      reportTransportError('file', `Failed to list the archives of ${file}`, error);
+    });
+
+  // The destination emits ready whenever it has opened a file, first on startup
+  destination.on('ready', () => {
+    const rotatedFile = currentFile;
+    currentFile = destination.file;
+    if (!rotatedFile || rotatedFile === currentFile) {
+      return;
+    }
+
+    compressing = compressing
+      .then(async () => {
+        const archive = await compressFile(rotatedFile);
+        // After a restart file numbers start over, replacing archives of the same name
+        archives = [...archives.filter((existing) => existing !== archive), archive];
+        const expired = archives.splice(0, Math.max(0, archives.length - count));
+        await Promise.allSettled(expired.map((archive) => unlink(archive)));
+      })
+      .catch((error: unknown) => {
+        reportTransportError('file', `Failed to compress ${rotatedFile}`, error);
+      });
+  });
+}
+
+/**
+ * Pino transport writing to rotating log files
+ *
+ * Rotation is handled by pino-roll, which names files {file}.{number}.log.
+ * With compression enabled, rotated files are gzipped in the background.
+ *
+ * @param options Transport options
+ * @returns Destination stream
+ */
+export async function fileTransport(
+  options: FileTransportOptions,
+): Promise<RollingFileDestination> {
+  const count = options.count ?? DEFAULT_FILE_COUNT;
+  const destination = await pinoRoll({
+    file: options.file,
+    size: options.size ?? DEFAULT_FILE_SIZE,
+    frequency: options.frequency,
+    extension: '.log',
+    mkdir: true,
+    // pino-roll only removes the uncompressed files it created
+    limit: options.compress ? undefined : { count },
+  });
+
+  if (options.compress) {
+    compressRotatedFiles(destination, options.file, count);
+  }
+
+  return destination;
+}
+
+// Pino loads transports by module path and calls the default export
+export default fileTransport;
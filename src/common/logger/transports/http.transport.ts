@@ -0,0 +1,189 @@
+import { Writable } from 'node:stream';
+
+import { reportTransportError, splitLines } from './transport.utils';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /**
+   * Endpoint receiving POST requests with an NDJSON body
+   */
+  url: string;
+
+  /**
+   * Additional request headers, e.g. an Authorization header
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Maximum number of lines per request
+   */
+  batchSize?: number;
+
+  /**
+   * Interval in milliseconds for sending incomplete batches
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Maximum number of queued lines; the oldest lines are dropped when exceeded
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Delivery statistics of the HTTP transport
+ */
+export interface HttpTransportStats {
+  queued: number;
+  sent: number;
+  dropped: number;
+  failedRequests: number;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 10_000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Writable stream shipping log lines to an HTTP endpoint in batches
+ *
+ * Lines are held in a bounded in-memory queue and sent when a batch is full
+ * or the flush interval elapses. Failed batches are re-queued and retried on the
+ * next flush; when the queue is full the oldest lines are dropped.
+ */
+export class HttpBatchStream extends Writable {
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly timeoutMs: number;
+  private readonly flushTimer: NodeJS.Timeout;
+  private queue: string[] = [];
+  private flushing?: Promise<void>;
+  private readonly stats: HttpTransportStats = {
+    queued: 0,
+    sent: 0,
+    dropped: 0,
+    failedRequests: 0,
+  };
+
+  constructor(private readonly options: HttpTransportOptions) {
+    super();
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    // Send incomplete batches periodically, without keeping the process alive
+    this.flushTimer = setInterval(
+      () => void this.flush(),
+      options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+    );
+    this.flushTimer.unref();
+  }
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: () => void): void {
+    this.queue.push(...splitLines(chunk));
+    this.trimQueue();
+
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+    callback();
+  }
+
+  _final(callback: () => void): void {
+    clearInterval(this.flushTimer);
+    void this.flush().finally(callback);
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    clearInterval(this.flushTimer);
+    callback(error);
+  }
+
+  /**
+   * Send all queued lines
+   * Concurrent calls share the flush in progress
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.sendQueued().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Get delivery statistics
+   */
+  getStats(): HttpTransportStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  /**
+   * Send queued lines batch by batch, stopping at the first failed batch
+   */
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+
+      try {
+        await this.send(batch);
+        this.stats.sent += batch.length;
+      } catch (error) {
+        this.stats.failedRequests += 1;
+        reportTransportError('http', `Failed to send ${batch.length} log lines`, error);
+
+        // Re-queue the batch ahead of newer lines and retry on the next flush
+        this.queue = [...batch, ...this.queue];
+        this.trimQueue();
+        return;
+      }
+    }
+  }
+
+  /**
+   * POST a batch of lines
+   * @param batch Lines to send
+   */
+  private async send(batch: string[]): Promise<void> {
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson', ...this.options.headers },
+      body: `${batch.join('\n')}\n`,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Log endpoint responded with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Drop the oldest lines when the queue exceeds its bound
+   */
+  private trimQueue(): void {
+    const overflow = this.queue.length - this.maxQueueSize;
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+      this.stats.dropped += overflow;
+    }
+  }
+}
+
+/**
+ * Pino transport shipping log lines to an HTTP endpoint in batches
+ * @param options Transport options
+ * @returns Destination stream
+ */
+export function httpTransport(options: HttpTransportOptions): HttpBatchStream {
+  return new HttpBatchStream(options);
+}
+
+// Pino loads transports by module path and calls the default export
+export default httpTransport;
@@ -0,0 +1,6 @@
+export * from './file.transport';
+export * from './http.transport';
+export * from './level-label.transport';
+export * from './syslog.transport';
+export * from './transport-targets';
+export * from './transport.utils';
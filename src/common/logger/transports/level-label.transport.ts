@@ -0,0 +1,46 @@
+import { Transform } from 'node:stream';
+
+import { levels } from 'pino';
+
+import { splitLines } from './transport.utils';
+
+/**
+ * Numeric level Pino writes first in every line
+ */
+const LEVEL_PATTERN = /^\{"level":(\d+)/;
+
+/**
+ * Replace the numeric level of a line with its upper-case label, e.g. "INFO"
+ * Lines without a known numeric level are left unchanged
+ */
+export function formatLevelLabel(line: string): string {
+  return line.replace(LEVEL_PATTERN, (match, value: string) => {
+    const label = levels.labels[Number(value)];
+    return label ? `{"level":"${label.toUpperCase()}"` : match;
+  });
+}
+
+/**
+ * Pino transport step writing level labels instead of numeric levels
+ *
+ * With several targets the worker selects targets by the numeric level of each line,
+ * which rules out a level formatter on the logger. This step formats the label in a
+ * pipeline in front of each target instead.
+ *
+ * @returns Transform stream of log lines
+ */
+export function levelLabelTransport(): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      callback(
+        null,
+        splitLines(chunk)
+          .map((line) => `${formatLevelLabel(line)}\n`)
+          .join(''),
+      );
+    },
+  });
+}
+
+// Pino loads transports by module path and calls the default export
+export default levelLabelTransport;
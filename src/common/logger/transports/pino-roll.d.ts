@@ -0,0 +1,20 @@
+declare module 'pino-roll' {
+  import SonicBoom, { SonicBoomOpts } from 'sonic-boom';
+
+  interface PinoRollOptions extends SonicBoomOpts {
+    file: string | (() => string);
+    size?: string | number;
+    frequency?: string | number;
+    extension?: string;
+    symlink?: boolean;
+    limit?: { count?: number };
+    dateFormat?: string;
+  }
+
+  /**
+   * Destination of pino-roll; file is the path currently written to, once opened
+   */
+  export type RollingFileDestination = SonicBoom & { readonly file: string | null };
+
+  export default function pinoRoll(options: PinoRollOptions): Promise<RollingFileDestination>;
+}
@@ -0,0 +1,187 @@
+import { createSocket, Socket as UdpSocket } from 'node:dgram';
+import { isIPv6, Socket as TcpSocket } from 'node:net';
+import { hostname as getHostname } from 'node:os';
+import { Writable } from 'node:stream';
+
+import { levels } from 'pino';
+
+import { reportTransportError, splitLines } from './transport.utils';
+
+/**
+ * Options for the syslog transport
+ */
+export interface SyslogTransportOptions {
+  host: string;
+  port?: number;
+  protocol?: 'udp' | 'tcp';
+
+  /**
+   * Syslog facility, defaults to 1 (user-level messages)
+   */
+  facility?: number;
+
+  /**
+   * APP-NAME field of each message
+   */
+  appName?: string;
+
+  /**
+   * HOSTNAME field of each message, defaults to the machine's host name
+   */
+  hostname?: string;
+}
+
+const DEFAULT_SYSLOG_PORT = 514;
+const DEFAULT_FACILITY = 1;
+
+const INFO_SEVERITY = 6;
+const DEBUG_SEVERITY = 7;
+
+/**
+ * Syslog severities by minimum Pino level, from most to least severe
+ */
+const SYSLOG_SEVERITIES: Array<[level: number, severity: number]> = [
+  [levels.values.fatal, 2],
+  [levels.values.error, 3],
+  [levels.values.warn, 4],
+  [levels.values.info, INFO_SEVERITY],
+];
+
+/**
+ * Map a Pino level, numeric or as a label in any case, to a syslog severity
+ */
+export function toSyslogSeverity(level: unknown): number {
+  const value = typeof level === 'string' ? levels.values[level.toLowerCase()] : level;
+  if (typeof value !== 'number') {
+    return INFO_SEVERITY;
+  }
+
+  return SYSLOG_SEVERITIES.find(([threshold]) => value >= threshold)?.[1] ?? DEBUG_SEVERITY;
+}
+
+/**
+ * Format a JSON log line as an RFC 5424 syslog message
+ * The JSON line is kept as the message so collectors can still parse it
+ *
+ * @param line JSON log line
+ * @param options Header fields
+ * @returns Syslog message
+ */
+export function formatSyslogMessage(
+  line: string,
+  options: Required<Pick<SyslogTransportOptions, 'facility' | 'appName' | 'hostname'>>,
+): string {
+  let record: { level?: unknown; time?: unknown; pid?: unknown } = {};
+  try {
+    record = JSON.parse(line) as typeof record;
+  } catch {
+    // Non-JSON lines are sent with default header fields
+  }
+
+  const priority = options.facility * 8 + toSyslogSeverity(record.level);
+  const time = typeof record.time === 'number' ? record.time : Date.now();
+  const processId = typeof record.pid === 'number' ? String(record.pid) : '-';
+
+  return `<${priority}>1 ${new Date(time).toISOString()} ${options.hostname} ${options.appName} ${processId} - - ${line}`;
+}
+
+/**
+ * Writable stream sending log lines to a syslog server
+ *
+ * UDP sends one datagram per message. TCP uses octet-counting framing
+ * (RFC 6587) and reconnects on the next write after a failure; messages
+ * written while the connection is down are dropped.
+ */
+export class SyslogStream extends Writable {
+  private readonly port: number;
+  private readonly header: Required<
+    Pick<SyslogTransportOptions, 'facility' | 'appName' | 'hostname'>
+  >;
+  private udpSocket?: UdpSocket;
+  private tcpSocket?: TcpSocket;
+
+  constructor(private readonly options: SyslogTransportOptions) {
+    super();
+    this.port = options.port ?? DEFAULT_SYSLOG_PORT;
+    this.header = {
+      facility: options.facility ?? DEFAULT_FACILITY,
+      appName: options.appName || '-',
+      hostname: options.hostname || getHostname(),
+    };
+  }
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: () => void): void {
+    const messages = splitLines(chunk).map((line) => formatSyslogMessage(line, this.header));
+    if (this.options.protocol === 'tcp') {
+      this.sendTcp(messages, callback);
+    } else {
+      this.sendUdp(messages, callback);
+    }
+  }
+
+  _final(callback: () => void): void {
+    this.udpSocket?.close();
+    this.udpSocket = undefined;
+
+    if (this.tcpSocket) {
+      this.tcpSocket.end(callback);
+      this.tcpSocket = undefined;
+      return;
+    }
+    callback();
+  }
+
+  private sendUdp(messages: string[], callback: () => void): void {
+    this.udpSocket ??= createSocket(isIPv6(this.options.host) ? 'udp6' : 'udp4');
+    const socket = this.udpSocket;
+
+    let pending = messages.length;
+    if (pending === 0) {
+      callback();
+      return;
+    }
+    for (const message of messages) {
+      socket.send(message, this.port, this.options.host, (error) => {
+        if (error) {
+          reportTransportError('syslog', 'Failed to send message', error);
+        }
+        pending -= 1;
+        if (pending === 0) {
+          callback();
+        }
+      });
+    }
+  }
+
+  private sendTcp(messages: string[], callback: () => void): void {
+    const frames = messages.map((message) => `${Buffer.byteLength(message)} ${message}`).join('');
+    this.getTcpSocket().write(frames, () => callback());
+  }
+
+  private getTcpSocket(): TcpSocket {
+    if (this.tcpSocket && !this.tcpSocket.destroyed) {
+      return this.tcpSocket;
+    }
+
+    const socket = new TcpSocket();
+    socket.on('error', (error) => {
+      reportTransportError('syslog', 'Connection failed', error);
+      socket.destroy();
+    });
+    socket.connect(this.port, this.options.host);
+    this.tcpSocket = socket;
+    return socket;
+  }
+}
+
+/**
+ * Pino transport sending log lines to a syslog server
+ * @param options Transport options
+ * @returns Destination stream
+ */
+export function syslogTransport(options: SyslogTransportOptions): SyslogStream {
+  return new SyslogStream(options);
+}
+
+// Pino loads transports by module path and calls the default export
+export default syslogTransport;
@@ -0,0 +1,101 @@
+import path from 'node:path';
+
+import { TransportPipelineOptions, TransportTargetOptions } from 'pino';
+
+import { LogTransportConfig } from '../../../config/env/log-transports.interface';
+
+import { FileTransportOptions } from './file.transport';
+import { HttpTransportOptions } from './http.transport';
+import { SyslogTransportOptions } from './syslog.transport';
+
+/**
+ * pino-pretty options used for pretty-printed stdout
+ */
+export const PRETTY_PRINT_OPTIONS = {
+  colorize: true,
+  levelFirst: true,
+  translateTime: 'yyyy-mm-dd HH:MM:ss.l',
+  singleLine: false,
+  messageFormat: '{correlationId} {req.method} {req.url} {msg}',
+  errorLikeObjectKeys: ['err', 'error'],
+  ignore: 'pid,hostname',
+};
+
+/**
+ * Resolve a transport module in this directory
+ * Transports are loaded by path in a worker thread, so the compiled module is
+ * used when running from dist and the TypeScript source otherwise
+ */
+function resolveTransport(name: string): string {
+  // eslint-disable-next-line unicorn/prefer-module -- compiled to CommonJS; locates this module whatever the working directory
+  return path.join(__dirname, `${name}${path.extname(__filename)}`);
+}
+
+/**
+ * Write the level of a target as an upper-case label, e.g. "INFO", like the logger's level formatter
+ * The worker selects targets by numeric level, so the label is formatted in a pipeline in front of the target
+ * @param target Transport target
+ * @returns Pipeline formatting the level for the target, or the target itself for pino-pretty
+ */
+export function withLevelLabel(
+  target: TransportTargetOptions,
+): TransportTargetOptions | TransportPipelineOptions {
+  if (target.target === 'pino-pretty') {
+    return target;
+  }
+
+  const { level, ...destination } = target;
+  return { level, pipeline: [{ target: resolveTransport('level-label.transport') }, destination] };
+}
+
+/**
+ * Create the Pino transport target for a configured log transport
+ * @param config Transport configuration
+ * @param level Minimum level written to the target
+ * @param appName Application name reported by transports that include one
+ * @returns Pino transport target
+ */
+export function createTransportTarget(
+  config: LogTransportConfig,
+  level: string,
+  appName?: string,
+): TransportTargetOptions {
+  switch (config.type) {
+    case 'stdout': {
+      return config.pretty
+        ? { target: 'pino-pretty', level, options: { ...PRETTY_PRINT_OPTIONS, destination: 1 } }
+        : { target: 'pino/file', level, options: { destination: 1 } };
+    }
+    case 'file': {
+      const options: FileTransportOptions = {
+        file: path.resolve(config.path),
+        size: config.size,
+        frequency: config.frequency,
+        count: config.count,
+        compress: config.compress,
+      };
+      return { target: resolveTransport('file.transport'), level, options };
+    }
+    case 'syslog': {
+      const options: SyslogTransportOptions = {
+        host: config.host,
+        port: config.port,
+        protocol: config.protocol,
+        facility: config.facility,
+        appName: config.appName ?? appName,
+      };
+      return { target: resolveTransport('syslog.transport'), level, options };
+    }
+    case 'http': {
+      const options: HttpTransportOptions = {
+        url: config.url,
+        headers: config.headers,
+        batchSize: config.batchSize,
+        flushIntervalMs: config.flushIntervalMs,
+        maxQueueSize: config.maxQueueSize,
+        timeoutMs: config.timeoutMs,
+      };
+      return { target: resolveTransport('http.transport'), level, options };
+    }
+  }
+}
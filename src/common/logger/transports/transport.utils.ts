@@ -0,0 +1,24 @@
+/**
+ * Report a transport failure
+ *
+ * Transports run in a Pino worker thread without access to the application's
+ * logger, so failures are written to stderr instead.
+ *
+ * @param transport Transport name
+ * @param message Description of the failure
+ * @param error The underlying error
+ */
+export function reportTransportError(transport: string, message: string, error: unknown): void {
+  const reason = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`[${transport} log transport] ${message}: ${reason}\n`);
+}
+
+/**
+ * Split a chunk written by Pino into its non-empty lines
+ */
+export function splitLines(chunk: Buffer | string): string[] {
+  return chunk
+    .toString()
+    .split('\n')
+    .filter((line) => line.length > 0);
+}
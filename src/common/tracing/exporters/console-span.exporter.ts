@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+
+import { SpanData } from '../span.interface';
+
+import { SpanExporter } from './span-exporter.interface';
+
+/**
+ * Span exporter that writes finished spans to the application log
+ * Intended for local development
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  private readonly logger = new Logger(ConsoleSpanExporter.name);
+
+  export(span: SpanData): void {
+    this.logger.log({
+      msg: `Span ${span.name} finished in ${(span.endTime - span.startTime).toFixed(2)}ms`,
+      span,
+    });
+  }
+
+  async flush(): Promise<void> {
+    // Spans are written synchronously
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+}
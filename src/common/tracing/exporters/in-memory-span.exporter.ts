@@ -0,0 +1,38 @@
+import { SpanData } from '../span.interface';
+
+import { SpanExporter } from './span-exporter.interface';
+
+/**
+ * Span exporter that keeps finished spans in memory
+ * Intended for tests asserting on produced spans
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(span: SpanData): void {
+    this.spans.push(span);
+  }
+
+  /**
+   * Get the spans finished so far, in the order they ended
+   */
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Discard all finished spans
+   */
+  reset(): void {
+    this.spans = [];
+  }
+
+  async flush(): Promise<void> {
+    // Spans are stored synchronously
+  }
+
+  shutdown(): Promise<void> {
+    this.reset();
+    return Promise.resolve();
+  }
+}
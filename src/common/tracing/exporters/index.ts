@@ -0,0 +1,6 @@
+export * from './console-span.exporter';
+export * from './in-memory-span.exporter';
+export * from './noop-span.exporter';
+export * from './otlp-http-span.exporter';
+export * from './span-exporter.factory';
+export * from './span-exporter.interface';
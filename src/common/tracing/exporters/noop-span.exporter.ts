@@ -0,0 +1,21 @@
+import { SpanData } from '../span.interface';
+
+import { SpanExporter } from './span-exporter.interface';
+
+/**
+ * Span exporter that discards all spans
+ * Trace context is still propagated and added to logs
+ */
+export class NoopSpanExporter implements SpanExporter {
+  export(_span: SpanData): void {
+    // Spans are intentionally discarded
+  }
+
+  async flush(): Promise<void> {
+    // Nothing to deliver
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,232 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { SpanAttributes, SpanData, SpanKind, SpanStatusCode } from '../span.interface';
+
+import { SpanExporter } from './span-exporter.interface';
+
+/**
+ * Options for the OTLP HTTP span exporter
+ */
+export interface OtlpHttpSpanExporterOptions {
+  /**
+   * Collector base URL; spans are sent to {url}/v1/traces
+   */
+  url: string;
+
+  /**
+   * service.name resource attribute
+   */
+  serviceName: string;
+
+  /**
+   * Additional request headers, e.g. for collector authentication
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Maximum number of spans per request
+   */
+  batchSize?: number;
+
+  /**
+   * Interval in milliseconds for sending incomplete batches
+   */
+  flushIntervalMs?: number;
+
+  /**
+   * Maximum number of queued spans; the oldest spans are dropped when exceeded
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeoutMs?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 512;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 2048;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Numeric span kinds of the OTLP protocol
+ */
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  [SpanKind.Internal]: 1,
+  [SpanKind.Server]: 2,
+  [SpanKind.Client]: 3,
+};
+
+/**
+ * Numeric status codes of the OTLP protocol
+ */
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = {
+  [SpanStatusCode.Unset]: 0,
+  [SpanStatusCode.Ok]: 1,
+  [SpanStatusCode.Error]: 2,
+};
+
+/**
+ * Convert milliseconds since the epoch to the nanosecond string used by OTLP/JSON
+ * Microsecond precision keeps the intermediate value within the safe integer range
+ */
+function toUnixNano(milliseconds: number): string {
+  return (BigInt(Math.round(milliseconds * 1000)) * 1000n).toString();
+}
+
+/**
+ * Convert span attributes to OTLP key-value pairs
+ */
+function toOtlpAttributes(attributes: SpanAttributes = {}): Array<Record<string, unknown>> {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === 'boolean') {
+      return { key, value: { boolValue: value } };
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value)
+        ? { key, value: { intValue: String(value) } }
+        : { key, value: { doubleValue: value } };
+    }
+    return { key, value: { stringValue: value } };
+  });
+}
+
+/**
+ * Span exporter sending batches to an OpenTelemetry collector using OTLP/JSON over HTTP
+ *
+ * Spans are held in a bounded in-memory queue and sent when a batch is full or the
+ * flush interval elapses. Failed batches are re-queued and retried on the next flush;
+ * when the queue is full the oldest spans are dropped.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter, OnModuleDestroy {
+  private readonly logger = new Logger(OtlpHttpSpanExporter.name);
+  private readonly endpoint: string;
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly timeoutMs: number;
+  private readonly flushTimer: NodeJS.Timeout;
+  private queue: SpanData[] = [];
+  private flushing?: Promise<void>;
+
+  constructor(private readonly options: OtlpHttpSpanExporterOptions) {
+    const baseUrl = options.url.endsWith('/') ? options.url.slice(0, -1) : options.url;
+    this.endpoint = `${baseUrl}/v1/traces`;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    // Send incomplete batches periodically, without keeping the process alive
+    this.flushTimer = setInterval(
+      () => void this.flush(),
+      options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+    );
+    this.flushTimer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.shutdown();
+  }
+
+  export(span: SpanData): void {
+    this.queue.push(span);
+
+    // Drop the oldest spans when the queue exceeds its bound
+    const overflow = this.queue.length - this.maxQueueSize;
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+    }
+
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send all queued spans
+   * Concurrent calls share the flush in progress
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.sendQueued().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.flushTimer);
+    await this.flush();
+  }
+
+  /**
+   * Send queued spans batch by batch, stopping at the first failed batch
+   */
+  private async sendQueued(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+
+      try {
+        await this.send(batch);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to export ${batch.length} spans: ${error instanceof Error ? error.message : String(error)}`,
+        );
+
+        // Re-queue the batch ahead of newer spans and retry on the next flush
+        this.queue = [...batch, ...this.queue].slice(-this.maxQueueSize);
+        return;
+      }
+    }
+  }
+
+  /**
+   * POST a batch of spans as an OTLP/JSON ExportTraceServiceRequest
+   * @param batch Spans to send
+   */
+  private async send(batch: SpanData[]): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(this.toExportRequest(batch)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Collector responded with status ${response.status}`);
+    }
+  }
+
+  private toExportRequest(batch: SpanData[]): Record<string, unknown> {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ 'service.name': this.options.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'nest-backend-base' },
+              spans: batch.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                traceState: span.traceState,
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime),
+                attributes: toOtlpAttributes(span.attributes),
+                events: span.events.map((event) => ({
+                  name: event.name,
+                  timeUnixNano: toUnixNano(event.time),
+                  attributes: toOtlpAttributes(event.attributes),
+                })),
+                status: { code: OTLP_STATUS_CODE[span.status.code], message: span.status.message },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
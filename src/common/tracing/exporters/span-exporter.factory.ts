@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+
+import { ConsoleSpanExporter } from './console-span.exporter';
+import { InMemorySpanExporter } from './in-memory-span.exporter';
+import { NoopSpanExporter } from './noop-span.exporter';
+import { OtlpHttpSpanExporter } from './otlp-http-span.exporter';
+import { SpanExporter, SpanExporterType } from './span-exporter.interface';
+
+/**
+ * Default OTLP/HTTP endpoint of a local OpenTelemetry collector
+ */
+const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318';
+
+/**
+ * Create the span exporter selected by TRACING_EXPORTER
+ *
+ * @param configService Configuration service
+ * @returns Configured span exporter, or a no-op exporter
+ */
+export function createSpanExporter(configService: ConfigService): SpanExporter {
+  switch (configService.get<string>('TRACING_EXPORTER')) {
+    case SpanExporterType.Console: {
+      return new ConsoleSpanExporter();
+    }
+    case SpanExporterType.Memory: {
+      return new InMemorySpanExporter();
+    }
+    case SpanExporterType.Otlp: {
+      return new OtlpHttpSpanExporter({
+        url: configService.get<string>('OTEL_EXPORTER_OTLP_ENDPOINT') || DEFAULT_OTLP_ENDPOINT,
+        serviceName: getServiceName(configService),
+      });
+    }
+    default: {
+      return new NoopSpanExporter();
+    }
+  }
+}
+
+/**
+ * Get the service name reported with spans
+ * @param configService Configuration service
+ * @returns OTEL_SERVICE_NAME, falling back to APP_NAME
+ */
+export function getServiceName(configService: ConfigService): string {
+  return (
+    configService.get<string>('OTEL_SERVICE_NAME') ||
+    configService.get<string>('APP_NAME') ||
+    'nest-backend-base'
+  );
+}
@@ -0,0 +1,39 @@
+import { SpanData } from '../span.interface';
+
+/**
+ * Injection token for the configured span exporter
+ */
+export const SPAN_EXPORTER = Symbol('SPAN_EXPORTER');
+
+/**
+ * Available span exporters
+ */
+export enum SpanExporterType {
+  None = 'none',
+  Console = 'console',
+  Otlp = 'otlp',
+  Memory = 'memory',
+}
+
+/**
+ * Destination for finished spans
+ *
+ * export() is called for every sampled span when it ends and must not throw;
+ * exporters that send spans elsewhere queue them and deliver asynchronously.
+ */
+export interface SpanExporter {
+  /**
+   * Queue a finished span for export
+   */
+  export(span: SpanData): void;
+
+  /**
+   * Deliver all queued spans
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Deliver queued spans and release resources
+   */
+  shutdown(): Promise<void>;
+}
@@ -0,0 +1,7 @@
+export * from './exporters';
+export * from './span';
+export * from './span.interface';
+export * from './trace-context';
+export * from './tracing.interceptor';
+export * from './tracing.module';
+export * from './tracing.service';
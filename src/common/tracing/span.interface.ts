@@ -0,0 +1,65 @@
+/**
+ * Relationship of a span to the remote side of the operation
+ */
+export enum SpanKind {
+  Internal = 'internal',
+  Server = 'server',
+  Client = 'client',
+}
+
+/**
+ * Outcome of a span
+ */
+export enum SpanStatusCode {
+  Unset = 'unset',
+  Ok = 'ok',
+  Error = 'error',
+}
+
+/**
+ * Span attribute values
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Timestamped event recorded on a span
+ */
+export interface SpanEvent {
+  name: string;
+
+  /**
+   * Time in milliseconds since the epoch
+   */
+  time: number;
+
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Finished span as handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  kind: SpanKind;
+
+  /**
+   * Start time in milliseconds since the epoch, with sub-millisecond precision
+   */
+  startTime: number;
+
+  /**
+   * End time in milliseconds since the epoch, with sub-millisecond precision
+   */
+  endTime: number;
+
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: {
+    code: SpanStatusCode;
+    message?: string;
+  };
+}
@@ -0,0 +1,111 @@
+import { SpanAttributes, SpanData, SpanEvent, SpanKind, SpanStatusCode } from './span.interface';
+import { TraceContext } from './trace-context';
+
+/**
+ * Current time in milliseconds since the epoch, with sub-millisecond precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * A timed operation within a trace
+ * Created by TracingService.startSpan(); ending the span hands it to the exporter
+ */
+export class Span {
+  private readonly startTime = now();
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: SpanStatusCode.Unset };
+  private endTime?: number;
+
+  constructor(
+    private name: string,
+    readonly kind: SpanKind,
+    private readonly traceContext: TraceContext,
+    readonly parentSpanId: string | undefined,
+    attributes: SpanAttributes,
+    private readonly onEnd: (span: SpanData) => void,
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  /**
+   * Get the trace context identifying this span, for propagation and log correlation
+   */
+  spanContext(): TraceContext {
+    return this.traceContext;
+  }
+
+  /**
+   * Rename the span, e.g. once the matched route is known
+   */
+  updateName(name: string): this {
+    this.name = name;
+    return this;
+  }
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, time: now(), attributes });
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Record an exception event and mark the span as failed
+   */
+  recordException(exception: unknown): this {
+    const error = exception instanceof Error ? exception : new Error(String(exception));
+    this.addEvent('exception', {
+      'exception.type': error.name,
+      'exception.message': error.message,
+    });
+    return this.setStatus(SpanStatusCode.Error, error.message);
+  }
+
+  isEnded(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  /**
+   * End the span; later calls are ignored
+   */
+  end(): void {
+    if (this.endTime !== undefined) {
+      return;
+    }
+
+    this.endTime = now();
+    this.onEnd(this.toSpanData());
+  }
+
+  toSpanData(): SpanData {
+    return {
+      traceId: this.traceContext.traceId,
+      spanId: this.traceContext.spanId,
+      parentSpanId: this.parentSpanId,
+      traceState: this.traceContext.traceState,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: this.endTime ?? now(),
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status },
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * W3C Trace Context header carrying the trace ID, parent span ID and flags
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * W3C Trace Context header carrying vendor-specific trace state
+ */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/**
+ * Trace flag marking a trace as sampled
+ */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/**
+ * traceparent format: version-traceid-parentid-flags
+ */
+const TRACEPARENT_PATTERN = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/;
+
+/**
+ * Largest value of the trace ID bits used for sampling decisions
+ */
+const MAX_SAMPLING_VALUE = 2 ** 32 - 1;
+
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Identifies a span within a trace, as propagated by the traceparent header
+ */
+export interface TraceContext {
+  /**
+   * 32 hex character trace ID
+   */
+  traceId: string;
+
+  /**
+   * 16 hex character span ID
+   */
+  spanId: string;
+
+  /**
+   * Trace flags; bit 0 marks the trace as sampled
+   */
+  traceFlags: number;
+
+  /**
+   * Raw tracestate header, passed on unchanged
+   */
+  traceState?: string;
+}
+
+/**
+ * Generate a random trace ID
+ */
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generate a random span ID
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Decide whether a new trace is sampled from its trace ID
+ * The decision is deterministic, so every service using the same ratio agrees on it
+ *
+ * @param traceId Trace ID
+ * @param ratio Fraction of traces to sample, between 0 and 1
+ */
+export function shouldSampleTrace(traceId: string, ratio: number): boolean {
+  return Number.parseInt(traceId.slice(-8), 16) / MAX_SAMPLING_VALUE < ratio;
+}
+
+/**
+ * Check whether a trace context is sampled
+ */
+export function isSampled(traceContext: TraceContext): boolean {
+  return (traceContext.traceFlags & TRACE_FLAG_SAMPLED) === TRACE_FLAG_SAMPLED;
+}
+
+/**
+ * Parse traceparent and tracestate headers
+ * Invalid headers are ignored, as required by the W3C specification
+ *
+ * @param traceparent traceparent header value
+ * @param tracestate tracestate header value
+ * @returns Trace context of the remote parent span, or undefined
+ */
+export function parseTraceParent(
+  traceparent: string | string[] | undefined,
+  tracestate?: string | string[],
+): TraceContext | undefined {
+  if (typeof traceparent !== 'string') {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags] = match;
+  if (version === 'ff' || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+
+  const traceState = Array.isArray(tracestate) ? tracestate.join(',') : tracestate;
+  return {
+    traceId,
+    spanId,
+    traceFlags: Number.parseInt(flags, 16),
+    traceState: traceState?.trim() || undefined,
+  };
+}
+
+/**
+ * Format a trace context as a traceparent header value
+ */
+export function formatTraceParent(traceContext: TraceContext): string {
+  const flags = (traceContext.traceFlags & 255).toString(16).padStart(2, '0');
+  return `00-${traceContext.traceId}-${traceContext.spanId}-${flags}`;
+}
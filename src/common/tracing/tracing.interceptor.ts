@@ -0,0 +1,39 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { finalize, Observable, tap } from 'rxjs';
+
+import { TracingService } from './tracing.service';
+
+/**
+ * Interceptor running every handler in its own span
+ * The span is a child of the request's server span and is active while the handler runs.
+ * It ends when the handler completes or fails, or when the client unsubscribes, e.g. on abort
+ */
+@Injectable()
+export class TracingInterceptor implements NestInterceptor {
+  constructor(private readonly tracing: TracingService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const controller = context.getClass().name;
+    const handler = context.getHandler().name;
+
+    return new Observable((subscriber) => {
+      const span = this.tracing.startSpan(`${controller}.${handler}`, {
+        attributes: {
+          'code.namespace': controller,
+          'code.function': handler,
+          transport: context.getType(),
+        },
+      });
+
+      return this.tracing.runInSpan(span, () =>
+        next
+          .handle()
+          .pipe(
+            tap({ error: (error: unknown) => span.recordException(error) }),
+            finalize(() => span.end()),
+          )
+          .subscribe(subscriber),
+      );
+    });
+  }
+}
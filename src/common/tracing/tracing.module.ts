@@ -0,0 +1,36 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+
+import { ConfigModule } from '../../config/config.module';
+import { RequestContextModule } from '../context/request-context.module';
+
+import { createSpanExporter } from './exporters/span-exporter.factory';
+import { SPAN_EXPORTER } from './exporters/span-exporter.interface';
+import { TracingInterceptor } from './tracing.interceptor';
+import { TracingService } from './tracing.service';
+
+/**
+ * Tracing module that provides the tracing service, the configured span exporter
+ * and a global interceptor creating a span per handler
+ *
+ * Global so any service can create spans and trace outbound calls
+ */
+@Global()
+@Module({
+  imports: [ConfigModule, RequestContextModule],
+  providers: [
+    TracingService,
+    {
+      provide: SPAN_EXPORTER,
+      inject: [ConfigService],
+      useFactory: createSpanExporter,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: TracingInterceptor,
+    },
+  ],
+  exports: [TracingService, SPAN_EXPORTER],
+})
+export class TracingModule {}
@@ -0,0 +1,211 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { RequestContextService } from '../context/request-context.service';
+
+import { getServiceName } from './exporters/span-exporter.factory';
+import { SPAN_EXPORTER, SpanExporter } from './exporters/span-exporter.interface';
+import { Span } from './span';
+import { SpanAttributes, SpanKind, SpanStatusCode } from './span.interface';
+import {
+  formatTraceParent,
+  generateSpanId,
+  generateTraceId,
+  isSampled,
+  shouldSampleTrace,
+  TRACE_FLAG_SAMPLED,
+  TraceContext,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from './trace-context';
+
+/**
+ * Options for starting a span
+ */
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+
+  /**
+   * Parent span; defaults to the active span of the request context
+   */
+  parent?: TraceContext;
+}
+
+/**
+ * Creates spans, tracks the active span in the request context and propagates
+ * W3C Trace Context to outbound calls
+ *
+ * Spans of unsampled traces are not exported, but their IDs are still propagated
+ * and added to logs.
+ */
+@Injectable()
+export class TracingService {
+  private readonly serviceName: string;
+  private readonly sampleRatio: number;
+
+  constructor(
+    configService: ConfigService,
+    private readonly requestContext: RequestContextService,
+    @Optional() @Inject(SPAN_EXPORTER) private readonly exporter?: SpanExporter,
+  ) {
+    this.serviceName = getServiceName(configService);
+    const sampleRatio = Number(configService.get('TRACING_SAMPLE_RATIO') ?? 1);
+    this.sampleRatio = Number.isNaN(sampleRatio) ? 1 : Math.min(Math.max(sampleRatio, 0), 1);
+  }
+
+  /**
+   * Get the service name reported with spans
+   */
+  getServiceName(): string {
+    return this.serviceName;
+  }
+
+  /**
+   * Get the trace context of the active span
+   */
+  getActiveTraceContext(): TraceContext | undefined {
+    return this.requestContext.getTraceContext();
+  }
+
+  /**
+   * Start a span
+   * The span joins the parent's trace; without a parent a new, possibly sampled, trace is started.
+   * The span is not activated; use runInSpan() or withSpan() for that.
+   *
+   * @param name Span name
+   * @param options Kind, attributes and parent
+   * @returns Started span
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent ?? this.getActiveTraceContext();
+    const traceId = parent?.traceId ?? generateTraceId();
+    const traceContext: TraceContext = parent
+      ? { ...parent, spanId: generateSpanId() }
+      : {
+          traceId,
+          spanId: generateSpanId(),
+          traceFlags: shouldSampleTrace(traceId, this.sampleRatio) ? TRACE_FLAG_SAMPLED : 0,
+        };
+
+    return new Span(
+      name,
+      options.kind ?? SpanKind.Internal,
+      traceContext,
+      parent?.spanId,
+      options.attributes ?? {},
+      (span) => {
+        if (isSampled(traceContext)) {
+          this.exporter?.export(span);
+        }
+      },
+    );
+  }
+
+  /**
+   * Run a function with a span as the active span
+   * Logs and spans started by the function are attached to it
+   *
+   * @param span Span to activate
+   * @param callback Function to run
+   * @returns The callback's return value
+   */
+  runInSpan<T>(span: Span, callback: () => T): T {
+    return this.requestContext.runWithTraceContext(span.spanContext(), callback);
+  }
+
+  /**
+   * Run a function in a new active span that ends when the function returns or its promise settles
+   * Errors are recorded on the span and rethrown
+   *
+   * @param name Span name
+   * @param callback Function to run, receiving the span
+   * @param options Kind, attributes and parent
+   * @returns The callback's return value
+   */
+  withSpan<T>(name: string, callback: (span: Span) => T, options: StartSpanOptions = {}): T {
+    const span = this.startSpan(name, options);
+
+    try {
+      const result = this.runInSpan(span, () => callback(span));
+
+      if (result instanceof Promise) {
+        return result.then(
+          (value: unknown) => {
+            span.end();
+            return value;
+          },
+          (error: unknown) => {
+            span.recordException(error);
+            span.end();
+            throw error;
+          },
+        ) as T;
+      }
+
+      span.end();
+      return result;
+    } catch (error) {
+      span.recordException(error);
+      span.end();
+      throw error;
+    }
+  }
+
+  /**
+   * Add traceparent and tracestate headers for an outbound call
+   * @param headers Headers to add to
+   * @param traceContext Span to propagate; defaults to the active span
+   * @returns The headers
+   */
+  injectHeaders(
+    headers: Record<string, string> = {},
+    traceContext = this.getActiveTraceContext(),
+  ): Record<string, string> {
+    if (traceContext) {
+      headers[TRACEPARENT_HEADER] = formatTraceParent(traceContext);
+      if (traceContext.traceState) {
+        headers[TRACESTATE_HEADER] = traceContext.traceState;
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Perform an HTTP request in a client span, propagating the trace to the callee
+   * @param url Request URL
+   * @param init fetch options
+   * @returns fetch response
+   */
+  async fetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const target = new URL(url);
+    const span = this.startSpan(`${method} ${target.host}`, {
+      kind: SpanKind.Client,
+      attributes: {
+        'http.method': method,
+        'http.url': `${target.origin}${target.pathname}`,
+        'server.address': target.hostname,
+      },
+    });
+
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(this.injectHeaders({}, span.spanContext()))) {
+      headers.set(name, value);
+    }
+
+    try {
+      const response = await fetch(url, { ...init, headers });
+      span.setAttribute('http.status_code', response.status);
+      if (response.status >= 500) {
+        span.setStatus(SpanStatusCode.Error, `HTTP ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Utilities for matching values against simple glob patterns
+ */
+
+/**
+ * Characters with a special meaning in regular expressions
+ */
+const REGEXP_SPECIAL_CHARACTERS = /[$()+.[\\\]^{|}]/g;
+
+/**
+ * Compiled patterns, keyed by glob
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ * `*` matches any sequence of characters (including `/`), `?` matches a single character
+ *
+ * @param pattern Glob pattern, e.g. /users/*
+ * @returns Regular expression matching the whole value
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regExp = compiledPatterns.get(pattern);
+  if (!regExp) {
+    const source = pattern
+      .replaceAll(REGEXP_SPECIAL_CHARACTERS, String.raw`\$&`)
+      .replaceAll('*', '.*')
+      .replaceAll('?', '.');
+    regExp = new RegExp(`^${source}$`);
+    compiledPatterns.set(pattern, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ * @param value Value to test; undefined never matches
+ * @param pattern Glob pattern
+ */
+export function matchesGlob(value: string | undefined, pattern: string): boolean {
+  return value !== undefined && globToRegExp(pattern).test(value);
+}
@@ -2,5 +2,23 @@
  * Common utilities for the application
  */
 
+// Export glob matching utilities
+export * from './glob.utils';
+
+// Export masking strategies
+export * from './masking-strategies.utils';
+
+// Export object inspection utilities
+export * from './object.utils';
+
+// Export PII detection utilities
+export * from './pii-detectors.utils';
+
+// Export redaction rule utilities
+export * from './redaction-rules.utils';
+
 // Export sensitive data utilities
 export * from './sensitive-data.utils';
+
+// Export the @Sensitive() decorator
+export * from './sensitive.decorator';
@@ -0,0 +1,198 @@
+/**
+ * Masking strategies for the values of redacted keys
+ */
+import { createHmac } from 'node:crypto';
+
+import { isPlainObject } from './object.utils';
+
+/**
+ * How the value of a redacted key is masked
+ *
+ * - `full`: replaced by the mask, e.g. `[REDACTED]`
+ * - `last`: all but the last `visible` characters replaced, e.g. `************1111`
+ * - `email`: the local part masked after its first `visible` characters, e.g. `j***@example.com`
+ * - `hmac`: replaced by a keyed HMAC-SHA256 of the value, so equal values can be correlated
+ * - `length`: every character replaced, keeping the length
+ * - `type`: numbers replaced by 0 and booleans by false, other values by the mask
+ */
+export type MaskingStrategy =
+  | { type: 'full'; mask?: string }
+  | { type: 'last'; visible?: number; maskChar?: string }
+  | { type: 'email'; visible?: number; maskChar?: string }
+  | { type: 'hmac'; length?: number }
+  | { type: 'length'; maskChar?: string }
+  | { type: 'type'; mask?: string };
+
+export type MaskingStrategyType = MaskingStrategy['type'];
+
+/**
+ * Strategy with its options, or the name of a strategy with default options
+ */
+export type MaskingStrategyConfig = MaskingStrategy | MaskingStrategyType;
+
+/**
+ * Names of the masking strategies
+ */
+export const MASKING_STRATEGY_TYPES: MaskingStrategyType[] = [
+  'full',
+  'last',
+  'email',
+  'hmac',
+  'length',
+  'type',
+];
+
+/**
+ * Settings shared by the strategies
+ */
+export interface MaskingContext {
+  /**
+   * Mask of the full strategy, and fallback of the other strategies
+   */
+  mask: string;
+
+  /**
+   * Secret key of the hmac strategy; without it values are fully masked
+   */
+  pseudonymizationKey?: string;
+}
+
+/**
+ * Default masking character
+ */
+const DEFAULT_MASK_CHAR = '*';
+
+/**
+ * Default number of characters kept by the last strategy
+ */
+const DEFAULT_VISIBLE_LAST = 4;
+
+/**
+ * Default length of HMAC pseudonyms, in hexadecimal characters
+ */
+const DEFAULT_HMAC_LENGTH = 16;
+
+/**
+ * Maximum depth of objects masked value by value
+ */
+const MAX_MASK_DEPTH = 10;
+
+/**
+ * Values masked as a whole
+ */
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+/**
+ * Get the options of a strategy given by name or with options
+ */
+function toMaskingStrategy(strategy: MaskingStrategyConfig): MaskingStrategy {
+  return typeof strategy === 'string' ? { type: strategy } : strategy;
+}
+
+/**
+ * Mask a primitive value
+ */
+function maskPrimitive(
+  value: Primitive,
+  strategy: MaskingStrategy,
+  context: MaskingContext,
+): unknown {
+  if (strategy.type === 'type') {
+    if (typeof value === 'number') {
+      return 0;
+    }
+    if (typeof value === 'boolean') {
+      return false;
+    }
+    return strategy.mask ?? context.mask;
+  }
+
+  if (strategy.type === 'full' || value === null || value === undefined) {
+    return (strategy.type === 'full' && strategy.mask) || context.mask;
+  }
+
+  const text = String(value);
+  switch (strategy.type) {
+    case 'last': {
+      const { visible = DEFAULT_VISIBLE_LAST, maskChar = DEFAULT_MASK_CHAR } = strategy;
+      // Values not longer than the visible part are masked entirely
+      const kept = text.length > visible ? text.slice(text.length - visible) : '';
+      return maskChar.repeat(text.length - kept.length) + kept;
+    }
+    case 'email': {
+      const { visible = 1, maskChar = DEFAULT_MASK_CHAR } = strategy;
+      const at = text.lastIndexOf('@');
+      if (at <= 0) {
+        return context.mask;
+      }
+      return `${text.slice(0, Math.min(visible, at - 1))}${maskChar.repeat(3)}${text.slice(at)}`;
+    }
+    case 'hmac': {
+      if (!context.pseudonymizationKey) {
+        return context.mask;
+      }
+      return createHmac('sha256', context.pseudonymizationKey)
+        .update(text)
+        .digest('hex')
+        .slice(0, strategy.length ?? DEFAULT_HMAC_LENGTH);
+    }
+    default: {
+      return (strategy.maskChar ?? DEFAULT_MASK_CHAR).repeat(text.length);
+    }
+  }
+}
+
+/**
+ * Mask a value, keeping the shape of arrays and plain objects
+ * Other objects, circular references and values nested too deeply are replaced by the mask
+ */
+function maskValue(
+  value: unknown,
+  strategy: MaskingStrategy,
+  context: MaskingContext,
+  depth: number,
+  ancestors: WeakSet<object>,
+): unknown {
+  if (typeof value === 'function') {
+    return context.mask;
+  }
+  if (!value || typeof value !== 'object') {
+    return maskPrimitive(value as Primitive, strategy, context);
+  }
+  if (
+    depth >= MAX_MASK_DEPTH ||
+    ancestors.has(value) ||
+    (!Array.isArray(value) && !isPlainObject(value))
+  ) {
+    return context.mask;
+  }
+
+  ancestors.add(value);
+  let result: unknown[] | Record<string, unknown>;
+  if (Array.isArray(value)) {
+    result = value.map((item) => maskValue(item, strategy, context, depth + 1, ancestors));
+  } else {
+    result = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = maskValue(item, strategy, context, depth + 1, ancestors);
+    }
+  }
+  ancestors.delete(value);
+  return result;
+}
+
+/**
+ * Mask a value with a strategy
+ * Arrays and plain objects keep their shape, with each value masked
+ * @param value Value of a redacted key
+ * @param strategy Strategy, by name or with options
+ * @param context Mask and pseudonymization key
+ * @returns The masked value
+ */
+export function applyMaskingStrategy(
+  value: unknown,
+  strategy: MaskingStrategyConfig,
+  context: MaskingContext,
+): unknown {
+  return maskValue(value, toMaskingStrategy(strategy), context, 0, new WeakSet());
+}
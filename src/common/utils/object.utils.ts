@@ -0,0 +1,17 @@
+/**
+ * Utilities for inspecting objects
+ */
+
+/**
+ * Check whether a value is an object literal or an object without a prototype
+ * Object literals of any realm match, e.g. request headers created outside a VM context
+ * @param value Value to check
+ * @returns Whether the value is a plain object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as object | null;
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
@@ -0,0 +1,298 @@
+/**
+ * Detection of personal data and credentials inside free-text strings
+ */
+import { isIPv4, isIPv6 } from 'node:net';
+import { performance } from 'node:perf_hooks';
+
+import { isPlainObject } from './object.utils';
+
+/**
+ * Names of the available detectors, in the order they are applied
+ */
+export const PII_DETECTOR_NAMES = [
+  'bearer',
+  'jwt',
+  'email',
+  'phone',
+  'card',
+  'iban',
+  'ipv4',
+  'ipv6',
+] as const;
+
+export type PiiDetectorName = (typeof PII_DETECTOR_NAMES)[number];
+
+/**
+ * Default time a detector may spend on a sanitized value, in milliseconds
+ */
+export const DEFAULT_PII_DETECTOR_BUDGET_MS = 2;
+
+/**
+ * Default mask for detected values
+ */
+const DEFAULT_PII_MASK = '[REDACTED]';
+
+/**
+ * Default maximum depth for object traversal
+ */
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Detector of one kind of value
+ */
+interface PiiDetector {
+  /**
+   * Global pattern matching candidates; the lookbehinds keep scanning linear
+   */
+  pattern: RegExp;
+
+  /**
+   * Check a candidate, e.g. its checksum; candidates are masked when omitted
+   */
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Options for detecting values in strings
+ */
+export interface PiiDetectionOptions {
+  /**
+   * Enabled detectors
+   */
+  detectors: PiiDetectorName[];
+
+  /**
+   * Time each detector may spend on a sanitized value, in milliseconds
+   * A detector exceeding its budget is skipped for the rest of the value
+   */
+  budgetMs?: number;
+
+  /**
+   * Budgets of individual detectors, overriding budgetMs
+   */
+  budgets?: Partial<Record<PiiDetectorName, number>>;
+
+  /**
+   * Replacement for detected values
+   */
+  mask?: string;
+}
+
+/**
+ * Masks detected values in a string
+ */
+export type PiiRedactor = (text: string) => string;
+
+/**
+ * Check the Luhn checksum of a card number
+ */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check the length and ISO 13616 mod-97 checksum of an IBAN
+ */
+function isIbanValid(iban: string): boolean {
+  const compact = iban.replaceAll(' ', '');
+  if (compact.length < 15 || compact.length > 34) {
+    return false;
+  }
+
+  let remainder = 0;
+  for (const character of compact.slice(4) + compact.slice(0, 4)) {
+    const value = Number.parseInt(character, 36);
+    remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Patterns and checks of the detectors
+ */
+const PII_DETECTORS: Record<PiiDetectorName, PiiDetector> = {
+  // Only the credentials following the scheme are masked
+  bearer: { pattern: /(?<=\bbearer )[\w.~+/-]+=*/gi },
+  jwt: { pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g },
+  email: { pattern: /(?<![\w%+.-])[\w%+.-]+@(?:[\dA-Za-z-]+\.)+[A-Za-z]{2,}/g },
+  // E.164: a plus sign and up to 15 digits, without separators
+  phone: { pattern: /(?<![\w+])\+[1-9]\d{7,14}(?!\d)/g },
+  card: {
+    pattern: /(?<![\d+])[2-6](?:[ -]?\d){12,18}(?!\d)/g,
+    validate: (match) => isLuhnValid(match.replaceAll(/\D/g, '')),
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[\dA-Z]{4}){2,7}(?: ?[\dA-Z]{1,3})?\b/g,
+    validate: isIbanValid,
+  },
+  ipv4: {
+    pattern: /(?<![\w.])(?:\d{1,3}\.){3}\d{1,3}(?!\.?\d)/g,
+    validate: (match) => isIPv4(match),
+  },
+  ipv6: {
+    pattern: /(?<![\w:])(?:[\dA-Fa-f]{0,4}:){2,7}[\dA-Fa-f]{0,4}(?![\w:])/g,
+    validate: (match) => isIPv6(match),
+  },
+};
+
+/**
+ * Create a redactor masking the values found by the enabled detectors
+ *
+ * Each detector keeps track of the time it spent in the redactor and is skipped
+ * once its budget is exhausted, so create one redactor per sanitized value.
+ *
+ * @param options Enabled detectors, budgets and mask
+ * @returns Function masking only the matched substrings of a string
+ */
+export function createPiiRedactor(options: PiiDetectionOptions): PiiRedactor {
+  const {
+    budgetMs = DEFAULT_PII_DETECTOR_BUDGET_MS,
+    budgets = {},
+    mask = DEFAULT_PII_MASK,
+  } = options;
+  const detectors = PII_DETECTOR_NAMES.filter((name) => options.detectors.includes(name)).map(
+    (name) => ({ ...PII_DETECTORS[name], remainingMs: budgets[name] ?? budgetMs }),
+  );
+
+  return (text) => {
+    let result = text;
+    for (const detector of detectors) {
+      if (detector.remainingMs <= 0) {
+        continue;
+      }
+
+      const start = performance.now();
+      const { validate } = detector;
+      result = result.replaceAll(detector.pattern, (match) =>
+        !validate || validate(match) ? mask : match,
+      );
+      detector.remainingMs -= performance.now() - start;
+    }
+    return result;
+  };
+}
+
+/**
+ * Check whether a value is an array or an object literal
+ */
+function isPlainContainer(value: object): boolean {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+/**
+ * Mask detected values in the strings of a value
+ *
+ * Strings in arrays and object literals are scanned, as are the message and stack
+ * of errors, which are copied with their prototype. Other class instances, such
+ * as requests and responses, are returned as they are.
+ *
+ * @param value Value to scan
+ * @param redactor Redactor created by createPiiRedactor
+ * @param maxDepth Maximum depth of nested objects to scan
+ * @returns Copy of the value with detected values masked
+ */
+export function redactPiiValues<T>(
+  value: T,
+  redactor: PiiRedactor,
+  maxDepth = DEFAULT_MAX_DEPTH,
+): T {
+  return redactValue(value, redactor, maxDepth) as T;
+}
+
+/**
+ * Recursively mask detected values, down to the given depth
+ */
+function redactValue(value: unknown, redactor: PiiRedactor, depth: number): unknown {
+  if (typeof value === 'string') {
+    return redactor(value);
+  }
+  if (!value || typeof value !== 'object' || depth < 0) {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    const error = Object.create(Object.getPrototypeOf(value) as object | null) as Error;
+    Object.assign(error, value, {
+      message: redactor(value.message),
+      ...(value.stack && { stack: redactor(value.stack) }),
+    });
+    return error;
+  }
+
+  if (!isPlainContainer(value)) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redactor, depth - 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redactValue(item, redactor, depth - 1);
+  }
+  return result;
+}
+
+/**
+ * Mask detected values in the strings of a value, with a budget for this value
+ * @param value Value to scan
+ * @param options Enabled detectors, budgets and mask
+ * @returns Copy of the value with detected values masked
+ */
+export function redactPii<T>(value: T, options: PiiDetectionOptions): T {
+  return redactPiiValues(value, createPiiRedactor(options));
+}
+
+/**
+ * Parse the detector configuration
+ *
+ * The detectors are a comma-separated list of names, each with an optional budget
+ * in milliseconds, e.g. `email,card,jwt:5`. An empty list or `none` disables detection.
+ *
+ * @param detectors Comma-separated detectors, e.g. from LOG_PII_DETECTORS
+ * @param budgetMs Default budget of a detector, e.g. from LOG_PII_DETECTOR_BUDGET_MS
+ * @returns Detection options, or undefined when no detector is enabled
+ */
+export function parsePiiDetectionOptions(
+  detectors: unknown,
+  budgetMs?: unknown,
+): PiiDetectionOptions | undefined {
+  if (typeof detectors !== 'string') {
+    return undefined;
+  }
+
+  const options: PiiDetectionOptions & { budgets: Partial<Record<PiiDetectorName, number>> } = {
+    detectors: [],
+    budgets: {},
+  };
+  const defaultBudget = Number(budgetMs);
+  if (budgetMs !== undefined && budgetMs !== '' && defaultBudget > 0) {
+    options.budgetMs = defaultBudget;
+  }
+
+  for (const item of detectors.split(',')) {
+    const [name, budget] = item.split(':').map((part) => part.trim());
+    if (!(PII_DETECTOR_NAMES as readonly string[]).includes(name)) {
+      continue;
+    }
+
+    options.detectors.push(name as PiiDetectorName);
+    if (budget && Number(budget) > 0) {
+      options.budgets[name as PiiDetectorName] = Number(budget);
+    }
+  }
+
+  return options.detectors.length > 0 ? options : undefined;
+}
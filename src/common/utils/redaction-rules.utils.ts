@@ -0,0 +1,291 @@
+/**
+ * Redaction rules shared by sanitizeObject and Pino's redact paths
+ */
+import {
+  applyMaskingStrategy,
+  MASKING_STRATEGY_TYPES,
+  MaskingContext,
+  MaskingStrategyConfig,
+  MaskingStrategyType,
+} from './masking-strategies.utils';
+
+/**
+ * How a redaction rule matches a key
+ *
+ * - `exact`: the whole key, ignoring case and separators (`apiKey` matches `api_key` and `API-KEY`)
+ * - `word`: consecutive words of the key, split on camelCase, `_`, `-` and digits
+ *   (`token` matches `refreshToken` but not `tokenizerVersion`)
+ * - `path`: a path glob from the root of the sanitized object, e.g. `user.*.ssn` or
+ *   `items[].card`; `*` matches one key and `[]` the elements of an array
+ */
+export type RedactionMatch = 'exact' | 'word' | 'path';
+
+/**
+ * Rule selecting keys to redact, or to keep when used as an allowlist exception
+ */
+export interface RedactionRule {
+  /**
+   * Key name, or path glob for path rules
+   */
+  pattern: string;
+
+  match: RedactionMatch;
+
+  /**
+   * How the value is masked, defaults to the full mask
+   */
+  strategy?: MaskingStrategyConfig;
+}
+
+/**
+ * Decides whether the value of a key is redacted
+ * @param key Key of the value
+ * @param path Path of the value from the root of the sanitized object, e.g. items[].card
+ */
+export type RedactionMatcher = (key: string, path: string) => boolean;
+
+/**
+ * Find the rule redacting the value of a key, if any
+ * @param key Key of the value
+ * @param path Path of the value from the root of the sanitized object, e.g. items[].card
+ */
+export type RedactionRuleMatcher = (key: string, path: string) => RedactionRule | undefined;
+
+/**
+ * Test of a compiled rule, given the words of a key, the words joined and the path
+ */
+type CompiledRuleTest = (keyWords: string[], joinedKey: string, path: string) => boolean;
+
+/**
+ * Words of a key: lowercase runs, capitalized words, acronyms and digit runs
+ */
+const KEY_WORD_PATTERN = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g;
+
+/**
+ * Characters with a special meaning in regular expressions
+ */
+const REGEXP_SPECIAL_CHARACTERS = /[$()*+.?[\\\]^{|}]/g;
+
+/**
+ * Keys that can be written as Pino redact paths without brackets
+ */
+const IDENTIFIER_PATTERN = /^[$A-Z_a-z][\w$]*$/;
+
+/**
+ * Split a key into lowercase words
+ * @example splitKeyWords('x-apiKey_2') // ['x', 'api', 'key', '2']
+ */
+export function splitKeyWords(key: string): string[] {
+  return (key.match(KEY_WORD_PATTERN) ?? []).map((word) => word.toLowerCase());
+}
+
+/**
+ * Check whether consecutive words of a key spell a pattern
+ */
+function containsWords(words: string[], pattern: string): boolean {
+  for (let start = 0; start < words.length; start++) {
+    let joined = '';
+    for (let end = start; end < words.length && joined.length < pattern.length; end++) {
+      joined += words[end];
+      if (joined === pattern) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Convert a path glob to an anchored regular expression
+ */
+function pathGlobToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('.')
+    .map((segment) =>
+      segment
+        .replaceAll(REGEXP_SPECIAL_CHARACTERS, String.raw`\$&`)
+        .replaceAll(String.raw`\*`, String.raw`[^.[\]]+`),
+    )
+    .join(String.raw`\.`);
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compile a rule into a test
+ */
+function compileRule(rule: RedactionRule): CompiledRuleTest {
+  if (rule.match === 'path') {
+    const pattern = pathGlobToRegExp(rule.pattern);
+    return (_keyWords, _joinedKey, path) => pattern.test(path);
+  }
+
+  const pattern = splitKeyWords(rule.pattern).join('');
+  if (rule.match === 'exact') {
+    return (_keyWords, joinedKey) => joinedKey === pattern;
+  }
+  return (keyWords) => containsWords(keyWords, pattern);
+}
+
+/**
+ * Compile rules into a single lookup, the last matching rule winning
+ */
+function compileRules(rules: RedactionRule[]): RedactionRuleMatcher {
+  const compiled = rules.map((rule) => ({ rule, test: compileRule(rule) })).reverse();
+
+  return (key, path) => {
+    const keyWords = splitKeyWords(key);
+    const joinedKey = keyWords.join('');
+    return compiled.find(({ test }) => test(keyWords, joinedKey, path))?.rule;
+  };
+}
+
+/**
+ * Create a lookup of the rule redacting a key, from redaction rules and allowlist exceptions
+ * When several rules match, the last one wins, so rules appended to REDACTION_RULES
+ * override the masking strategy of the default rules
+ * @param rules Rules selecting keys to redact
+ * @param allow Exceptions taking precedence over the rules
+ */
+export function createRedactionRuleMatcher(
+  rules: RedactionRule[],
+  allow: RedactionRule[] = [],
+): RedactionRuleMatcher {
+  const findRule = compileRules(rules);
+  const findException = compileRules(allow);
+  return (key, path) => (findException(key, path) ? undefined : findRule(key, path));
+}
+
+/**
+ * Create a matcher from redaction rules and allowlist exceptions
+ * Allowlisted keys and paths are never redacted, their values are still sanitized
+ * @param rules Rules selecting keys to redact
+ * @param allow Exceptions taking precedence over the rules
+ */
+export function createRedactionMatcher(
+  rules: RedactionRule[],
+  allow: RedactionRule[] = [],
+): RedactionMatcher {
+  const findRule = createRedactionRuleMatcher(rules, allow);
+  return (key, path) => findRule(key, path) !== undefined;
+}
+
+/**
+ * Append a key to a path
+ */
+export function appendPathKey(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Append the elements of an array to a path
+ */
+export function appendPathItems(path: string): string {
+  return `${path}[]`;
+}
+
+/**
+ * Write a path segment in Pino's redact syntax
+ */
+function toPinoSegment(segment: string, index: number): string {
+  const [, key, items] = /^(.*?)((?:\[])*)$/.exec(segment) ?? [segment, segment, ''];
+  const arrays = items.replaceAll('[]', '[*]');
+  if (key === '*' || IDENTIFIER_PATTERN.test(key)) {
+    return `${index > 0 ? '.' : ''}${key}${arrays}`;
+  }
+  return `[${JSON.stringify(key)}]${arrays}`;
+}
+
+/**
+ * Convert rules to Pino redact paths
+ *
+ * Pino matches paths case-sensitively and without word matching, so exact and word
+ * rules redact the key as written at the top level, one level down and in the
+ * request body. Path rules are converted as they are.
+ *
+ * @param rules Redaction rules
+ * @returns Paths for Pino's redact option
+ */
+export function toPinoRedactPaths(rules: RedactionRule[]): string[] {
+  const paths = rules.flatMap((rule) =>
+    rule.match === 'path'
+      ? [rule.pattern]
+      : [rule.pattern, `*.${rule.pattern}`, `req.body.${rule.pattern}`],
+  );
+
+  return [
+    ...new Set(
+      paths.map((path) =>
+        path
+          .split('.')
+          .map((segment, index) => toPinoSegment(segment, index))
+          .join(''),
+      ),
+    ),
+  ];
+}
+
+/**
+ * Create a Pino redact censor applying the strategies of the rules
+ * Values of rules without a strategy are replaced by the mask
+ * @param rules Redaction rules the redact paths were created from
+ * @param context Mask and pseudonymization key
+ * @returns Censor receiving the value and the path of a redacted key
+ */
+export function createRedactionCensor(
+  rules: RedactionRule[],
+  context: MaskingContext,
+): (value: unknown, path: string[]) => unknown {
+  if (!rules.some((rule) => rule.strategy)) {
+    return () => context.mask;
+  }
+
+  const findRule = createRedactionRuleMatcher(rules);
+  return (value, path) => {
+    // Wildcard paths can pass through symbol keys of Pino's log object
+    const segments = path.map(String);
+    const strategy = findRule(segments.at(-1) ?? '', segments.join('.'))?.strategy;
+    return strategy ? applyMaskingStrategy(value, strategy, context) : context.mask;
+  };
+}
+
+/**
+ * Check whether a configured strategy is valid
+ */
+function isMaskingStrategy(value: unknown): value is MaskingStrategyConfig {
+  const type =
+    typeof value === 'object' && value !== null ? (value as { type?: unknown }).type : value;
+  return MASKING_STRATEGY_TYPES.includes(type as MaskingStrategyType);
+}
+
+/**
+ * Parse masking rules from a JSON object of fields and strategies
+ *
+ * Field names become word rules, keys with `.`, `[]` or `*` path rules.
+ *
+ * @example parseMaskingRules('{"email":"email","cardNumber":{"type":"last","visible":4},"user.*.id":"hmac"}')
+ * @param value JSON object, e.g. from LOG_MASKING_STRATEGIES
+ * @returns Redaction rules with their strategies, empty when the value is missing or invalid
+ */
+export function parseMaskingRules(value: unknown): RedactionRule[] {
+  if (typeof value !== 'string' || !value.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return [];
+  }
+
+  return Object.entries(parsed)
+    .filter(([, strategy]) => isMaskingStrategy(strategy))
+    .map(([pattern, strategy]) => ({
+      pattern,
+      match: /[.*[]/.test(pattern) ? 'path' : 'word',
+      strategy: strategy as MaskingStrategyConfig,
+    }));
+}
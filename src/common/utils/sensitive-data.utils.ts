@@ -1,7 +1,33 @@
 /**
  * Unified utilities for handling sensitive data in logs and error responses
  */
-import { SENSITIVE_FIELDS } from '../constants/sensitive-fields.constants';
+import { EventEmitter } from 'node:events';
+import { IncomingMessage } from 'node:http';
+import { types } from 'node:util';
+
+import {
+  REDACTION_ALLOWLIST,
+  REDACTION_RULES,
+  SENSITIVE_FIELDS,
+} from '../constants/sensitive-fields.constants';
+
+import { applyMaskingStrategy, MaskingStrategyConfig } from './masking-strategies.utils';
+import { isPlainObject } from './object.utils';
+import { createPiiRedactor, PiiDetectionOptions, PiiRedactor } from './pii-detectors.utils';
+import {
+  appendPathItems,
+  appendPathKey,
+  createRedactionMatcher,
+  createRedactionRuleMatcher,
+  RedactionRule,
+  RedactionRuleMatcher,
+} from './redaction-rules.utils';
+import {
+  getDeclaredPropertyType,
+  getSensitiveProperties,
+  resolveSensitiveType,
+  SensitiveType,
+} from './sensitive.decorator';
 
 /**
  * Default mask for sensitive values
@@ -14,39 +40,107 @@ const DEFAULT_MASK = '[REDACTED]';
 const DEFAULT_MAX_DEPTH = 10;
 
 /**
- * Maximum depth for recursive sanitization to prevent stack overflow
+ * Default maximum number of values sanitized in one call
  */
-const MAX_SANITIZE_DEPTH = 10;
+const DEFAULT_MAX_NODES = 1000;
+
+/**
+ * Default maximum length of sanitized strings
+ */
+const DEFAULT_MAX_STRING_LENGTH = 10_000;
+
+/**
+ * Replaces a reference to an object containing it
+ */
+export const CIRCULAR_MARKER = '[Circular]';
+
+/**
+ * Replaces objects nested deeper than the maximum depth
+ */
+export const MAX_DEPTH_MARKER = '[MaxDepth]';
+
+/**
+ * Replaces the values left once the maximum number of values is sanitized
+ */
+export const TRUNCATED_MARKER = '[Truncated]';
+
+/**
+ * Objects returned by sanitizeObject, whose masking is final
+ */
+const sanitizedValues = new WeakSet<object>();
 
 /**
  * Options for sanitizing objects
  */
 export interface SanitizeOptions {
   /**
-   * Additional field names to consider sensitive
+   * Additional field names to consider sensitive, matched as words of a key
    */
   customSensitiveFields?: string[];
 
+  /**
+   * Redaction rules with their masking strategies, defaults to REDACTION_RULES
+   */
+  rules?: RedactionRule[];
+
+  /**
+   * Keys and paths never redacted, defaults to REDACTION_ALLOWLIST
+   */
+  allow?: RedactionRule[];
+
   /**
    * Custom mask value to replace sensitive data with
    */
   mask?: string;
 
+  /**
+   * Secret key of the hmac masking strategy
+   */
+  pseudonymizationKey?: string;
+
+  /**
+   * Detectors masking personal data and credentials inside string values
+   */
+  detectPii?: PiiDetectionOptions;
+
+  /**
+   * DTO class of a plain object, whose @Sensitive() properties are masked
+   * Class instances use the properties of their own class
+   */
+  type?: SensitiveType;
+
   /**
    * Maximum depth for recursive sanitization
-   * Used to prevent stack overflow on large circular objects
+   * Deeper objects are replaced by MAX_DEPTH_MARKER
    */
   maxDepth?: number;
 
+  /**
+   * Maximum number of values to sanitize, keeping large objects such as requests fast to log
+   * The remaining values of an array or object are replaced by a single TRUNCATED_MARKER
+   */
+  maxNodes?: number;
+
+  /**
+   * Maximum length of strings, longer strings are cut with a suffix giving the omitted length
+   */
+  maxStringLength?: number;
+
   /**
    * Current depth in the recursion
    * @internal Used internally - don't set this manually
    */
   currentDepth?: number;
 
+  /**
+   * Path of the object from the root of the sanitized value, matched by path rules
+   * @internal Used internally - don't set this manually
+   */
+  currentPath?: string;
+
   /**
    * Custom masking function to use for sensitive values
-   * If provided, this will be used instead of the mask string
+   * If provided, this will be used instead of the mask string and the masking strategies
    * @param value The original value to mask
    * @param key The key of the value being masked
    * @returns The masked value
@@ -55,7 +149,62 @@ export interface SanitizeOptions {
 }
 
 /**
- * Check if a field name contains a sensitive key
+ * Internal state of a sanitization
+ */
+interface SanitizeContext {
+  findRule: RedactionRuleMatcher;
+  mask: string;
+  pseudonymizationKey?: string;
+  maxDepth: number;
+  maxNodes: number;
+  maxStringLength: number;
+  maskFunction?: (value: unknown, key: string) => unknown;
+  redactPii?: PiiRedactor;
+  /**
+   * Depth of the sanitized value, whose event emitters are not summarized
+   */
+  rootDepth: number;
+  /**
+   * Objects being sanitized, from the root to the current value
+   */
+  ancestors: WeakSet<object>;
+  /**
+   * Number of values sanitized so far
+   */
+  nodes: number;
+}
+
+/**
+ * Matchers for the default rules, compiled once
+ */
+const defaultMatcher = createRedactionMatcher(REDACTION_RULES, REDACTION_ALLOWLIST);
+const defaultRuleMatcher = createRedactionRuleMatcher(REDACTION_RULES, REDACTION_ALLOWLIST);
+
+/**
+ * Create word rules from field names
+ */
+function toWordRules(fields: string[]): RedactionRule[] {
+  return fields.map((pattern) => ({ pattern, match: 'word' }));
+}
+
+/**
+ * Get the rule lookup for the rules of a sanitization
+ */
+function getRedactionRuleMatcher(options: SanitizeOptions): RedactionRuleMatcher {
+  const { customSensitiveFields = [], rules, allow } = options;
+  if (customSensitiveFields.length === 0 && !rules && !allow) {
+    return defaultRuleMatcher;
+  }
+
+  return createRedactionRuleMatcher(
+    [...(rules ?? REDACTION_RULES), ...toWordRules(customSensitiveFields)],
+    allow ?? REDACTION_ALLOWLIST,
+  );
+}
+
+/**
+ * Check if a field name contains a sensitive word
+ * Words are split on camelCase, `_` and `-`, so `pin` matches `userPin` but not `shipping`
  * @param key Field name to check
  * @param sensitiveFields List of sensitive field names to check against
  * @returns Boolean indicating if field is sensitive
@@ -64,27 +213,52 @@ export const isSensitiveField = (
   key: string,
   sensitiveFields: string[] = SENSITIVE_FIELDS,
 ): boolean => {
-  const lowerKey = key.toLowerCase();
-  return sensitiveFields.some((field) => lowerKey.includes(field.toLowerCase()));
+  const matcher =
+    sensitiveFields === SENSITIVE_FIELDS
+      ? defaultMatcher
+      : createRedactionMatcher(toWordRules(sensitiveFields), REDACTION_ALLOWLIST);
+  return matcher(key, key);
 };
 
+/**
+ * Count a sanitized value
+ * @returns Whether the value is within the maximum number of values
+ */
+function takeNode(context: SanitizeContext): boolean {
+  context.nodes += 1;
+  return context.nodes <= context.maxNodes;
+}
+
 /**
  * Creates a masked object with the same shape as the original
- * Preserves structure while masking all values
+ * Preserves structure while masking all values; other objects, circular references and
+ * values nested deeper than the maximum depth are masked as a whole
  */
-function createMaskedObjectWithSameShape(obj: Record<string, unknown>, mask: string): unknown {
-  if (Array.isArray(obj)) {
-    return obj.map(() => mask);
+function createMaskedObjectWithSameShape(
+  value: unknown,
+  depth: number,
+  context: SanitizeContext,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(() => context.mask);
+  }
+  if (!isPlainObject(value) || depth > context.maxDepth || context.ancestors.has(value)) {
+    return context.mask;
   }
 
+  context.ancestors.add(value);
   const result: Record<string, unknown> = {};
-  for (const key of Object.keys(obj)) {
-    const value = obj[key];
+  for (const [key, item] of Object.entries(value)) {
+    if (!takeNode(context)) {
+      result[key] = TRUNCATED_MARKER;
+      break;
+    }
     result[key] =
-      value && typeof value === 'object'
-        ? createMaskedObjectWithSameShape(value as Record<string, unknown>, mask)
-        : mask;
+      item && typeof item === 'object'
+        ? createMaskedObjectWithSameShape(item, depth + 1, context)
+        : context.mask;
   }
+  context.ancestors.delete(value);
 
   return result;
 }
@@ -94,114 +268,286 @@ function createMaskedObjectWithSameShape(obj: Record<string, unknown>, mask: str
  */
 function processSensitiveField(
   value: unknown,
-  mask: string,
-  maskFunction?: (value: unknown, key: string) => unknown,
-  key?: string,
+  key: string,
+  strategy: MaskingStrategyConfig | undefined,
+  depth: number,
+  context: SanitizeContext,
 ): unknown {
-  if (maskFunction) {
-    return maskFunction(value, key || '');
+  if (context.maskFunction) {
+    return context.maskFunction(value, key);
   }
 
-  if (Array.isArray(value)) {
-    return value.map(() => mask);
+  if (strategy) {
+    return applyMaskingStrategy(value, strategy, context);
   }
 
-  if (typeof value === 'object' && value !== null) {
-    return createMaskedObjectWithSameShape(value as Record<string, unknown>, mask);
+  if (value && typeof value === 'object') {
+    return createMaskedObjectWithSameShape(value, depth, context);
   }
 
-  return mask;
+  return context.mask;
 }
 
 /**
- * Recursively sanitize an object, masking sensitive fields
- * @param obj Object to sanitize
- * @param options Sanitization options
- * @returns Sanitized object with sensitive fields masked
+ * Mask detected values in a string and cut it to the maximum length
  */
-export function sanitizeObject<T>(obj: T, options: SanitizeOptions = {}): T {
-  const {
-    customSensitiveFields = [],
-    mask = DEFAULT_MASK,
-    maxDepth = DEFAULT_MAX_DEPTH,
-    currentDepth = 0,
-    maskFunction,
-  } = options;
+function sanitizeString(value: string, context: SanitizeContext): string {
+  const redacted = context.redactPii ? context.redactPii(value) : value;
+  if (redacted.length <= context.maxStringLength) {
+    return redacted;
+  }
+  const omitted = redacted.length - context.maxStringLength;
+  return `${redacted.slice(0, context.maxStringLength)}...[${omitted} more characters]`;
+}
 
-  // Prevent stack overflow with a max depth check
-  if (currentDepth > maxDepth) {
-    return obj;
+/**
+ * Get the name of the class of an object
+ */
+function getTypeName(value: object): string {
+  const constructor = (value as { constructor?: unknown }).constructor;
+  return typeof constructor === 'function' && constructor.name ? constructor.name : 'Object';
+}
+
+/**
+ * Convert a built-in object to the value sanitized in its place
+ * @returns The converted value, or undefined for other objects
+ */
+function convertBuiltIn(value: object): unknown {
+  if (types.isDate(value)) {
+    return new Date(value);
+  }
+  if (value instanceof URL || types.isRegExp(value)) {
+    return String(value);
+  }
+  if (types.isAnyArrayBuffer(value) || types.isArrayBufferView(value)) {
+    return `[${getTypeName(value)} ${value.byteLength} bytes]`;
   }
+  if (types.isMap(value)) {
+    return Object.fromEntries(Array.from(value, ([key, item]) => [String(key), item]));
+  }
+  if (types.isSet(value)) {
+    return [...value];
+  }
+  if (value instanceof Error || types.isNativeError(value)) {
+    return { ...value, name: value.name, message: value.message, stack: value.stack };
+  }
+  if (types.isPromise(value) || types.isWeakMap(value) || types.isWeakSet(value)) {
+    return `[${getTypeName(value)}]`;
+  }
+  return undefined;
+}
 
-  // Handle non-objects
-  if (!obj || typeof obj !== 'object') {
-    return obj;
+/**
+ * Get the fields of an HTTP request worth logging
+ * Headers and the Express query are getters of the request prototype, so they are read explicitly
+ */
+function toRequestFields(request: IncomingMessage): Record<string, unknown> {
+  const { originalUrl, params, query, body } = request as IncomingMessage &
+    Record<'originalUrl' | 'params' | 'query' | 'body', unknown>;
+  const fields: Record<string, unknown> = {
+    method: request.method,
+    url: originalUrl ?? request.url,
+    headers: request.headers,
+  };
+  for (const [key, value] of Object.entries({ params, query, body })) {
+    if (value !== undefined) {
+      fields[key] = value;
+    }
   }
+  return fields;
+}
 
-  // Combine default and custom sensitive fields
-  const sensitiveFields = [...SENSITIVE_FIELDS, ...customSensitiveFields];
+/**
+ * Convert an object to the value sanitized in its place, as JSON.stringify would
+ *
+ * - arrays and plain objects are kept
+ * - dates are kept; URLs and regular expressions become strings
+ * - buffers and typed arrays are summarized by their size, e.g. `[Buffer 12 bytes]`
+ * - maps become objects and sets arrays
+ * - errors keep their name, message and stack along with their own properties
+ * - objects with a toJSON method are replaced by its result
+ * - HTTP requests are reduced to their method, URL, headers, params, query and body
+ * - other event emitters nested in the value, e.g. the socket of a request, are summarized by class
+ * - other class instances, e.g. ORM entities, are reduced to their own enumerable properties
+ */
+function toSanitizableValue(value: object, nested: boolean, callToJSON = true): unknown {
+  if (Array.isArray(value) || isPlainObject(value)) {
+    return value;
+  }
+  const builtIn = convertBuiltIn(value);
+  if (builtIn !== undefined) {
+    return builtIn;
+  }
 
-  // Handle arrays with recursive sanitization
-  if (Array.isArray(obj)) {
-    return obj.map((item) =>
-      sanitizeObject(item, {
-        customSensitiveFields,
-        mask,
-        maxDepth,
-        currentDepth: currentDepth + 1,
-        maskFunction,
-      }),
-    ) as unknown as T;
-  }
-
-  return sanitizeObjectRecord(obj as Record<string, unknown>, sensitiveFields, {
-    customSensitiveFields,
-    mask,
-    maxDepth,
-    currentDepth,
-    maskFunction,
-  }) as T;
+  const { toJSON } = value as { toJSON?: unknown };
+  if (callToJSON && typeof toJSON === 'function') {
+    try {
+      const json: unknown = toJSON.call(value);
+      return json && typeof json === 'object' && json !== value
+        ? toSanitizableValue(json, nested, false)
+        : json;
+    } catch {
+      return `[${getTypeName(value)}]`;
+    }
+  }
+
+  if (value instanceof IncomingMessage) {
+    return toRequestFields(value);
+  }
+  if (nested && value instanceof EventEmitter) {
+    return `[${getTypeName(value)}]`;
+  }
+  return { ...value };
+}
+
+/**
+ * Sanitize the items of an array
+ */
+function sanitizeItems(
+  items: unknown[],
+  path: string,
+  depth: number,
+  context: SanitizeContext,
+): unknown[] {
+  const itemsPath = appendPathItems(path);
+  const result: unknown[] = [];
+  for (const item of items) {
+    if (!takeNode(context)) {
+      result.push(TRUNCATED_MARKER);
+      break;
+    }
+    result.push(sanitizeValue(item, itemsPath, depth + 1, context));
+  }
+  return result;
 }
 
 /**
- * Helper function to sanitize record objects
- * Extracted to reduce cognitive complexity
+ * Sanitize the values of an object, masking the values of redacted keys
+ * Properties marked with @Sensitive() on the type of the object take precedence over the rules
  */
-function sanitizeObjectRecord(
-  obj: Record<string, unknown>,
-  sensitiveFields: string[],
-  options: SanitizeOptions,
+function sanitizeEntries(
+  entries: Record<string, unknown>,
+  type: unknown,
+  path: string,
+  depth: number,
+  context: SanitizeContext,
 ): Record<string, unknown> {
+  const sensitiveProperties = getSensitiveProperties(type);
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(entries)) {
+    if (!takeNode(context)) {
+      result[key] = TRUNCATED_MARKER;
+      break;
+    }
+    const keyPath = appendPathKey(path, key);
+    const rule = sensitiveProperties?.[key] ?? context.findRule(key, keyPath);
+
+    result[key] = rule
+      ? processSensitiveField(value, key, rule.strategy, depth + 1, context)
+      : sanitizeValue(value, keyPath, depth + 1, context, getDeclaredPropertyType(type, key));
+  }
+  return result;
+}
+
+/**
+ * Recursively sanitize a value, masking the values of redacted keys and detected values in strings
+ */
+function sanitizeValue(
+  value: unknown,
+  path: string,
+  depth: number,
+  context: SanitizeContext,
+  declaredType?: unknown,
+): unknown {
+  if (typeof value === 'string') {
+    return sanitizeString(value, context);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (context.ancestors.has(value)) {
+    return CIRCULAR_MARKER;
+  }
+  if (depth > context.maxDepth) {
+    return MAX_DEPTH_MARKER;
+  }
+
+  const converted = toSanitizableValue(value, depth > context.rootDepth);
+  if (typeof converted === 'string') {
+    return sanitizeString(converted, context);
+  }
+  if (!Array.isArray(converted) && !isPlainObject(converted)) {
+    return converted;
+  }
+
+  context.ancestors.add(value);
+  const result = Array.isArray(converted)
+    ? sanitizeItems(converted, path, depth, context)
+    : sanitizeEntries(converted, resolveSensitiveType(value, declaredType), path, depth, context);
+  context.ancestors.delete(value);
+
+  return result;
+}
+
+/**
+ * Recursively sanitize an object, masking sensitive fields
+ * Keys are matched against REDACTION_RULES by word, exact key and path, and masked with
+ * the strategy of the matching rule; properties marked with @Sensitive() are masked with their own
+ * strategy; strings are scanned by the detectors of the detectPii option.
+ * Circular references are replaced by CIRCULAR_MARKER, built-in types and class instances are
+ * converted as described on toSanitizableValue, and the number of values and the length of
+ * strings are capped
+ * @param obj Object to sanitize
+ * @param options Sanitization options
+ * @returns Sanitized object with sensitive fields masked
+ */
+export function sanitizeObject<T>(obj: T, options: SanitizeOptions = {}): T {
   const {
-    customSensitiveFields = [],
     mask = DEFAULT_MASK,
-    maxDepth = MAX_SANITIZE_DEPTH,
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxNodes = DEFAULT_MAX_NODES,
+    maxStringLength = DEFAULT_MAX_STRING_LENGTH,
     currentDepth = 0,
+    currentPath = '',
     maskFunction,
+    detectPii,
+    pseudonymizationKey,
+    type,
   } = options;
 
-  const result = { ...obj };
-
-  for (const key of Object.keys(result)) {
-    // Check if this key contains any sensitive field name
-    const isSensitive = isSensitiveField(key, sensitiveFields);
-    const value = result[key];
-
-    if (isSensitive) {
-      result[key] = processSensitiveField(value, mask, maskFunction, key);
-    } else if (value && typeof value === 'object') {
-      // Recursively sanitize non-sensitive fields
-      result[key] = sanitizeObject(value, {
-        customSensitiveFields,
-        mask,
-        maxDepth,
-        currentDepth: currentDepth + 1,
-        maskFunction,
-      });
-    }
+  const sanitized = sanitizeValue(
+    obj,
+    currentPath,
+    currentDepth,
+    {
+      findRule: getRedactionRuleMatcher(options),
+      mask,
+      pseudonymizationKey,
+      maxDepth,
+      maxNodes,
+      maxStringLength,
+      maskFunction,
+      redactPii: detectPii && createPiiRedactor(detectPii),
+      rootDepth: currentDepth,
+      ancestors: new WeakSet(),
+      nodes: 0,
+    },
+    type,
+  );
+  if (sanitized && typeof sanitized === 'object') {
+    sanitizedValues.add(sanitized);
   }
+  return sanitized as T;
+}
 
-  return result;
+/**
+ * Check whether a value was returned by sanitizeObject
+ * Loggers leave such values as they are, so their masking strategies are not applied twice
+ * @param value Value to check
+ * @returns Whether the value is a sanitized object or array
+ */
+export function isSanitizedValue(value: unknown): value is object {
+  return !!value && typeof value === 'object' && sanitizedValues.has(value);
 }
 
 /**
@@ -214,27 +560,26 @@ function sanitizeObjectRecord(
  * @returns Sanitized object with sensitive fields masked
  */
 export function sanitizeObjectShallow<T>(obj: T, options: SanitizeOptions = {}): T {
-  const { customSensitiveFields = [], mask = DEFAULT_MASK, maskFunction } = options;
+  const { mask = DEFAULT_MASK, maskFunction, pseudonymizationKey } = options;
 
   // Handle non-objects
   if (!obj || typeof obj !== 'object') {
     return obj;
   }
 
-  // Combine default and custom sensitive fields
-  const sensitiveFields = [...SENSITIVE_FIELDS, ...customSensitiveFields];
+  const findRule = getRedactionRuleMatcher(options);
 
-  // Handle arrays - only sanitize strings
+  // Handle arrays - mask strings that name a sensitive field and the top level of objects
   if (Array.isArray(obj)) {
-    return obj.map((item) => {
-      const isSensitiveString =
-        typeof item === 'string' &&
-        sensitiveFields.some((field) => item.toLowerCase().includes(field.toLowerCase()));
-
-      if (isSensitiveString) {
+    return obj.map((item: unknown) => {
+      if (typeof item === 'string' && findRule(item, item)) {
         return maskFunction ? maskFunction(item, 'array-item') : mask;
       }
 
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        return sanitizeObjectShallow(item, options);
+      }
+
       return item;
     }) as unknown as T;
   }
@@ -243,14 +588,15 @@ export function sanitizeObjectShallow<T>(obj: T, options: SanitizeOptions = {}):
   const result = { ...obj } as Record<string, unknown>;
 
   for (const key of Object.keys(result)) {
-    // Check if this key contains any sensitive field name
-    const isSensitive = isSensitiveField(key, sensitiveFields);
-
-    if (isSensitive) {
+    const rule = findRule(key, key);
+    if (rule) {
       const value = result[key];
       if (maskFunction) {
         // Use custom masking function if provided
         result[key] = maskFunction(value, key);
+      } else if (rule.strategy && (value === null || typeof value !== 'object')) {
+        // Mask primitive values with the strategy of the rule
+        result[key] = applyMaskingStrategy(value, rule.strategy, { mask, pseudonymizationKey });
       } else if (Array.isArray(value)) {
         // Replace each array element with mask to preserve array structure
         result[key] = value.map(() => mask);
@@ -0,0 +1,130 @@
+/**
+ * Schema-driven redaction of DTO properties
+ */
+import 'reflect-metadata';
+
+import { MaskingStrategyConfig } from './masking-strategies.utils';
+import { isPlainObject } from './object.utils';
+
+/**
+ * Options of a sensitive property
+ */
+export interface SensitiveOptions {
+  /**
+   * How the value is masked, defaults to the full mask
+   */
+  strategy?: MaskingStrategyConfig;
+}
+
+/**
+ * Sensitive properties of a class, keyed by property name
+ */
+export type SensitiveProperties = Readonly<Record<string, SensitiveOptions>>;
+
+/**
+ * Metadata key for the sensitive properties of a class
+ */
+export const SENSITIVE_PROPERTIES_KEY = 'sanitize:sensitive-properties';
+
+/**
+ * Class of a DTO
+ */
+export type SensitiveType = abstract new (...args: never[]) => unknown;
+
+/**
+ * Classes bound to plain objects, e.g. request bodies validated as a DTO
+ */
+const boundTypes = new WeakMap<object, SensitiveType>();
+
+/**
+ * Mark a DTO property as sensitive, so sanitizeObject masks it whatever its name
+ *
+ * Applies to instances of the class, to plain objects sanitized with the class as `type` option
+ * and to nested objects whose property is declared with the class as type.
+ * GlobalValidationPipe binds request bodies to their DTO, see getBoundSensitiveType.
+ *
+ * @example
+ * ```typescript
+ * export class LoginDto {
+ *   @IsString()
+ *   @Sensitive()
+ *   password!: string;
+ *
+ *   @IsString()
+ *   @Sensitive({ strategy: 'last' })
+ *   deviceToken!: string;
+ * }
+ * ```
+ * @param options Masking strategy of the property
+ */
+export function Sensitive(options: SensitiveOptions = {}): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol): void => {
+    if (typeof propertyKey !== 'string') {
+      return;
+    }
+    // Copy the properties inherited from a parent class before adding this one
+    const properties = getSensitiveProperties(target.constructor) ?? {};
+    Reflect.defineMetadata(
+      SENSITIVE_PROPERTIES_KEY,
+      { ...properties, [propertyKey]: options },
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * Get the properties marked with @Sensitive() on a class and its parents
+ * @param type Class of a DTO
+ * @returns Sensitive properties, or undefined if the class has none
+ */
+export function getSensitiveProperties(type: unknown): SensitiveProperties | undefined {
+  if (typeof type !== 'function') {
+    return undefined;
+  }
+  return Reflect.getMetadata(SENSITIVE_PROPERTIES_KEY, type) as SensitiveProperties | undefined;
+}
+
+/**
+ * Bind a DTO class to a plain object, so loggers of the raw object can find its @Sensitive() properties
+ * @param value Plain object, e.g. a request body
+ * @param type Class the object was validated as
+ */
+export function bindSensitiveType(value: object, type: SensitiveType): void {
+  boundTypes.set(value, type);
+}
+
+/**
+ * Get the DTO class bound to a plain object with bindSensitiveType
+ * @param value Plain object, e.g. a request body
+ * @returns The class, to pass as `type` option of sanitizeObject, or undefined if none is bound
+ */
+export function getBoundSensitiveType(value: unknown): SensitiveType | undefined {
+  return value && typeof value === 'object' ? boundTypes.get(value) : undefined;
+}
+
+/**
+ * Get the class whose @Sensitive() properties apply to an object
+ * Class instances use their own class, plain objects their declared type
+ * @param value Object being sanitized
+ * @param declaredType Declared type of the object, if known
+ * @returns The class, or undefined for plain objects of unknown type
+ */
+export function resolveSensitiveType(value: object, declaredType?: unknown): unknown {
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return value.constructor;
+  }
+  return declaredType;
+}
+
+/**
+ * Get the declared type of a property, emitted by TypeScript for decorated properties
+ * @param type Class declaring the property
+ * @param propertyKey Property name
+ * @returns The declared class, or undefined if not emitted
+ */
+export function getDeclaredPropertyType(type: unknown, propertyKey: string): unknown {
+  if (typeof type !== 'function' || !type.prototype) {
+    return undefined;
+  }
+  return Reflect.getMetadata('design:type', type.prototype as object, propertyKey) as unknown;
+}
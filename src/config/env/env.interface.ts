@@ -62,6 +62,59 @@ export interface EnvironmentVariables {
   // Logging
   LOG_LEVEL: string;
   LOG_FORMAT: string;
+  LOG_TRANSPORTS?: string;
+  LOG_GCP_PROJECT_ID?: string;
+  LOG_LEVEL_ADMIN_ENABLED?: string;
+  LOG_SAMPLING_RULES?: string;
+  LOG_RATE_LIMIT_PER_SECOND?: number;
+  LOG_RATE_LIMIT_BURST?: number;
+  LOG_RATE_LIMIT_SUMMARY_INTERVAL_MS?: number;
+  LOG_CAPTURE_ENABLED?: string;
+  LOG_CAPTURE_MAX_ENTRIES?: number;
+  LOG_PII_DETECTORS?: string;
+  LOG_PII_DETECTOR_BUDGET_MS?: number;
+  LOG_MASKING_STRATEGIES?: string;
+  LOG_PSEUDONYMIZATION_KEY?: string;
+  LOG_PAYLOADS_ENABLED?: string;
+  LOG_PAYLOADS_MAX_BODY_LENGTH?: number;
+  LOG_PAYLOADS_CONTENT_TYPES?: string;
+  LOG_PAYLOADS_SAMPLE_RATE?: number;
+  LOG_PAYLOADS_EXCLUDE_ROUTES?: string;
+  LOG_SLOW_CALL_THRESHOLD_MS?: number;
+
+  // Error responses
+  ERROR_RESPONSE_FORMAT?: 'default' | 'problem';
+  ERROR_TYPE_BASE_URI?: string;
+  ERROR_DEDUP_WINDOW_MS?: number;
+  ERROR_DEDUP_THRESHOLD?: number;
+  ERROR_FINGERPRINT_MAX_ENTRIES?: number;
+
+  // Error reporting
+  ERROR_REPORTER_TRANSPORT?: 'none' | 'file' | 'http';
+  ERROR_REPORTER_FILE_PATH?: string;
+  ERROR_REPORTER_URL?: string;
+  ERROR_REPORTER_API_KEY?: string;
+  ERROR_REPORTER_BATCH_SIZE?: number;
+  ERROR_REPORTER_FLUSH_INTERVAL_MS?: number;
+  ERROR_REPORTER_MAX_QUEUE_SIZE?: number;
+
+  // Audit
+  AUDIT_STORE?: 'file' | 'memory';
+  AUDIT_LOG_PATH?: string;
+
+  // Tracing
+  TRACING_EXPORTER?: 'none' | 'console' | 'otlp' | 'memory';
+  TRACING_SAMPLE_RATIO?: number;
+  OTEL_SERVICE_NAME?: string;
+  OTEL_EXPORTER_OTLP_ENDPOINT?: string;
+
+  // Internal API
+  INTERNAL_API_ENABLED?: string;
+  INTERNAL_API_TOKEN?: string;
+
+  // Internationalization
+  I18N_DEFAULT_LOCALE?: string;
+  I18N_QUERY_PARAM?: string;
 
   // Security
   CORS_ORIGIN: string;
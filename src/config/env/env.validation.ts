@@ -1,17 +1,44 @@
-import { Transform, TransformFnParams } from 'class-transformer';
+import { plainToInstance, Transform, TransformFnParams } from 'class-transformer';
 import {
+  IsBooleanString,
   IsEnum,
+  IsIn,
   IsInt,
+  IsJSON,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsPositive,
   IsString,
+  IsUrl,
+  Matches,
   Max,
   Min,
+  ValidateIf,
+  validateSync,
+  ValidationError,
 } from 'class-validator';
 
 import { Environment } from './env.interface';
+import { IsLogTransports } from './log-transports.validation';
+
+/**
+ * Comma-separated PII detectors with optional budgets, e.g. email,card:5, or none
+ */
+const PII_DETECTOR = String.raw`(bearer|jwt|email|phone|card|iban|ipv4|ipv6)(:\d+)?`;
+const PII_DETECTORS_PATTERN = new RegExp(
+  String.raw`^(none|${PII_DETECTOR}(\s*,\s*${PII_DETECTOR})*)?$`,
+);
+
+/**
+ * Treat an empty value, e.g. `LOG_SAMPLING_RULES=` in .env, as unset so @IsOptional() skips it
+ * Reads the raw value, as implicit conversion turns an empty string into 0 for numbers
+ */
+function EmptyAsUndefined(): PropertyDecorator {
+  return Transform(({ value, obj, key }: TransformFnParams) =>
+    (obj as Record<string, unknown>)[key] === '' ? undefined : (value as unknown),
+  );
+}
 
 /**
  * Validation class for environment variables using class-validator
@@ -115,6 +142,198 @@ export class EnvironmentVariablesValidation {
   @IsNotEmpty()
   LOG_FORMAT!: string;
 
+  @IsLogTransports()
+  @IsOptional()
+  LOG_TRANSPORTS?: string;
+
+  @IsString()
+  @IsOptional()
+  LOG_GCP_PROJECT_ID?: string;
+
+  @IsBooleanString()
+  @IsOptional()
+  LOG_LEVEL_ADMIN_ENABLED?: string;
+
+  @EmptyAsUndefined()
+  @IsJSON()
+  @IsOptional()
+  LOG_SAMPLING_RULES?: string;
+
+  @EmptyAsUndefined()
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  LOG_RATE_LIMIT_PER_SECOND?: number;
+
+  @EmptyAsUndefined()
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  LOG_RATE_LIMIT_BURST?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  LOG_RATE_LIMIT_SUMMARY_INTERVAL_MS?: number;
+
+  @IsBooleanString()
+  @IsOptional()
+  LOG_CAPTURE_ENABLED?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  LOG_CAPTURE_MAX_ENTRIES?: number;
+
+  @Matches(PII_DETECTORS_PATTERN)
+  @IsOptional()
+  LOG_PII_DETECTORS?: string;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  LOG_PII_DETECTOR_BUDGET_MS?: number;
+
+  @EmptyAsUndefined()
+  @IsJSON()
+  @IsOptional()
+  LOG_MASKING_STRATEGIES?: string;
+
+  @IsString()
+  @IsOptional()
+  LOG_PSEUDONYMIZATION_KEY?: string;
+
+  @IsBooleanString()
+  @IsOptional()
+  LOG_PAYLOADS_ENABLED?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  LOG_PAYLOADS_MAX_BODY_LENGTH?: number;
+
+  @IsString()
+  @IsOptional()
+  LOG_PAYLOADS_CONTENT_TYPES?: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  LOG_PAYLOADS_SAMPLE_RATE?: number;
+
+  @IsString()
+  @IsOptional()
+  LOG_PAYLOADS_EXCLUDE_ROUTES?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  LOG_SLOW_CALL_THRESHOLD_MS?: number;
+
+  // Error responses
+  @IsIn(['default', 'problem'])
+  @IsOptional()
+  ERROR_RESPONSE_FORMAT?: 'default' | 'problem';
+
+  @IsString()
+  @IsOptional()
+  ERROR_TYPE_BASE_URI?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_DEDUP_WINDOW_MS?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_DEDUP_THRESHOLD?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_FINGERPRINT_MAX_ENTRIES?: number;
+
+  // Error reporting
+  @IsIn(['none', 'file', 'http'])
+  @IsOptional()
+  ERROR_REPORTER_TRANSPORT?: 'none' | 'file' | 'http';
+
+  @IsString()
+  @IsOptional()
+  ERROR_REPORTER_FILE_PATH?: string;
+
+  @ValidateIf((env: EnvironmentVariablesValidation) => env.ERROR_REPORTER_TRANSPORT === 'http')
+  @IsUrl({ require_tld: false })
+  ERROR_REPORTER_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  ERROR_REPORTER_API_KEY?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_REPORTER_BATCH_SIZE?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_REPORTER_FLUSH_INTERVAL_MS?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  ERROR_REPORTER_MAX_QUEUE_SIZE?: number;
+
+  // Audit
+  @IsIn(['file', 'memory'])
+  @IsOptional()
+  AUDIT_STORE?: 'file' | 'memory';
+
+  @IsString()
+  @IsOptional()
+  AUDIT_LOG_PATH?: string;
+
+  // Tracing
+  @IsIn(['none', 'console', 'otlp', 'memory'])
+  @IsOptional()
+  TRACING_EXPORTER?: 'none' | 'console' | 'otlp' | 'memory';
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  TRACING_SAMPLE_RATIO?: number;
+
+  @IsString()
+  @IsOptional()
+  OTEL_SERVICE_NAME?: string;
+
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  OTEL_EXPORTER_OTLP_ENDPOINT?: string;
+
+  // Internal API
+  @IsBooleanString()
+  @IsOptional()
+  INTERNAL_API_ENABLED?: string;
+
+  @ValidateIf((env: EnvironmentVariablesValidation) => env.INTERNAL_API_ENABLED === 'true')
+  @IsString()
+  @IsNotEmpty()
+  INTERNAL_API_TOKEN?: string;
+
+  // Internationalization
+  @IsString()
+  @IsOptional()
+  I18N_DEFAULT_LOCALE?: string;
+
+  @IsString()
+  @IsOptional()
+  I18N_QUERY_PARAM?: string;
+
   // Security
   @IsString()
   @IsNotEmpty()
@@ -132,3 +351,28 @@ export class EnvironmentVariablesValidation {
   @IsNotEmpty()
   RATE_LIMIT_MAX_REQUESTS!: number;
 }
+
+/**
+ * Validate environment configuration
+ * @param config - Environment variables object
+ * @returns Validated configuration object
+ */
+export function validateConfig(config: Record<string, unknown>): EnvironmentVariablesValidation {
+  const validatedConfig = plainToInstance(EnvironmentVariablesValidation, config, {
+    enableImplicitConversion: true,
+  });
+
+  const errors = validateSync(validatedConfig, {
+    skipMissingProperties: false,
+  });
+
+  if (errors.length > 0) {
+    const errorMessages = errors.map((error: ValidationError) => {
+      const constraints = error.constraints ? Object.values(error.constraints) : [];
+      return `${error.property}: ${constraints.join(', ')}`;
+    });
+    throw new Error(`Configuration validation failed: ${errorMessages.join('; ')}`);
+  }
+
+  return validatedConfig;
+}
@@ -0,0 +1,89 @@
+/**
+ * Log transport target types
+ */
+export const LOG_TRANSPORT_TYPES = ['stdout', 'file', 'syslog', 'http'] as const;
+
+export type LogTransportType = (typeof LOG_TRANSPORT_TYPES)[number];
+
+/**
+ * Options shared by all log transport targets
+ */
+interface BaseLogTransportConfig {
+  type: LogTransportType;
+
+  /**
+   * Minimum level written to this target, defaults to LOG_LEVEL
+   */
+  level?: string;
+}
+
+/**
+ * JSON lines (or pretty-printed lines) on standard output
+ */
+export interface StdoutLogTransportConfig extends BaseLogTransportConfig {
+  type: 'stdout';
+  pretty?: boolean;
+}
+
+/**
+ * Rotating log files
+ */
+export interface FileLogTransportConfig extends BaseLogTransportConfig {
+  type: 'file';
+
+  /**
+   * Base path of the log files; the rotation number and .log are appended
+   */
+  path: string;
+
+  /**
+   * Maximum file size before rotating, e.g. 10m (k, m and g units)
+   */
+  size?: string;
+
+  /**
+   * Additional time-based rotation
+   */
+  frequency?: 'daily' | 'hourly';
+
+  /**
+   * Number of rotated files kept
+   */
+  count?: number;
+
+  /**
+   * Whether rotated files are compressed with gzip
+   */
+  compress?: boolean;
+}
+
+/**
+ * RFC 5424 syslog messages over UDP or TCP
+ */
+export interface SyslogLogTransportConfig extends BaseLogTransportConfig {
+  type: 'syslog';
+  host: string;
+  port?: number;
+  protocol?: 'udp' | 'tcp';
+  facility?: number;
+  appName?: string;
+}
+
+/**
+ * Batches of NDJSON lines sent to an HTTP endpoint
+ */
+export interface HttpLogTransportConfig extends BaseLogTransportConfig {
+  type: 'http';
+  url: string;
+  headers?: Record<string, string>;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxQueueSize?: number;
+  timeoutMs?: number;
+}
+
+export type LogTransportConfig =
+  | StdoutLogTransportConfig
+  | FileLogTransportConfig
+  | SyslogLogTransportConfig
+  | HttpLogTransportConfig;
@@ -0,0 +1,215 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  registerDecorator,
+  validateSync,
+  ValidationError,
+  ValidationOptions,
+} from 'class-validator';
+import { levels } from 'pino';
+
+import {
+  LOG_TRANSPORT_TYPES,
+  LogTransportConfig,
+  LogTransportType,
+} from './log-transports.interface';
+
+/**
+ * File sizes accepted for rotation, e.g. 500k, 10m or 1g
+ */
+const FILE_SIZE_PATTERN = /^\d+[kmg]$/i;
+
+class LogTransportValidation {
+  @IsIn(LOG_TRANSPORT_TYPES)
+  type!: LogTransportType;
+
+  @IsIn(Object.keys(levels.values))
+  @IsOptional()
+  level?: string;
+}
+
+class StdoutLogTransportValidation extends LogTransportValidation {
+  @IsBoolean()
+  @IsOptional()
+  pretty?: boolean;
+}
+
+class FileLogTransportValidation extends LogTransportValidation {
+  @IsString()
+  @IsNotEmpty()
+  path!: string;
+
+  @Matches(FILE_SIZE_PATTERN, { message: 'size must be a number followed by k, m or g' })
+  @IsOptional()
+  size?: string;
+
+  @IsIn(['daily', 'hourly'])
+  @IsOptional()
+  frequency?: string;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  count?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  compress?: boolean;
+}
+
+class SyslogLogTransportValidation extends LogTransportValidation {
+  @IsString()
+  @IsNotEmpty()
+  host!: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(65_535)
+  @IsOptional()
+  port?: number;
+
+  @IsIn(['udp', 'tcp'])
+  @IsOptional()
+  protocol?: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  @IsOptional()
+  facility?: number;
+
+  @IsString()
+  @IsOptional()
+  appName?: string;
+}
+
+class HttpLogTransportValidation extends LogTransportValidation {
+  @IsUrl({ require_tld: false })
+  url!: string;
+
+  @IsObject()
+  @IsOptional()
+  headers?: Record<string, string>;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  batchSize?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  flushIntervalMs?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  maxQueueSize?: number;
+
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  timeoutMs?: number;
+}
+
+const VALIDATION_CLASSES: Record<LogTransportType, ClassConstructor<LogTransportValidation>> = {
+  stdout: StdoutLogTransportValidation,
+  file: FileLogTransportValidation,
+  syslog: SyslogLogTransportValidation,
+  http: HttpLogTransportValidation,
+};
+
+function isLogTransportType(value: unknown): value is LogTransportType {
+  return LOG_TRANSPORT_TYPES.includes(value as LogTransportType);
+}
+
+function formatErrors(index: number, errors: ValidationError[]): string[] {
+  return errors.flatMap((error) =>
+    Object.values(error.constraints ?? {}).map((message) => `LOG_TRANSPORTS[${index}]: ${message}`),
+  );
+}
+
+/**
+ * Parse and validate log transport targets
+ * @param value LOG_TRANSPORTS, as JSON or already parsed
+ * @returns Transport targets, empty when not configured
+ */
+export function parseLogTransports(value: unknown): LogTransportConfig[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  let targets: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      targets = JSON.parse(value);
+    } catch {
+      throw new TypeError('LOG_TRANSPORTS must be a JSON array');
+    }
+  }
+  if (!Array.isArray(targets)) {
+    throw new TypeError('LOG_TRANSPORTS must be a JSON array');
+  }
+
+  const messages = targets.flatMap((target: unknown, index) => {
+    const type = (target as { type?: unknown } | null)?.type;
+    if (!isLogTransportType(type)) {
+      return [`LOG_TRANSPORTS[${index}]: type must be one of ${LOG_TRANSPORT_TYPES.join(', ')}`];
+    }
+
+    const errors = validateSync(plainToInstance(VALIDATION_CLASSES[type], target), {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    return formatErrors(index, errors);
+  });
+
+  if (messages.length > 0) {
+    throw new TypeError(messages.join('; '));
+  }
+
+  return targets as LogTransportConfig[];
+}
+
+/**
+ * Validate that a property holds a JSON array of valid log transport targets
+ */
+export function IsLogTransports(validationOptions?: ValidationOptions): PropertyDecorator {
+  return (object: object, propertyName: string | symbol) => {
+    registerDecorator({
+      name: 'isLogTransports',
+      target: object.constructor,
+      propertyName: String(propertyName),
+      options: validationOptions,
+      validator: {
+        validate(value: unknown): boolean {
+          try {
+            parseLogTransports(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        defaultMessage(args): string {
+          try {
+            parseLogTransports(args?.value);
+            return '';
+          } catch (error) {
+            return (error as Error).message;
+          }
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,25 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+import { Sensitive } from '@/common/utils';
+
+/**
+ * Credentials of a login attempt
+ */
+export class LoginDto {
+  @IsString()
+  @IsNotEmpty()
+  username!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @Sensitive()
+  password!: string;
+
+  /**
+   * One-time token of a second factor, logged by its last characters only
+   */
+  @IsString()
+  @IsOptional()
+  @Sensitive({ strategy: { type: 'last', visible: 2 } })
+  token?: string;
+}
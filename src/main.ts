@@ -8,7 +8,10 @@ import {
   GlobalValidationPipe,
   ExceptionMapperService,
   ErrorLoggerService,
+  ErrorOccurrenceTracker,
+  ERROR_REPORTER,
 } from './common/exceptions';
+import { I18nService } from './common/i18n';
 import { CustomLoggerService } from './common/logger';
 
 /**
@@ -39,17 +42,32 @@ async function bootstrap(): Promise<void> {
   // Register global exception filter
   const httpAdapterHost = app.get(HttpAdapterHost);
 
-  // Use resolve() instead of get() for scoped providers
-  const logger = await app.resolve(CustomLoggerService);
-  const exceptionMapper = new ExceptionMapperService(configService);
+  const logger = app.get(CustomLoggerService);
+  const i18n = app.get(I18nService);
+  const exceptionMapper = app.get(ExceptionMapperService);
 
-  // Create error logger with the resolved logger instance
-  const errorLogger = new ErrorLoggerService(logger, configService);
+  // Create error logger with the application logger
+  const errorLogger = new ErrorLoggerService(
+    logger,
+    configService,
+    app.get(ErrorOccurrenceTracker),
+    app.get(ERROR_REPORTER),
+  );
 
   app.useGlobalFilters(
-    new AllExceptionsFilter(httpAdapterHost, configService, logger, exceptionMapper, errorLogger),
+    new AllExceptionsFilter(
+      httpAdapterHost,
+      configService,
+      logger,
+      exceptionMapper,
+      errorLogger,
+      i18n,
+    ),
   );
 
+  // Flush queued error reports when the process is asked to stop
+  app.enableShutdownHooks();
+
   // Get port from config
   const port = configService.get<number>('PORT', 3000);
 
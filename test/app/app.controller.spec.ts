@@ -1,12 +1,46 @@
+import { Writable } from 'node:stream';
+
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PinoLogger } from 'nestjs-pino';
+import pino, { LoggerOptions } from 'pino';
 
 import { AppController } from '../../src/app.controller';
 import { AppService } from '../../src/app.service';
+import { LoggerConfigService } from '../../src/common/logger/logger.config';
 import { CustomLoggerService } from '../../src/common/logger/logger.service';
+import { LoginDto } from '../../src/dto/login.dto';
 import { MockConfigModule } from '../utils/config-mocks';
 import { mockPinoLogger, mockCustomLoggerService, resetLoggerMocks } from '../utils/logger-mocks';
 
+/**
+ * Create a PinoLogger writing through the application's pino options, collecting the written lines
+ */
+function createPinoLogger(lines: Record<string, unknown>[]): PinoLogger {
+  const configService = {
+    get: jest.fn().mockImplementation((key: string) => ({ NODE_ENV: 'test' })[key]),
+  } as unknown as ConfigService;
+  const options = {
+    ...(new LoggerConfigService(configService).createLoggerOptions().pinoHttp as LoggerOptions),
+  };
+  delete options.transport;
+  const logger = pino(
+    options,
+    new Writable({
+      write(chunk: Buffer, _encoding, callback): void {
+        lines.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+        callback();
+      },
+    }),
+  );
+
+  return {
+    setContext: jest.fn(),
+    info: (object: unknown, message?: string) => logger.info(object, message),
+  } as unknown as PinoLogger;
+}
+
 describe('AppController', () => {
   let appController: AppController;
   let appService: AppService;
@@ -48,4 +82,23 @@ describe('AppController', () => {
       expect(appService.getHello).toHaveBeenCalled();
     });
   });
+
+  describe('login', () => {
+    it('should write the credentials masked by the @Sensitive() properties of LoginDto', () => {
+      const lines: Record<string, unknown>[] = [];
+      const controller = new AppController(appService, createPinoLogger(lines));
+      const credentials = Object.assign(new LoginDto(), {
+        username: 'user123',
+        password: 'secret',
+        token: '123456',
+      });
+
+      expect(() => controller.login(credentials)).toThrow(HttpException);
+      expect(lines[0]).toMatchObject({
+        msg: 'Login attempt received',
+        credentials: { username: 'user123', password: '[REDACTED]', token: '****56' },
+      });
+      expect(lines[1]).toMatchObject({ user: { username: 'user123' } });
+    });
+  });
 });
@@ -0,0 +1,325 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { CallHandler, ExecutionContext, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { lastValueFrom, NEVER, Observable, of, throwError } from 'rxjs';
+
+import {
+  Audit,
+  AuditEntry,
+  AuditInterceptor,
+  AuditOutcome,
+  AuditRecord,
+  AuditService,
+  canonicalJson,
+  FileAuditStore,
+  GENESIS_HASH,
+  InMemoryAuditStore,
+  verifyAuditChain,
+  verifyAuditFile,
+} from '../../src/common/audit';
+import { RequestContextService } from '../../src/common/context';
+import { DomainForbiddenException, ErrorCode } from '../../src/common/exceptions';
+
+function createRecord(action: string): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    actor: { type: 'user', id: '7' },
+    action,
+    target: { resource: 'User', id: '42' },
+    outcome: AuditOutcome.Success,
+  };
+}
+
+async function createChain(store: InMemoryAuditStore, length: number): Promise<AuditEntry[]> {
+  for (let index = 1; index <= length; index++) {
+    await store.append(createRecord(`user.action-${index}`));
+  }
+  return store.getEntries();
+}
+
+class UsersController {
+  @Audit({ action: 'user.update', resource: 'User' })
+  update(): void {}
+
+  list(): void {}
+}
+
+function createExecutionContext(handler: () => void, request: Partial<Request>): ExecutionContext {
+  return {
+    getHandler: () => handler,
+    getClass: () => UsersController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function createCallHandler(result: Observable<unknown>): CallHandler {
+  return { handle: () => result };
+}
+
+/**
+ * Wait for recordings started after the handler completed
+ */
+function waitForNextTick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('Audit', () => {
+  describe('hash chain', () => {
+    let store: InMemoryAuditStore;
+
+    beforeEach(() => {
+      store = new InMemoryAuditStore();
+    });
+
+    it('should link every entry to its predecessor', async () => {
+      const entries = await createChain(store, 3);
+
+      expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+      expect(entries[0].previousHash).toBe(GENESIS_HASH);
+      expect(entries[2].previousHash).toBe(entries[1].hash);
+      expect(await store.verify()).toEqual({
+        valid: true,
+        entries: 3,
+        lastHash: entries[2].hash,
+      });
+    });
+
+    it('should sort keys the same way whatever the locale', () => {
+      // Locales order these keys differently, e.g. et_EE sorts z after s and lt_LT y after i
+      expect(canonicalJson({ z: 1, y: 2, t: 3, s: 4, i: 5, a: 6, B: 7, _id: 8 })).toBe(
+        '{"B":7,"_id":8,"a":6,"i":5,"s":4,"t":3,"y":2,"z":1}',
+      );
+    });
+
+    it('should detect modified, removed and reordered entries', async () => {
+      const entries = await createChain(store, 3);
+
+      const modified = entries.map((entry) => ({ ...entry }));
+      modified[1].actor = { type: 'user', id: '8' };
+      expect(verifyAuditChain(modified)).toEqual(
+        expect.objectContaining({
+          valid: false,
+          entries: 1,
+          error: { sequence: 2, reason: 'Entry hash does not match its content' },
+        }),
+      );
+
+      expect(verifyAuditChain([entries[0], entries[2]]).error).toEqual({
+        sequence: 2,
+        reason: 'Expected sequence 2, found 3',
+      });
+      expect(verifyAuditChain([entries[1], entries[0]]).error?.sequence).toBe(1);
+    });
+  });
+
+  describe('FileAuditStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'audit-'));
+      filePath = path.join(directory, 'nested', 'audit.ndjson');
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should continue the chain across restarts', async () => {
+      const first = new FileAuditStore(filePath);
+      await Promise.all([first.append(createRecord('a')), first.append(createRecord('b'))]);
+      await first.close();
+
+      const second = new FileAuditStore(filePath);
+      // Dates are hashed as the strings they are stored as
+      const entry = await second.append({ ...createRecord('c'), params: { at: new Date() } });
+      await second.close();
+
+      expect(entry.sequence).toBe(3);
+      expect(await verifyAuditFile(filePath)).toEqual(
+        expect.objectContaining({ valid: true, entries: 3, lastHash: entry.hash }),
+      );
+    });
+
+    it('should detect tampering in the file', async () => {
+      const store = new FileAuditStore(filePath);
+      for (const action of ['a', 'b', 'c']) await store.append(createRecord(action));
+      await store.close();
+
+      const lines = readFileSync(filePath, 'utf8').split('\n');
+      writeFileSync(filePath, lines.join('\n').replace('"action":"b"', '"action":"x"'));
+      expect(await verifyAuditFile(filePath)).toEqual(
+        expect.objectContaining({ valid: false, entries: 1, error: expect.anything() as object }),
+      );
+
+      writeFileSync(filePath, [lines[0], '{broken', lines[2]].join('\n'));
+      const result = await verifyAuditFile(filePath);
+      expect(result.error).toEqual({ sequence: 2, reason: 'Line 2 is not valid JSON' });
+    });
+
+    it('should detect entries removed from the end against the recorded head', async () => {
+      const first = new FileAuditStore(filePath);
+      for (const action of ['a', 'b', 'c']) await first.append(createRecord(action));
+      await first.close();
+
+      const lines = readFileSync(filePath, 'utf8').split('\n');
+      writeFileSync(filePath, `${lines.slice(0, 2).join('\n')}\n`);
+      expect(await verifyAuditFile(filePath)).toEqual(
+        expect.objectContaining({
+          valid: false,
+          entries: 2,
+          error: { sequence: 3, reason: 'Expected 3 entries as recorded in the head, found 2' },
+        }),
+      );
+
+      // The chain continues after the recorded head, so the gap stays visible
+      const second = new FileAuditStore(filePath);
+      const entry = await second.append(createRecord('d'));
+      await second.close();
+      const result = await verifyAuditFile(filePath);
+      expect(entry.sequence).toBe(4);
+      expect(result.error).toEqual({ sequence: 3, reason: 'Expected sequence 3, found 4' });
+    });
+  });
+
+  describe('AuditService', () => {
+    let store: InMemoryAuditStore;
+    let requestContext: RequestContextService;
+    let audit: AuditService;
+
+    beforeEach(() => {
+      store = new InMemoryAuditStore();
+      requestContext = new RequestContextService();
+      audit = new AuditService(store, requestContext);
+    });
+
+    it('should record the request actor, correlation ID and sanitized parameters', async () => {
+      const request = { ip: '127.0.0.1', headers: { 'user-agent': 'jest' } } as unknown as Request;
+
+      const entry = await requestContext.run(
+        { correlationId: 'corr-1', user: { id: 7 }, request },
+        () =>
+          audit.record({
+            action: 'user.update',
+            resource: 'User',
+            resourceId: 42,
+            outcome: AuditOutcome.Success,
+            params: { body: { name: 'Ada', password: 'hunter2' } },
+          }),
+      );
+
+      expect(entry).toEqual(
+        expect.objectContaining({
+          actor: { type: 'user', id: '7', ip: '127.0.0.1', userAgent: 'jest' },
+          action: 'user.update',
+          target: { resource: 'User', id: '42' },
+          correlationId: 'corr-1',
+          params: { body: { name: 'Ada', password: '[REDACTED]' } },
+        }),
+      );
+      expect(entry.errorCode).toBeUndefined();
+    });
+
+    it('should record the ErrorCode of failures and the system actor outside requests', async () => {
+      const forbidden = await audit.record({
+        action: 'user.delete',
+        resource: 'User',
+        outcome: AuditOutcome.Failure,
+        error: new DomainForbiddenException(),
+      });
+      const unexpected = await audit.record({
+        action: 'user.delete',
+        resource: 'User',
+        outcome: AuditOutcome.Failure,
+        error: new Error('boom'),
+      });
+
+      expect(forbidden.actor).toEqual({ type: 'system' });
+      expect(forbidden.errorCode).toBe(ErrorCode.FORBIDDEN);
+      expect(unexpected.errorCode).toBe(ErrorCode.INTERNAL_SERVER_ERROR);
+    });
+  });
+
+  describe('@Audit', () => {
+    let store: InMemoryAuditStore;
+    let interceptor: AuditInterceptor;
+    const request = { params: { id: '42' }, body: { name: 'Ada' }, query: {}, headers: {} };
+
+    beforeEach(() => {
+      store = new InMemoryAuditStore();
+      interceptor = new AuditInterceptor(
+        new Reflector(),
+        new AuditService(store, new RequestContextService()),
+      );
+    });
+
+    it('should record successful calls of audited handlers', async () => {
+      const context = createExecutionContext(UsersController.prototype.update, request);
+
+      await lastValueFrom(interceptor.intercept(context, createCallHandler(of('ok'))));
+      await waitForNextTick();
+
+      expect(store.getEntries()).toEqual([
+        expect.objectContaining({
+          action: 'user.update',
+          target: { resource: 'User', id: '42' },
+          outcome: AuditOutcome.Success,
+          params: { params: { id: '42' }, body: { name: 'Ada' } },
+        }),
+      ]);
+    });
+
+    it('should record failures with their ErrorCode and rethrow', async () => {
+      const context = createExecutionContext(UsersController.prototype.update, request);
+      const handler = createCallHandler(throwError(() => new DomainForbiddenException()));
+
+      await expect(lastValueFrom(interceptor.intercept(context, handler))).rejects.toThrow(
+        DomainForbiddenException,
+      );
+      await waitForNextTick();
+
+      expect(store.getEntries()[0]).toEqual(
+        expect.objectContaining({ outcome: AuditOutcome.Failure, errorCode: ErrorCode.FORBIDDEN }),
+      );
+    });
+
+    it('should record calls the client unsubscribed from once, as aborted', async () => {
+      const context = createExecutionContext(UsersController.prototype.update, request);
+
+      const subscription = interceptor.intercept(context, createCallHandler(NEVER)).subscribe();
+      subscription.unsubscribe();
+      await waitForNextTick();
+
+      expect(store.getEntries()).toEqual([
+        expect.objectContaining({ action: 'user.update', outcome: AuditOutcome.Aborted }),
+      ]);
+    });
+
+    it('should ignore handlers without @Audit and not fail when recording fails', async () => {
+      await lastValueFrom(
+        interceptor.intercept(
+          createExecutionContext(UsersController.prototype.list, request),
+          createCallHandler(of('ok')),
+        ),
+      );
+      expect(store.getEntries()).toHaveLength(0);
+
+      const errorLog = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+      jest.spyOn(store, 'append').mockRejectedValue(new Error('disk full'));
+      await lastValueFrom(
+        interceptor.intercept(
+          createExecutionContext(UsersController.prototype.update, request),
+          createCallHandler(of('ok')),
+        ),
+      );
+      await waitForNextTick();
+
+      expect(errorLog).toHaveBeenCalledWith(expect.stringContaining('disk full'));
+      errorLog.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import 'reflect-metadata';
+import { readFileSync } from 'node:fs';
+
+import { validateConfig } from '../../src/config/env/env.validation';
+
+/**
+ * Read the variables of an env file, as `KEY=value` lines
+ */
+function readEnvFile(path: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    const trimmed = line.trim();
+    const separator = trimmed.indexOf('=');
+    if (trimmed && !trimmed.startsWith('#') && separator > 0) {
+      variables[trimmed.slice(0, separator)] = trimmed.slice(separator + 1).trim();
+    }
+  }
+  return variables;
+}
+
+describe('validateConfig', () => {
+  const example = readEnvFile('.env.example');
+
+  it('should accept .env.example as shipped', () => {
+    expect(() => validateConfig(example)).not.toThrow();
+  });
+
+  it('should treat empty optional values as unset', () => {
+    const config = validateConfig({
+      ...example,
+      LOG_SAMPLING_RULES: '',
+      LOG_RATE_LIMIT_PER_SECOND: '',
+      LOG_RATE_LIMIT_BURST: '',
+      LOG_MASKING_STRATEGIES: '',
+    });
+
+    expect(config.LOG_SAMPLING_RULES).toBeUndefined();
+    expect(config.LOG_RATE_LIMIT_PER_SECOND).toBeUndefined();
+    expect(config.LOG_RATE_LIMIT_BURST).toBeUndefined();
+    expect(config.LOG_MASKING_STRATEGIES).toBeUndefined();
+    expect(() => validateConfig({ ...example, LOG_RATE_LIMIT_BURST: '0' })).toThrow(
+      'LOG_RATE_LIMIT_BURST must be a positive number',
+    );
+  });
+
+  it('should require an internal API token when the internal API is enabled', () => {
+    expect(() =>
+      validateConfig({ ...example, INTERNAL_API_ENABLED: 'true', INTERNAL_API_TOKEN: '' }),
+    ).toThrow('INTERNAL_API_TOKEN should not be empty');
+    expect(() =>
+      validateConfig({ ...example, INTERNAL_API_ENABLED: 'true', INTERNAL_API_TOKEN: 'secret' }),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { PinoLogger } from 'nestjs-pino';
+
+import { RequestContextMiddleware, RequestContextService } from '../../src/common/context';
+import { CustomLoggerService } from '../../src/common/logger';
+import { mockPinoLogger, resetLoggerMocks } from '../utils/logger-mocks';
+
+function waitForNextTick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function readCorrelationIdLater(
+  requestContext: RequestContextService,
+  correlationId: string,
+): Promise<string | undefined> {
+  return requestContext.run({ correlationId }, async () => {
+    await waitForNextTick();
+    return requestContext.getCorrelationId();
+  });
+}
+
+function readLogContext(requestContext: RequestContextService): () => Record<string, unknown> {
+  return () => requestContext.getLogContext();
+}
+
+describe('Request context', () => {
+  let requestContext: RequestContextService;
+
+  beforeEach(() => {
+    resetLoggerMocks();
+    requestContext = new RequestContextService();
+  });
+
+  describe('RequestContextService', () => {
+    it('should have no context outside run()', () => {
+      expect(requestContext.getContext()).toBeUndefined();
+      expect(requestContext.getLogContext()).toEqual({});
+
+      requestContext.bind({ ignored: true });
+      expect(requestContext.getContext()).toBeUndefined();
+    });
+
+    it('should keep the context across asynchronous calls', async () => {
+      const result = await requestContext.run({ correlationId: 'corr-1' }, async () => {
+        requestContext.setTenantId('acme');
+        await waitForNextTick();
+        requestContext.bind({ orderId: 'order-9' });
+        await waitForNextTick();
+        return requestContext.getLogContext();
+      });
+
+      expect(result).toEqual({ correlationId: 'corr-1', tenantId: 'acme', orderId: 'order-9' });
+    });
+
+    it('should isolate concurrent executions', async () => {
+      const correlationIds = await Promise.all([
+        readCorrelationIdLater(requestContext, 'first'),
+        readCorrelationIdLater(requestContext, 'second'),
+      ]);
+
+      expect(correlationIds).toEqual(['first', 'second']);
+    });
+
+    it('should generate a correlation ID and inherit values in nested contexts', () => {
+      const [outer, inner] = requestContext.run(
+        { tenantId: 'acme', bindings: { job: 'sync' } },
+        () => [
+          requestContext.getCorrelationId(),
+          requestContext.run({ bindings: { step: 'fetch' } }, readLogContext(requestContext)),
+        ],
+      );
+
+      expect(outer).toEqual(expect.any(String));
+      expect(inner).toEqual({ correlationId: outer, tenantId: 'acme', step: 'fetch' });
+    });
+  });
+
+  describe('RequestContextMiddleware', () => {
+    it('should run the request in a context with correlation ID, tenant and user', () => {
+      const middleware = new RequestContextMiddleware(requestContext);
+      const request = {
+        correlationId: 'corr-2',
+        headers: { 'x-tenant-id': 'acme' },
+      } as unknown as Request & { user?: unknown };
+      let logContext: Record<string, unknown> = {};
+
+      middleware.use(request, {} as Response, () => {
+        // Populated later by an authentication guard
+        request.user = { id: 7 };
+        logContext = requestContext.getLogContext();
+      });
+
+      expect(logContext).toEqual({ correlationId: 'corr-2', tenantId: 'acme', userId: 7 });
+    });
+  });
+
+  describe('CustomLoggerService', () => {
+    it('should add the current context to log lines as a singleton', () => {
+      const logger = new CustomLoggerService(
+        mockPinoLogger as unknown as PinoLogger,
+        requestContext,
+      );
+
+      requestContext.run({ correlationId: 'corr-3', bindings: { orderId: 'order-1' } }, () => {
+        logger.log('Placing order', { step: 'validate' });
+      });
+      logger.warn('Outside request');
+
+      expect(mockPinoLogger.info).toHaveBeenCalledWith(
+        { correlationId: 'corr-3', orderId: 'order-1', step: 'validate' },
+        'Placing order',
+      );
+      expect(mockPinoLogger.warn).toHaveBeenCalledWith({}, 'Outside request');
+    });
+  });
+});
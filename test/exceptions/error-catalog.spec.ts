@@ -0,0 +1,116 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  ERROR_CATALOG,
+  ErrorCatalogController,
+  ErrorCategory,
+  ErrorCode,
+  ExceptionMapperService,
+  ExternalServiceException,
+  ResourceNotFoundException,
+  getDefaultErrorCodeForStatus,
+} from '../../src/common/exceptions';
+
+describe('Error catalog', () => {
+  it('should describe every error code', () => {
+    for (const code of Object.values(ErrorCode)) {
+      expect(ERROR_CATALOG[code]).toEqual(expect.objectContaining({ code }));
+    }
+  });
+
+  it('should match the category segment of each error code', () => {
+    const categoryPrefixes: Record<ErrorCategory, string> = {
+      [ErrorCategory.Validation]: 'E01',
+      [ErrorCategory.Authentication]: 'E02',
+      [ErrorCategory.Authorization]: 'E03',
+      [ErrorCategory.Resource]: 'E04',
+      [ErrorCategory.BusinessLogic]: 'E05',
+      [ErrorCategory.ExternalService]: 'E06',
+      [ErrorCategory.System]: 'E99',
+    };
+
+    for (const metadata of Object.values(ERROR_CATALOG)) {
+      expect(metadata.code.startsWith(categoryPrefixes[metadata.category])).toBe(true);
+    }
+  });
+
+  it('should define at most one default error code per HTTP status', () => {
+    const statuses = Object.values(ERROR_CATALOG)
+      .filter((metadata) => metadata.defaultForStatus)
+      .map((metadata) => metadata.httpStatus);
+
+    expect(new Set(statuses).size).toBe(statuses.length);
+  });
+
+  it('should derive status defaults from the catalog', () => {
+    expect(getDefaultErrorCodeForStatus(HttpStatus.BAD_REQUEST)).toBe(ErrorCode.INVALID_INPUT);
+    expect(getDefaultErrorCodeForStatus(HttpStatus.SERVICE_UNAVAILABLE)).toBe(
+      ErrorCode.SERVICE_UNAVAILABLE,
+    );
+    expect(getDefaultErrorCodeForStatus(HttpStatus.I_AM_A_TEAPOT)).toBe(
+      ErrorCode.INTERNAL_SERVER_ERROR,
+    );
+  });
+
+  it('should keep internal server error as the default for other 5xx statuses', () => {
+    for (const status of [
+      HttpStatus.NOT_IMPLEMENTED,
+      HttpStatus.BAD_GATEWAY,
+      HttpStatus.GATEWAY_TIMEOUT,
+    ]) {
+      expect(getDefaultErrorCodeForStatus(status)).toBe(ErrorCode.INTERNAL_SERVER_ERROR);
+    }
+  });
+
+  it('should drive domain exception defaults', () => {
+    const notFound = new ResourceNotFoundException();
+    const external = new ExternalServiceException();
+
+    expect(notFound.message).toBe(ERROR_CATALOG[ErrorCode.RESOURCE_NOT_FOUND].message);
+    expect(notFound.getStatus()).toBe(HttpStatus.NOT_FOUND);
+    expect(external.message).toBe('External service error');
+    expect(external.getStatus()).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+    expect(
+      new ExternalServiceException(
+        undefined,
+        undefined,
+        undefined,
+        ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE,
+      ).getStatus(),
+    ).toBe(HttpStatus.SERVICE_UNAVAILABLE);
+  });
+});
+
+describe('ErrorCatalogController', () => {
+  let controller: ErrorCatalogController;
+
+  beforeEach(() => {
+    const configService = { get: jest.fn() } as unknown as ConfigService;
+    controller = new ErrorCatalogController(new ExceptionMapperService(configService));
+  });
+
+  it('should list the whole catalog with type URIs', () => {
+    const catalog = controller.getCatalog();
+
+    expect(catalog).toHaveLength(Object.keys(ERROR_CATALOG).length);
+    expect(catalog).toContainEqual(
+      expect.objectContaining({
+        code: ErrorCode.RESOURCE_NOT_FOUND,
+        httpStatus: HttpStatus.NOT_FOUND,
+        category: ErrorCategory.Resource,
+        retryable: false,
+        docSlug: 'resource-not-found',
+        type: '/errors/resource-not-found',
+      }),
+    );
+  });
+
+  it('should return a single entry by slug', () => {
+    expect(controller.getEntry('service-unavailable').code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+  });
+
+  it('should throw ResourceNotFoundException for unknown slugs', () => {
+    expect(() => controller.getEntry('does-not-exist')).toThrow(ResourceNotFoundException);
+  });
+});
@@ -0,0 +1,227 @@
+import { ExecutionContext, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import {
+  DomainUnauthorizedException,
+  ErrorLoggerService,
+  ErrorOccurrenceTracker,
+  ExternalServiceException,
+  HttpResponse,
+  ResourceNotFoundException,
+  normalizeRoute,
+  normalizeStack,
+} from '../../src/common/exceptions';
+import { InternalApiGuard } from '../../src/common/guards';
+import { CustomLoggerService } from '../../src/common/logger';
+import { mockCustomLoggerService, resetLoggerMocks } from '../utils/logger-mocks';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+function createExecutionContext(headers: Record<string, string> = {}): ExecutionContext {
+  return {
+    switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+  } as unknown as ExecutionContext;
+}
+
+function createRequest(url: string): Request {
+  return {
+    url,
+    method: 'GET',
+    headers: {},
+    query: {},
+    route: { path: '/users/:id' },
+  } as unknown as Request;
+}
+
+function createResponse(correlationId: string): HttpResponse {
+  return {
+    status: 'error',
+    statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+    message: 'External service error',
+    errorCode: 'E06001',
+    correlationId,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+describe('ErrorLoggerService', () => {
+  let tracker: ErrorOccurrenceTracker;
+  let errorLogger: ErrorLoggerService;
+
+  beforeEach(() => {
+    resetLoggerMocks();
+    const configService = createConfigService({
+      NODE_ENV: 'test',
+      ERROR_DEDUP_WINDOW_MS: 1000,
+      ERROR_DEDUP_THRESHOLD: 2,
+    });
+    tracker = new ErrorOccurrenceTracker(configService);
+    errorLogger = new ErrorLoggerService(
+      mockCustomLoggerService as unknown as CustomLoggerService,
+      configService,
+      tracker,
+    );
+  });
+
+  afterEach(() => {
+    tracker.onModuleDestroy();
+  });
+
+  it('should include the fingerprint and occurrence count in the log context', () => {
+    errorLogger.logException(
+      new ExternalServiceException(),
+      createResponse('corr-1'),
+      createRequest('/users/1'),
+    );
+
+    const context = mockCustomLoggerService.error.mock.calls[0][2];
+    expect(context.fingerprint).toMatch(/^[\da-f]{16}$/);
+    expect(context.occurrences).toBe(1);
+  });
+
+  it('should suppress repeated occurrences and summarize them', () => {
+    const exception = new ExternalServiceException();
+
+    for (let index = 0; index < 5; index++) {
+      errorLogger.logException(
+        exception,
+        createResponse(`corr-${index}`),
+        createRequest('/users/1'),
+      );
+    }
+
+    expect(mockCustomLoggerService.error).toHaveBeenCalledTimes(2);
+
+    tracker.flushSummaries(Date.now() + 1000);
+
+    expect(mockCustomLoggerService.error).toHaveBeenCalledTimes(3);
+    const [message, , context] = mockCustomLoggerService.error.mock.calls[2];
+    expect(message).toContain('3 more occurrences');
+    expect(context.suppressedCount).toBe(3);
+  });
+
+  it('should report top fingerprints with counts and a sample correlation ID', () => {
+    errorLogger.logException(
+      new ExternalServiceException(),
+      createResponse('corr-a'),
+      createRequest('/users/1'),
+    );
+    errorLogger.logException(
+      new ExternalServiceException(),
+      createResponse('corr-b'),
+      createRequest('/users/2'),
+    );
+    errorLogger.logException(
+      new ResourceNotFoundException(),
+      { ...createResponse('corr-c'), statusCode: HttpStatus.NOT_FOUND, errorCode: 'E04001' },
+      createRequest('/users/3'),
+    );
+
+    const [top, second] = tracker.getTopFingerprints();
+    expect(top).toEqual(
+      expect.objectContaining({ count: 2, route: '/users/:id', sampleCorrelationId: 'corr-b' }),
+    );
+    expect(top.firstSeen <= top.lastSeen).toBe(true);
+    expect(second.count).toBe(1);
+  });
+
+  it('should mask detected values in the message, request and error details', () => {
+    const piiLogger = new ErrorLoggerService(
+      mockCustomLoggerService as unknown as CustomLoggerService,
+      createConfigService({ NODE_ENV: 'test', LOG_PII_DETECTORS: 'email,bearer' }),
+    );
+    const request = {
+      ...createRequest('/users'),
+      method: 'POST',
+      headers: { 'x-original-header': 'Bearer abc123' },
+      query: { q: 'jane@example.com' },
+      body: { note: 'Contact jane@example.com' },
+    } as unknown as Request;
+
+    piiLogger.logException(
+      new Error('No user jane@example.com'),
+      { ...createResponse('corr-1'), message: 'No user jane@example.com' },
+      request,
+    );
+
+    const [message, , context] = mockCustomLoggerService.error.mock.calls[0];
+    expect(message).toBe('Error: No user [REDACTED] [503]');
+    expect(context.headers).toEqual({ 'x-original-header': 'Bearer [REDACTED]' });
+    expect(context.query).toEqual({ q: '[REDACTED]' });
+    expect(context.body).toEqual({ note: 'Contact [REDACTED]' });
+    expect(context.error.message).toBe('No user [REDACTED]');
+    expect(context.error.stack).not.toContain('jane@example.com');
+  });
+
+  it('should store the masked message in the fingerprint stats', () => {
+    const configService = createConfigService({ NODE_ENV: 'test', LOG_PII_DETECTORS: 'email' });
+    const piiTracker = new ErrorOccurrenceTracker(configService);
+    const piiLogger = new ErrorLoggerService(
+      mockCustomLoggerService as unknown as CustomLoggerService,
+      configService,
+      piiTracker,
+    );
+
+    piiLogger.logException(
+      new Error('No user jane@example.com'),
+      { ...createResponse('corr-1'), message: 'No user jane@example.com' },
+      createRequest('/users/1'),
+    );
+
+    const [stats] = piiTracker.getTopFingerprints();
+    piiTracker.onModuleDestroy();
+    expect(stats.message).toBe('No user [REDACTED]');
+  });
+});
+
+describe('error fingerprint normalization', () => {
+  it('should strip identifiers and query strings from routes', () => {
+    expect(
+      normalizeRoute('/users/42/orders/3f2504e0-4f89-11d3-9a0c-0305e82c3301?expand=true'),
+    ).toBe('/users/:id/orders/:id');
+  });
+
+  it('should strip directories and line numbers from stack frames', () => {
+    const stack = [
+      'Error: User 42 not found',
+      '    at UsersService.find (/app/dist/users/users.service.js:42:13)',
+      '    at async UsersController.get (/app/dist/users/users.controller.js:10:5)',
+    ].join('\n');
+
+    expect(normalizeStack(stack)).toBe(
+      'at UsersService.find users.service.js\nat async UsersController.get users.controller.js',
+    );
+  });
+});
+
+describe('InternalApiGuard', () => {
+  it('should hide internal endpoints unless enabled', () => {
+    const guard = new InternalApiGuard(createConfigService());
+
+    expect(() => guard.canActivate(createExecutionContext())).toThrow(ResourceNotFoundException);
+  });
+
+  it('should reject every request when no token is configured', () => {
+    const guard = new InternalApiGuard(createConfigService({ INTERNAL_API_ENABLED: 'true' }));
+
+    expect(() => guard.canActivate(createExecutionContext())).toThrow(DomainUnauthorizedException);
+  });
+
+  it('should require the configured token', () => {
+    const guard = new InternalApiGuard(
+      createConfigService({ INTERNAL_API_ENABLED: 'true', INTERNAL_API_TOKEN: 'secret-token' }),
+    );
+
+    expect(() =>
+      guard.canActivate(createExecutionContext({ 'x-internal-token': 'wrong' })),
+    ).toThrow(DomainUnauthorizedException);
+    expect(guard.canActivate(createExecutionContext({ 'x-internal-token': 'secret-token' }))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import {
+  addBreadcrumb,
+  createErrorReporter,
+  ErrorLoggerService,
+  ErrorReport,
+  ErrorReporter,
+  ExternalServiceException,
+  FileErrorReporter,
+  HttpErrorReporter,
+  HttpResponse,
+  NoopErrorReporter,
+} from '../../src/common/exceptions';
+import { CustomLoggerService } from '../../src/common/logger';
+import { mockCustomLoggerService, resetLoggerMocks } from '../utils/logger-mocks';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+function createReport(message = 'External service error'): ErrorReport {
+  return {
+    timestamp: new Date().toISOString(),
+    message,
+    fingerprint: 'abc',
+    statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+    tags: { route: '/users/:id' },
+    breadcrumbs: [],
+  };
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => resolve(body));
+  });
+}
+
+/**
+ * Local stand-in for an error tracker recording received batches
+ */
+class StandInTracker {
+  readonly batches: ErrorReport[][] = [];
+  readonly authorizations: Array<string | undefined> = [];
+  status = 200;
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        this.authorizations.push(request.headers.authorization);
+        if (this.status === 200) {
+          this.batches.push((JSON.parse(body) as { reports: ErrorReport[] }).reports);
+        }
+        response.writeHead(this.status).end();
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/reports`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+describe('Error reporting', () => {
+  describe('ErrorLoggerService', () => {
+    let reporter: jest.Mocked<ErrorReporter>;
+    let errorLogger: ErrorLoggerService;
+
+    beforeEach(() => {
+      resetLoggerMocks();
+      reporter = { report: jest.fn(), flush: jest.fn(), close: jest.fn() };
+      errorLogger = new ErrorLoggerService(
+        mockCustomLoggerService as unknown as CustomLoggerService,
+        createConfigService({ NODE_ENV: 'production' }),
+        undefined,
+        reporter,
+      );
+    });
+
+    it('should report server errors with tags, user, breadcrumbs and sanitized request', () => {
+      const request = {
+        url: '/users/42?token=secret',
+        method: 'POST',
+        headers: { authorization: 'Bearer secret', 'user-agent': 'jest' },
+        query: { token: 'secret' },
+        body: { password: 'hunter2', name: 'Ada' },
+        route: { path: '/users/:id' },
+        user: { id: 7 },
+      } as unknown as Request;
+      addBreadcrumb(request, { category: 'http', message: 'GET payments' });
+      const response: HttpResponse = {
+        status: 'error',
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        message: 'External service error',
+        errorCode: 'E06001',
+        correlationId: 'corr-1',
+        timestamp: new Date().toISOString(),
+      };
+
+      errorLogger.logException(new ExternalServiceException(), response, request);
+
+      expect(reporter.report).toHaveBeenCalledTimes(1);
+      const [report] = reporter.report.mock.calls[0];
+      expect(report.tags).toEqual({
+        route: '/users/:id',
+        statusCode: '503',
+        transport: 'http',
+        errorCode: 'E06001',
+        user: '7',
+      });
+      expect(report.user).toEqual({ id: '7' });
+      expect(report.environment).toBe('production');
+      expect(report.exception?.stack).toBeDefined();
+      expect(report.breadcrumbs).toEqual([
+        expect.objectContaining({ category: 'http', message: 'GET payments' }),
+      ]);
+      expect(report.request?.headers?.authorization).toBe('[REDACTED]');
+      expect(report.request?.body?.password).toBe('[REDACTED]');
+      expect(report.request?.body?.name).toBe('Ada');
+    });
+
+    it('should not report client errors', () => {
+      errorLogger.logException(new Error('Not found'), {
+        status: 'error',
+        statusCode: HttpStatus.NOT_FOUND,
+        message: 'Not found',
+        timestamp: new Date().toISOString(),
+      });
+
+      expect(reporter.report).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when the reporter throws', () => {
+      reporter.report.mockImplementation(() => {
+        throw new Error('reporter down');
+      });
+
+      expect(() =>
+        errorLogger.logException(new Error('boom'), {
+          status: 'error',
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Internal server error',
+          timestamp: new Date().toISOString(),
+        }),
+      ).not.toThrow();
+      expect(mockCustomLoggerService.warn).toHaveBeenCalledWith(
+        'Failed to report error',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('createErrorReporter', () => {
+    it('should default to the no-op reporter', () => {
+      expect(createErrorReporter(createConfigService())).toBeInstanceOf(NoopErrorReporter);
+    });
+
+    it('should require a URL for the http transport', () => {
+      expect(() =>
+        createErrorReporter(createConfigService({ ERROR_REPORTER_TRANSPORT: 'http' })),
+      ).toThrow('ERROR_REPORTER_URL');
+    });
+  });
+
+  describe('FileErrorReporter', () => {
+    it('should append reports as NDJSON', async () => {
+      const directory = mkdtempSync(path.join(tmpdir(), 'error-reports-'));
+      const reporter = new FileErrorReporter(path.join(directory, 'nested', 'errors.ndjson'));
+
+      reporter.report(createReport('first'));
+      reporter.report(createReport('second'));
+      await reporter.close();
+
+      const lines = readFileSync(reporter.filePath, 'utf8').trim().split('\n');
+      expect(lines.map((line) => (JSON.parse(line) as ErrorReport).message)).toEqual([
+        'first',
+        'second',
+      ]);
+      rmSync(directory, { recursive: true, force: true });
+    });
+  });
+
+  describe('HttpErrorReporter', () => {
+    let tracker: StandInTracker;
+
+    beforeEach(async () => {
+      tracker = new StandInTracker();
+      await tracker.listen();
+    });
+
+    afterEach(async () => {
+      await tracker.close();
+    });
+
+    it('should send reports in batches', async () => {
+      const reporter = new HttpErrorReporter({ url: tracker.url, apiKey: 'key', batchSize: 2 });
+
+      for (let index = 0; index < 5; index++) reporter.report(createReport(`error-${index}`));
+      await reporter.close();
+
+      expect(tracker.batches.map((batch) => batch.length)).toEqual([2, 2, 1]);
+      expect(tracker.authorizations).toEqual(['Bearer key', 'Bearer key', 'Bearer key']);
+      expect(reporter.getStats()).toEqual(
+        expect.objectContaining({ queued: 0, sent: 5, dropped: 0 }),
+      );
+    });
+
+    it('should drop the oldest reports when the queue is full and retry failed batches', async () => {
+      const reporter = new HttpErrorReporter({ url: tracker.url, batchSize: 20, maxQueueSize: 10 });
+      tracker.status = 503;
+
+      for (let index = 0; index < 12; index++) reporter.report(createReport(`error-${index}`));
+      await reporter.flush();
+
+      expect(reporter.getStats()).toEqual(
+        expect.objectContaining({ queued: 10, sent: 0, dropped: 2, failedRequests: 1 }),
+      );
+
+      tracker.status = 200;
+      await reporter.close();
+
+      expect(tracker.batches).toHaveLength(1);
+      expect(tracker.batches[0]).toHaveLength(10);
+      expect(tracker.batches[0][0].message).toBe('error-2');
+      expect(tracker.batches[0].at(-1)?.message).toBe('error-11');
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { HttpAdapterHost } from '@nestjs/core';
 import { Test, TestingModule } from '@nestjs/testing';
 import { Request, Response } from 'express';
+import { firstValueFrom, Observable } from 'rxjs';
 
 import {
   AllExceptionsFilter,
@@ -12,17 +13,20 @@ import {
   ValidationException,
   ExceptionMapperService,
   ErrorLoggerService,
+  GraphQLErrorResponse,
+  PROBLEM_JSON_CONTENT_TYPE,
+  WS_EXCEPTION_EVENT,
 } from '../../src/common/exceptions';
 import { CustomLoggerService } from '../../src/common/logger';
 import { sanitizeObject } from '../../src/common/utils';
 
 // Create mock ArgumentsHost outside the describe block
-function createMockArgumentsHost(): ArgumentsHost {
+function createMockArgumentsHost(headers: Record<string, string> = {}): ArgumentsHost {
   const mockRequest = {
     url: '/test',
     method: 'GET',
     ip: '127.0.0.1',
-    headers: {},
+    headers,
     correlationId: 'test-correlation-id',
   } as unknown as Request;
 
@@ -44,6 +48,29 @@ function createMockArgumentsHost(): ArgumentsHost {
   } as unknown as ArgumentsHost;
 }
 
+// Create a mock ArgumentsHost for non-HTTP transports
+function createTransportArgumentsHost(
+  type: string,
+  overrides: Partial<Record<'client' | 'rpcContext' | 'args', unknown>> = {},
+): ArgumentsHost {
+  const args = (overrides.args as unknown[]) ?? [];
+  return {
+    getType: () => type,
+    getArgs: () => args,
+    getArgByIndex: (index: number) => args[index],
+    switchToHttp: () => ({}) as any,
+    switchToWs: () => ({
+      getClient: () => overrides.client,
+      getData: () => ({}),
+      getPattern: () => 'messages:create',
+    }),
+    switchToRpc: () => ({
+      getContext: () => overrides.rpcContext,
+      getData: () => ({}),
+    }),
+  } as unknown as ArgumentsHost;
+}
+
 describe('AllExceptionsFilter', () => {
   let filter: AllExceptionsFilter;
   let httpAdapter: any;
@@ -56,6 +83,7 @@ describe('AllExceptionsFilter', () => {
     // Mock the HTTP adapter
     httpAdapter = {
       reply: jest.fn(),
+      setHeader: jest.fn(),
     };
 
     // Mock the logger
@@ -112,6 +140,15 @@ describe('AllExceptionsFilter', () => {
 
         return response;
       }),
+      toProblemDetails: jest.fn().mockImplementation((response, instance) => ({
+        type: `/errors/${response.errorCode}`,
+        title: 'Problem',
+        status: response.statusCode,
+        detail: response.message,
+        instance,
+        errorCode: response.errorCode,
+        correlationId: response.correlationId,
+      })),
     };
 
     // Mock error logger
@@ -285,4 +322,167 @@ describe('AllExceptionsFilter', () => {
     expect(response.data.user.token).toBe('[REDACTED]');
     expect(response.data.user.email).toBe('[REDACTED]');
   });
+
+  it('should set the Retry-After header when a retry delay is known', () => {
+    const host = createMockArgumentsHost();
+    (exceptionMapper.mapExceptionToResponse as jest.Mock).mockReturnValueOnce({
+      status: 'error',
+      statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+      message: 'Service unavailable',
+      errorCode: ErrorCode.SERVICE_UNAVAILABLE,
+      retryable: true,
+      retryAfter: 30,
+      timestamp: new Date().toISOString(),
+    });
+
+    filter.catch(new Error('down'), host);
+
+    expect(httpAdapter.setHeader).toHaveBeenCalledWith(expect.anything(), 'Retry-After', '30');
+    expect(httpAdapter.reply.mock.calls[0][1]).toEqual(
+      expect.objectContaining({ retryable: true, retryAfter: 30 }),
+    );
+  });
+
+  it('should not set the Retry-After header without a retry delay', () => {
+    filter.catch(new ResourceNotFoundException(), createMockArgumentsHost());
+
+    expect(httpAdapter.setHeader).not.toHaveBeenCalled();
+  });
+
+  describe('problem details negotiation', () => {
+    it('should reply with problem details when the Accept header requests them', () => {
+      const host = createMockArgumentsHost({ accept: PROBLEM_JSON_CONTENT_TYPE });
+      const exception = new ResourceNotFoundException('Resource not found');
+
+      filter.catch(exception, host);
+
+      expect(httpAdapter.setHeader).toHaveBeenCalledWith(
+        expect.anything(),
+        'Content-Type',
+        PROBLEM_JSON_CONTENT_TYPE,
+      );
+      const [, body, status] = httpAdapter.reply.mock.calls[0];
+      expect(status).toBe(HttpStatus.NOT_FOUND);
+      expect(body.status).toBe(HttpStatus.NOT_FOUND);
+      expect(body.detail).toBe('Resource not found');
+      expect(body.instance).toBe('/test');
+      expect(body.correlationId).toBe('test-correlation-id');
+      expect(errorLogger.logException).toHaveBeenCalled();
+    });
+
+    it('should keep the default format when plain JSON is preferred', () => {
+      const host = createMockArgumentsHost({
+        accept: `application/json, ${PROBLEM_JSON_CONTENT_TYPE};q=0.5`,
+      });
+
+      filter.catch(new ResourceNotFoundException(), host);
+
+      expect(httpAdapter.setHeader).not.toHaveBeenCalled();
+      expect(httpAdapter.reply.mock.calls[0][1].status).toBe('error');
+    });
+
+    it('should use problem details by default when configured, unless plain JSON is requested', async () => {
+      (configService.get as jest.Mock).mockImplementation((key: string) =>
+        key === 'ERROR_RESPONSE_FORMAT' ? 'problem' : undefined,
+      );
+      const module = await Test.createTestingModule({
+        providers: [
+          AllExceptionsFilter,
+          { provide: HttpAdapterHost, useValue: { httpAdapter } },
+          { provide: CustomLoggerService, useValue: logger },
+          { provide: ConfigService, useValue: configService },
+          { provide: ExceptionMapperService, useValue: exceptionMapper },
+          { provide: ErrorLoggerService, useValue: errorLogger },
+        ],
+      }).compile();
+
+      module.get(AllExceptionsFilter).catch(new Error('boom'), createMockArgumentsHost());
+
+      expect(httpAdapter.setHeader).toHaveBeenCalled();
+      expect(httpAdapter.reply.mock.calls[0][2]).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+      expect(httpAdapter.reply.mock.calls[0][1].errorCode).toBe(ErrorCode.INTERNAL_SERVER_ERROR);
+
+      module
+        .get(AllExceptionsFilter)
+        .catch(new Error('boom'), createMockArgumentsHost({ accept: 'application/json' }));
+
+      expect(httpAdapter.setHeader).toHaveBeenCalledTimes(1);
+      expect(httpAdapter.reply.mock.calls[1][1].status).toBe('error');
+    });
+  });
+
+  describe('non-HTTP transports', () => {
+    it('should emit an exception event to WebSocket clients', () => {
+      const client = { emit: jest.fn(), handshake: { headers: { 'x-correlation-id': 'ws-1' } } };
+      const host = createTransportArgumentsHost('ws', { client });
+
+      filter.catch(new ResourceNotFoundException('Room not found'), host);
+
+      expect(httpAdapter.reply).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith(
+        WS_EXCEPTION_EVENT,
+        expect.objectContaining({
+          statusCode: HttpStatus.NOT_FOUND,
+          errorCode: ErrorCode.RESOURCE_NOT_FOUND,
+          message: 'Room not found',
+          correlationId: 'ws-1',
+        }),
+      );
+      expect(errorLogger.logException).toHaveBeenCalledWith(
+        expect.any(ResourceNotFoundException),
+        expect.anything(),
+        undefined,
+        { transport: 'ws', route: 'messages:create' },
+      );
+    });
+
+    it('should return an RPC error payload', async () => {
+      const host = createTransportArgumentsHost('rpc', {
+        rpcContext: { getPattern: () => 'orders.create' },
+      });
+
+      const result = filter.catch(new Error('boom'), host) as Observable<never>;
+
+      await expect(firstValueFrom(result)).rejects.toEqual(
+        expect.objectContaining({
+          status: 'error',
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          errorCode: ErrorCode.INTERNAL_SERVER_ERROR,
+        }),
+      );
+      expect(errorLogger.logException).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.anything(),
+        undefined,
+        { transport: 'rpc', route: 'orders.create' },
+      );
+    });
+
+    it('should return a GraphQL error with extensions', () => {
+      const request = { correlationId: 'gql-1', headers: {}, query: {} };
+      const info = { fieldName: 'user', parentType: { name: 'Query' } };
+      const host = createTransportArgumentsHost('graphql', {
+        args: [{}, {}, { req: request }, info],
+      });
+
+      const result = filter.catch(new ResourceNotFoundException('User not found'), host);
+
+      expect(result).toBeInstanceOf(GraphQLErrorResponse);
+      const error = result as GraphQLErrorResponse;
+      expect(error.message).toBe('User not found');
+      expect(error.extensions).toEqual(
+        expect.objectContaining({
+          code: ErrorCode.RESOURCE_NOT_FOUND,
+          statusCode: HttpStatus.NOT_FOUND,
+          correlationId: 'gql-1',
+        }),
+      );
+      expect(errorLogger.logException).toHaveBeenCalledWith(
+        expect.any(ResourceNotFoundException),
+        expect.anything(),
+        undefined,
+        { transport: 'graphql', route: 'Query.user' },
+      );
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { HttpException, HttpStatus, Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+
+import {
+  ErrorCode,
+  ExceptionMapper,
+  ExceptionMapperPriority,
+  ExceptionMapperRegistry,
+  ExceptionMapperService,
+  ExceptionsModule,
+  HttpResponse,
+  ResourceNotFoundException,
+} from '../../src/common/exceptions';
+import { MockConfigModule } from '../utils/config-mocks';
+
+class QueryFailedError extends Error {
+  constructor(readonly code: string) {
+    super('duplicate key value violates unique constraint');
+  }
+}
+
+@Injectable()
+class QueryFailedErrorMapper implements ExceptionMapper<QueryFailedError> {
+  readonly priority = ExceptionMapperPriority.HTTP_EXCEPTION + 50;
+
+  canMap(exception: unknown): exception is QueryFailedError {
+    return exception instanceof QueryFailedError;
+  }
+
+  map(exception: QueryFailedError, errorResponse: HttpResponse): void {
+    if (exception.code === '23505') {
+      errorResponse.statusCode = HttpStatus.CONFLICT;
+      errorResponse.errorCode = ErrorCode.RESOURCE_ALREADY_EXISTS;
+      errorResponse.message = 'Resource already exists';
+    }
+  }
+}
+
+@Module({
+  imports: [ExceptionsModule.forFeature([QueryFailedErrorMapper])],
+})
+class PersistenceModule {}
+
+describe('ExceptionMapperRegistry', () => {
+  it('should resolve the built-in mappers in priority order', () => {
+    const registry = new ExceptionMapperRegistry();
+
+    expect(registry.getMappers().map((mapper) => mapper.priority)).toEqual([
+      ExceptionMapperPriority.BASE_EXCEPTION,
+      ExceptionMapperPriority.HTTP_EXCEPTION,
+      ExceptionMapperPriority.VALIDATION_ERROR,
+      ExceptionMapperPriority.UNKNOWN,
+    ]);
+    expect(registry.resolve(new ResourceNotFoundException()).priority).toBe(
+      ExceptionMapperPriority.BASE_EXCEPTION,
+    );
+    expect(registry.resolve(new HttpException('Gone', HttpStatus.GONE)).priority).toBe(
+      ExceptionMapperPriority.HTTP_EXCEPTION,
+    );
+    expect(registry.resolve({ errors: {} }).priority).toBe(
+      ExceptionMapperPriority.VALIDATION_ERROR,
+    );
+    expect(registry.resolve('boom').priority).toBe(ExceptionMapperPriority.UNKNOWN);
+  });
+
+  it('should keep registration order for equal priorities', () => {
+    const registry = new ExceptionMapperRegistry();
+    const first = new QueryFailedErrorMapper();
+    const second = new QueryFailedErrorMapper();
+
+    registry.register(first);
+    registry.register(second);
+
+    expect(registry.resolve(new QueryFailedError('23505'))).toBe(first);
+  });
+
+  it('should apply mappers contributed by feature modules', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MockConfigModule, ExceptionsModule, PersistenceModule],
+    }).compile();
+
+    const response = module
+      .get(ExceptionMapperService)
+      .mapExceptionToResponse(new QueryFailedError('23505'), 'corr-1');
+
+    expect(response.statusCode).toBe(HttpStatus.CONFLICT);
+    expect(response.errorCode).toBe(ErrorCode.RESOURCE_ALREADY_EXISTS);
+    expect(response.correlationId).toBe('corr-1');
+  });
+});
@@ -0,0 +1,185 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  DomainUnauthorizedException,
+  ErrorCode,
+  ExceptionMapperService,
+  ExternalServiceException,
+  ResourceNotFoundException,
+  RetryBackoff,
+  ValidationException,
+} from '../../src/common/exceptions';
+import { I18nService } from '../../src/common/i18n';
+
+function createConfigService(values: Record<string, string> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+describe('ExceptionMapperService', () => {
+  let mapper: ExceptionMapperService;
+
+  beforeEach(() => {
+    mapper = new ExceptionMapperService(createConfigService({ NODE_ENV: 'test' }));
+  });
+
+  describe('mapExceptionToProblemDetails', () => {
+    it('should map a domain exception to problem details', () => {
+      const problem = mapper.mapExceptionToProblemDetails(
+        new ResourceNotFoundException('User not found'),
+        'corr-1',
+        '/users/42',
+      );
+
+      expect(problem).toEqual(
+        expect.objectContaining({
+          type: '/errors/resource-not-found',
+          title: 'Resource not found',
+          status: HttpStatus.NOT_FOUND,
+          detail: 'User not found',
+          instance: '/users/42',
+          errorCode: ErrorCode.RESOURCE_NOT_FOUND,
+          correlationId: 'corr-1',
+        }),
+      );
+    });
+
+    it('should expose validation errors as an extension member', () => {
+      const errors = { email: ['email must be an email'] };
+      const problem = mapper.mapExceptionToProblemDetails(new ValidationException(errors));
+
+      expect(problem.type).toBe('/errors/validation-failed');
+      expect(problem.errors).toEqual(errors);
+      expect(problem.instance).toBeUndefined();
+    });
+
+    it('should derive the error code of plain HTTP exceptions', () => {
+      const problem = mapper.mapExceptionToProblemDetails(
+        new HttpException('Nope', HttpStatus.FORBIDDEN),
+      );
+
+      expect(problem.status).toBe(HttpStatus.FORBIDDEN);
+      expect(problem.errorCode).toBe(ErrorCode.FORBIDDEN);
+      expect(problem.type).toBe('/errors/forbidden');
+    });
+  });
+
+  describe('retry hints', () => {
+    it('should default retryable to the catalog value', () => {
+      expect(mapper.mapExceptionToResponse(new ResourceNotFoundException()).retryable).toBe(false);
+      expect(mapper.mapExceptionToResponse(new ExternalServiceException()).retryable).toBe(true);
+      expect(
+        mapper.mapExceptionToResponse(new HttpException('Down', HttpStatus.SERVICE_UNAVAILABLE))
+          .retryable,
+      ).toBe(true);
+      expect(mapper.mapExceptionToResponse(new Error('boom')).retryable).toBe(false);
+    });
+
+    it('should copy the retry metadata of the exception', () => {
+      const exception = new ExternalServiceException(
+        'Rate limited',
+        undefined,
+        { retryAfterSeconds: 12.2, backoff: RetryBackoff.Exponential },
+        ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE,
+      );
+
+      const response = mapper.mapExceptionToResponse(exception);
+
+      expect(response).toEqual(
+        expect.objectContaining({
+          statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+          errorCode: ErrorCode.EXTERNAL_SERVICE_UNAVAILABLE,
+          retryable: true,
+          retryAfter: 13,
+          backoff: RetryBackoff.Exponential,
+        }),
+      );
+      expect(mapper.toProblemDetails(response)).toEqual(
+        expect.objectContaining({ retryable: true, retryAfter: 13, backoff: 'exponential' }),
+      );
+    });
+
+    it('should allow overriding the catalog retryability', () => {
+      const exception = new ExternalServiceException('Invalid API key', undefined, {
+        retryable: false,
+      });
+
+      expect(mapper.mapExceptionToResponse(exception).retryable).toBe(false);
+    });
+  });
+
+  describe('getErrorTypeUri', () => {
+    it('should use the configured base URI', () => {
+      mapper = new ExceptionMapperService(
+        createConfigService({ ERROR_TYPE_BASE_URI: 'https://docs.example.com/errors/' }),
+      );
+
+      expect(mapper.getErrorTypeUri(ErrorCode.EXTERNAL_SERVICE_TIMEOUT)).toBe(
+        'https://docs.example.com/errors/external-service-timeout',
+      );
+    });
+  });
+
+  describe('localizeResponse', () => {
+    beforeEach(() => {
+      const configService = createConfigService({ NODE_ENV: 'test' });
+      mapper = new ExceptionMapperService(configService, new I18nService(configService));
+    });
+
+    it('should translate the message and validation errors', () => {
+      const exception = ValidationException.fromViolations([
+        { path: '/email', field: 'email', code: 'isEmail', message: 'email must be an email' },
+        {
+          path: '/items/0/name',
+          field: 'items[0].name',
+          code: 'minLength',
+          message: 'name must be longer than or equal to 3 characters',
+          params: { min: 3 },
+        },
+      ]);
+      const response = mapper.mapExceptionToResponse(exception);
+
+      const localized = mapper.localizeResponse(response, exception, 'de');
+
+      expect(localized.message).toBe('Validierung fehlgeschlagen');
+      expect(localized.errors).toEqual({
+        email: ['email muss eine E-Mail-Adresse sein'],
+        'items[0].name': ['name muss mindestens 3 Zeichen lang sein'],
+      });
+      expect(localized.violations?.[1]).toEqual(
+        expect.objectContaining({
+          code: 'minLength',
+          message: 'name muss mindestens 3 Zeichen lang sein',
+        }),
+      );
+      expect(response.message).toBe('Validation failed');
+      expect(response.violations?.[0].message).toBe('email must be an email');
+    });
+
+    it('should keep custom messages as thrown', () => {
+      const exception = new DomainUnauthorizedException('Invalid internal API token');
+      const response = mapper.mapExceptionToResponse(exception);
+
+      expect(mapper.localizeResponse(response, exception, 'de').message).toBe(
+        'Invalid internal API token',
+      );
+      const defaultException = new DomainUnauthorizedException();
+      expect(
+        mapper.localizeResponse(
+          mapper.mapExceptionToResponse(defaultException),
+          defaultException,
+          'de',
+        ).message,
+      ).toBe('Nicht autorisierter Zugriff');
+    });
+
+    it('should leave English responses untouched', () => {
+      const exception = new ResourceNotFoundException('User 42 not found');
+      const response = mapper.mapExceptionToResponse(exception);
+
+      expect(mapper.localizeResponse(response, exception, 'en')).toBe(response);
+    });
+  });
+});
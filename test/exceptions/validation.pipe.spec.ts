@@ -1,7 +1,27 @@
-import { ArgumentMetadata } from '@nestjs/common';
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ArgumentMetadata, CallHandler, Controller, ExecutionContext, Patch } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { defer, lastValueFrom, Observable, of } from 'rxjs';
 
-import { GlobalValidationPipe, ValidationException } from '../../src/common/exceptions';
+import {
+  ErrorCode,
+  GlobalValidationPipe,
+  ValidationException,
+  ValidationOptions,
+  ValidationOptionsInterceptor,
+  validationOptionsStorage,
+} from '../../src/common/exceptions';
 
 // Test DTO class
 class TestUserDto {
@@ -15,6 +35,67 @@ class TestUserDto {
   password!: string;
 }
 
+class OrderItemDto {
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+class OrderDto {
+  @IsIn(['standard', 'express'])
+  shipping!: string;
+
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemDto)
+  items!: OrderItemDto[];
+}
+
+class ProfileDto {
+  @IsNotEmpty()
+  @IsString({ always: true })
+  name!: string;
+
+  @IsNotEmpty({ groups: ['create'] })
+  @IsEmail({}, { groups: ['create'] })
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  bio?: string;
+}
+
+class UndecoratedDto {
+  name?: string;
+}
+
+@ValidationOptions({ whitelist: true })
+@Controller('profiles')
+class ProfileController {
+  @Patch(':id')
+  @ValidationOptions({ skipMissingProperties: true })
+  update(): void {
+    // Handler body is irrelevant for the test
+  }
+}
+
+function readValidationOptions(): Observable<unknown> {
+  return defer(() => of(validationOptionsStorage.getStore()));
+}
+
+async function getValidationException(
+  pipe: GlobalValidationPipe,
+  value: unknown,
+  metatype: ArgumentMetadata['metatype'],
+  metadata: Partial<ArgumentMetadata> = {},
+): Promise<ValidationException> {
+  try {
+    await pipe.transform(value, { type: 'body', metatype, ...metadata });
+  } catch (error) {
+    return error as ValidationException;
+  }
+  throw new Error('Expected ValidationException to be thrown');
+}
+
 describe('GlobalValidationPipe', () => {
   let validationPipe: GlobalValidationPipe;
 
@@ -171,4 +252,136 @@ describe('GlobalValidationPipe', () => {
     // Assert
     expect(result).toEqual(dto);
   });
+
+  describe('violations', () => {
+    it('should report constraint codes, messages and params', async () => {
+      const exception = await getValidationException(
+        validationPipe,
+        { email: 'invalid-email', password: 'short' },
+        TestUserDto,
+      );
+
+      expect(exception.violations).toEqual([
+        {
+          path: '/email',
+          field: 'email',
+          code: 'isEmail',
+          message: 'email must be an email',
+        },
+        {
+          path: '/password',
+          field: 'password',
+          code: 'minLength',
+          message: 'password must be longer than or equal to 8 characters',
+          params: { min: 8 },
+        },
+      ]);
+    });
+
+    it('should use JSON pointers and bracketed indices for nested arrays', async () => {
+      const exception = await getValidationException(
+        validationPipe,
+        { shipping: 'drone', items: [{ quantity: 2 }, { quantity: 0 }] },
+        OrderDto,
+      );
+
+      expect(exception.violations).toEqual([
+        expect.objectContaining({
+          path: '/shipping',
+          code: 'isIn',
+          params: { values: ['standard', 'express'] },
+        }),
+        expect.objectContaining({
+          path: '/items/1/quantity',
+          field: 'items[1].quantity',
+          code: 'min',
+          params: { min: 1 },
+        }),
+      ]);
+      expect(exception.errors).toEqual({
+        shipping: [exception.violations?.[0].message],
+        'items[1].quantity': [exception.violations?.[1].message],
+      });
+    });
+  });
+
+  describe('scalar params and query values', () => {
+    it('should coerce numbers, booleans and dates', async () => {
+      await expect(
+        validationPipe.transform('42', { type: 'param', metatype: Number, data: 'id' }),
+      ).resolves.toBe(42);
+      await expect(
+        validationPipe.transform('false', { type: 'query', metatype: Boolean, data: 'active' }),
+      ).resolves.toBe(false);
+      await expect(
+        validationPipe.transform('2024-01-31', { type: 'query', metatype: Date, data: 'since' }),
+      ).resolves.toEqual(new Date('2024-01-31'));
+    });
+
+    it('should pass missing optional query values through', async () => {
+      await expect(
+        validationPipe.transform(undefined, { type: 'query', metatype: Number, data: 'page' }),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject invalid values with INVALID_FORMAT', async () => {
+      const exception = await getValidationException(validationPipe, 'abc', Number, {
+        type: 'param',
+        data: 'id',
+      });
+
+      expect(exception).toBeInstanceOf(ValidationException);
+      expect(exception.errorCode).toBe(ErrorCode.INVALID_FORMAT);
+      expect(exception.errors).toEqual({ id: ['id must be a number'] });
+      expect(exception.violations).toEqual([
+        { path: '/id', field: 'id', code: 'isNumber', message: 'id must be a number' },
+      ]);
+    });
+  });
+
+  it('should report errors about the value itself at the root', async () => {
+    const exception = await getValidationException(
+      new GlobalValidationPipe({ forbidUnknownValues: true }),
+      { name: 'Ada' },
+      UndecoratedDto,
+    );
+
+    expect(exception.violations).toEqual([
+      expect.objectContaining({ path: '', field: '_error', code: 'unknownValue' }),
+    ]);
+    expect(Object.keys(exception.errors)).toEqual(['_error']);
+  });
+
+  describe('route validation options', () => {
+    it('should apply groups from the route options', async () => {
+      const exception = await getValidationException(validationPipe, { name: 'Ada' }, ProfileDto);
+      expect(exception.violations?.map((violation) => violation.field)).toEqual(['email', 'email']);
+
+      const result = await validationOptionsStorage.run({ groups: ['update'] }, () =>
+        validationPipe.transform({ name: 'Ada' }, { type: 'body', metatype: ProfileDto }),
+      );
+      expect(result).toBeInstanceOf(ProfileDto);
+    });
+
+    it('should merge controller and handler options in the interceptor', async () => {
+      const interceptor = new ValidationOptionsInterceptor(new Reflector());
+      const context = {
+        getClass: () => ProfileController,
+        getHandler: () => ProfileController.prototype.update,
+      } as unknown as ExecutionContext;
+      const next: CallHandler = { handle: readValidationOptions };
+
+      const options = await lastValueFrom(interceptor.intercept(context, next));
+
+      expect(options).toEqual({ whitelist: true, skipMissingProperties: true });
+    });
+
+    it('should skip missing properties for partial updates', async () => {
+      const result = await validationOptionsStorage.run({ skipMissingProperties: true }, () =>
+        validationPipe.transform({ bio: 'Hello' }, { type: 'body', metatype: ProfileDto }),
+      );
+
+      expect(result).toEqual(expect.objectContaining({ bio: 'Hello' }));
+    });
+  });
 });
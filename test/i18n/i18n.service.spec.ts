@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import { ErrorCode } from '../../src/common/exceptions';
+import { I18nService } from '../../src/common/i18n';
+
+function createRequest(overrides: Partial<Request> & { user?: unknown } = {}): Request {
+  return { query: {}, headers: {}, ...overrides } as unknown as Request;
+}
+
+describe('I18nService', () => {
+  let i18n: I18nService;
+
+  beforeEach(() => {
+    const configService = { get: jest.fn() } as unknown as ConfigService;
+    i18n = new I18nService(configService);
+  });
+
+  describe('resolveLocale', () => {
+    it('should fall back to English when nothing is requested', () => {
+      expect(i18n.resolveLocale(createRequest())).toBe('en');
+    });
+
+    it('should use the best supported Accept-Language entry', () => {
+      const request = createRequest({
+        headers: { 'accept-language': 'fr-CH;q=0.9, de-AT;q=0.8, en;q=0.5' },
+      });
+
+      expect(i18n.resolveLocale(request)).toBe('de');
+    });
+
+    it('should prefer the user profile over Accept-Language', () => {
+      const request = createRequest({
+        headers: { 'accept-language': 'de' },
+        user: { locale: 'en-GB' },
+      });
+
+      expect(i18n.resolveLocale(request)).toBe('en');
+    });
+
+    it('should prefer the query parameter over everything else', () => {
+      const request = createRequest({
+        query: { lang: 'de' },
+        headers: { 'accept-language': 'en' },
+        user: { locale: 'en' },
+      });
+
+      expect(i18n.resolveLocale(request)).toBe('de');
+    });
+  });
+
+  describe('translateError', () => {
+    it('should translate by error code', () => {
+      expect(i18n.translateError(ErrorCode.RESOURCE_NOT_FOUND, 'de', 'Resource not found')).toBe(
+        'Ressource nicht gefunden',
+      );
+    });
+
+    it('should keep the English fallback for unsupported locales', () => {
+      expect(i18n.translateError(ErrorCode.RESOURCE_NOT_FOUND, 'fr', 'User 42 not found')).toBe(
+        'User 42 not found',
+      );
+    });
+  });
+
+  describe('translateConstraint', () => {
+    it('should interpolate parameters', () => {
+      expect(
+        i18n.translateConstraint('isEmail', 'de', 'email must be an email', {
+          property: 'email',
+        }),
+      ).toBe('email muss eine E-Mail-Adresse sein');
+    });
+
+    it('should fall back when a placeholder has no value', () => {
+      expect(i18n.translateConstraint('isEmail', 'de', 'email must be an email')).toBe(
+        'email must be an email',
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { Writable } from 'node:stream';
+
+import { ConfigService } from '@nestjs/config';
+import pino, { LoggerOptions } from 'pino';
+
+import { RequestContextService } from '../../src/common/context';
+import { ResourceNotFoundException } from '../../src/common/exceptions';
+import {
+  LogCaptureController,
+  LogCaptureQuery,
+  LogCaptureService,
+  LoggerConfigService,
+} from '../../src/common/logger';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+function createLine(fields: Record<string, unknown>): string {
+  return `${JSON.stringify({ level: 'INFO', time: Date.now(), ...fields })}\n`;
+}
+
+function getMessages(logCapture: LogCaptureService, query: LogCaptureQuery): unknown[] {
+  return logCapture.query(query).map((entry) => entry.message);
+}
+
+/**
+ * Create a pino logger from the application options, discarding its output
+ */
+function createPinoLogger(configService: ConfigService, logCapture: LogCaptureService) {
+  const { pinoHttp } = new LoggerConfigService(
+    configService,
+    new RequestContextService(),
+    undefined,
+    undefined,
+    logCapture,
+  ).createLoggerOptions();
+  const stream = new Writable({
+    write(_chunk: Buffer, _encoding, callback): void {
+      callback();
+    },
+  });
+
+  return pino(pinoHttp as LoggerOptions, stream);
+}
+
+describe('Log capture', () => {
+  const enabledConfig = createConfigService({ LOG_CAPTURE_ENABLED: 'true' });
+
+  describe('LogCaptureService', () => {
+    it('should only capture outside production when enabled', () => {
+      expect(new LogCaptureService(enabledConfig).isEnabled()).toBe(true);
+      expect(new LogCaptureService(createConfigService()).isEnabled()).toBe(false);
+      expect(
+        new LogCaptureService(
+          createConfigService({ LOG_CAPTURE_ENABLED: 'true', NODE_ENV: 'production' }),
+        ).isEnabled(),
+      ).toBe(false);
+    });
+
+    it('should keep the most recent lines, oldest first', () => {
+      const logCapture = new LogCaptureService(
+        createConfigService({ LOG_CAPTURE_ENABLED: 'true', LOG_CAPTURE_MAX_ENTRIES: 3 }),
+      );
+
+      for (const msg of ['one', 'two', 'three', 'four', 'five']) {
+        logCapture.capture(createLine({ msg }));
+      }
+      logCapture.capture('not json');
+
+      expect(logCapture.getEntries().map((entry) => entry.message)).toEqual([
+        'three',
+        'four',
+        'five',
+      ]);
+
+      logCapture.clear();
+      expect(logCapture.getEntries()).toEqual([]);
+    });
+
+    it('should filter by correlation ID, minimum level, context and time range', () => {
+      const logCapture = new LogCaptureService(enabledConfig);
+      logCapture.capture(
+        createLine({ time: 1000, correlationId: 'a', context: 'AppController', msg: 'start' }),
+      );
+      logCapture.capture(
+        createLine({
+          time: 2000,
+          level: 'WARN',
+          correlationId: 'a',
+          context: 'AppService',
+          msg: 'slow',
+        }),
+      );
+      logCapture.capture(
+        createLine({ time: 3000, level: 'ERROR', correlationId: 'b', msg: 'failed' }),
+      );
+
+      const messages = (query: LogCaptureQuery): unknown[] => getMessages(logCapture, query);
+
+      expect(messages({ correlationId: 'a' })).toEqual(['start', 'slow']);
+      expect(messages({ level: 'warn' })).toEqual(['slow', 'failed']);
+      expect(messages({ context: 'AppController' })).toEqual(['start']);
+      expect(
+        messages({ from: new Date(1500).toISOString(), to: new Date(2500).toISOString() }),
+      ).toEqual(['slow']);
+      expect(messages({ limit: 2 })).toEqual(['slow', 'failed']);
+    });
+
+    it('should read the fields of ECS lines', () => {
+      const logCapture = new LogCaptureService(enabledConfig);
+      logCapture.capture(
+        JSON.stringify({
+          level: 50,
+          '@timestamp': '2025-01-15T10:23:45.120Z',
+          'log.logger': 'UsersService',
+          'labels.correlation_id': 'corr-1',
+          message: 'User lookup failed',
+        }),
+      );
+
+      expect(logCapture.getEntries()[0]).toMatchObject({
+        time: '2025-01-15T10:23:45.120Z',
+        level: 'error',
+        context: 'UsersService',
+        correlationId: 'corr-1',
+        message: 'User lookup failed',
+      });
+    });
+  });
+
+  describe('pino integration', () => {
+    it('should capture redacted lines with the correlation ID of the request context', () => {
+      const requestContext = new RequestContextService();
+      const logCapture = new LogCaptureService(enabledConfig, requestContext);
+      const logger = createPinoLogger(enabledConfig, logCapture);
+
+      requestContext.run({ correlationId: 'corr-1' }, () =>
+        logger.warn({ context: 'AuthService', password: 'hunter2' }, 'Login failed'),
+      );
+      logger.info('Outside a request');
+
+      expect(logCapture.query({ correlationId: 'corr-1' })).toEqual([
+        expect.objectContaining({
+          level: 'warn',
+          context: 'AuthService',
+          message: 'Login failed',
+          line: expect.objectContaining({ password: '[REDACTED]' }) as unknown,
+        }),
+      ]);
+      expect(logCapture.getEntries()).toHaveLength(2);
+    });
+
+    it('should not capture when disabled', () => {
+      const logCapture = new LogCaptureService(createConfigService());
+      const logger = createPinoLogger(createConfigService(), logCapture);
+
+      logger.info('Not captured');
+
+      expect(logCapture.getEntries()).toEqual([]);
+    });
+  });
+
+  describe('LogCaptureController', () => {
+    it('should hide the endpoints unless enabled', () => {
+      const controller = new LogCaptureController(new LogCaptureService(createConfigService()));
+
+      expect(() => controller.getEntries({})).toThrow(ResourceNotFoundException);
+      expect(() => controller.clearEntries()).toThrow(ResourceNotFoundException);
+    });
+
+    it('should query the captured lines', () => {
+      const logCapture = new LogCaptureService(enabledConfig);
+      logCapture.capture(createLine({ correlationId: 'a', msg: 'kept' }));
+      logCapture.capture(createLine({ correlationId: 'b', msg: 'other' }));
+      const controller = new LogCaptureController(logCapture);
+
+      expect(controller.getEntries({ correlationId: 'a' })).toEqual([
+        expect.objectContaining({ message: 'kept' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { createServer, RequestListener, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Writable } from 'node:stream';
+
+import { ConfigService } from '@nestjs/config';
+import pino, { LoggerOptions } from 'pino';
+import { HttpLogger, Options, pinoHttp } from 'pino-http';
+
+import { RequestContextService } from '../../src/common/context';
+import {
+  createEcsFormatter,
+  createGcpFormatter,
+  ECS_VERSION,
+  LoggerConfigService,
+} from '../../src/common/logger';
+
+const TRACE_CONTEXT = {
+  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+  spanId: '00f067aa0ba902b7',
+  traceFlags: 1,
+};
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest
+      .fn()
+      .mockImplementation((key: string, defaultValue?: unknown) => values[key] ?? defaultValue),
+  } as unknown as ConfigService;
+}
+
+function createRequest(): Record<string, unknown> {
+  return {
+    id: 'req-1',
+    method: 'GET',
+    url: '/1',
+    originalUrl: '/users/1',
+    httpVersion: '1.1',
+    ip: '127.0.0.1',
+    headers: { 'user-agent': 'jest', authorization: 'Bearer secret' },
+  };
+}
+
+/**
+ * Writable collecting the JSON lines written by a logger
+ */
+class LineCollector extends Writable {
+  readonly lines: Record<string, unknown>[] = [];
+
+  override _write(chunk: Buffer, _encoding: BufferEncoding, callback: () => void): void {
+    this.lines.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+    callback();
+  }
+}
+
+/**
+ * Poll a condition until it holds or the timeout elapses
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Get the options of LoggerConfigService, without the stdout transport
+ */
+function createLoggerOptions(
+  values: Record<string, unknown>,
+  requestContext?: RequestContextService,
+): LoggerOptions {
+  const service = new LoggerConfigService(
+    createConfigService({ NODE_ENV: 'test', APP_NAME: 'orders', ...values }),
+    requestContext,
+  );
+  const options = { ...(service.createLoggerOptions().pinoHttp as LoggerOptions) };
+  delete options.transport;
+  return options;
+}
+
+/**
+ * Handle requests with pino-http, logging a line within a trace
+ */
+function createRequestHandler(
+  httpLogger: HttpLogger,
+  requestContext: RequestContextService,
+): RequestListener {
+  return (req, res) => {
+    httpLogger(req, res);
+    requestContext.runWithTraceContext(TRACE_CONTEXT, () =>
+      req.log.warn({ context: 'OrdersService' }, 'Order delayed'),
+    );
+    res.statusCode = 202;
+    res.end();
+  };
+}
+
+/**
+ * Create a Pino logger with the options of LoggerConfigService, writing to a collector
+ */
+function createLogger(values: Record<string, unknown>) {
+  const output = new LineCollector();
+  return { logger: pino(createLoggerOptions(values), output), output };
+}
+
+describe('Log output formats', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  describe('ECS', () => {
+    const formatter = createEcsFormatter({ serviceName: 'orders' });
+
+    it('should map the root bindings to ECS fields', () => {
+      expect(formatter.bindings?.({ pid: 42, hostname: 'host-a' })).toEqual({
+        'process.pid': 42,
+        'host.hostname': 'host-a',
+      });
+    });
+
+    it('should reduce the request to ECS fields without headers', () => {
+      expect(formatter.requestFields?.(createRequest())).toEqual({
+        'http.request.id': 'req-1',
+        'http.request.method': 'GET',
+        'url.original': '/users/1',
+        'user_agent.original': 'jest',
+        'client.ip': '127.0.0.1',
+      });
+    });
+
+    it('should map context, identifiers, errors and response fields', () => {
+      const error = new TypeError('Boom');
+      const fields = formatter.log?.({
+        context: 'OrdersService',
+        trace_id: TRACE_CONTEXT.traceId,
+        span_id: TRACE_CONTEXT.spanId,
+        correlationId: 'corr-1',
+        userId: 7,
+        tenantId: 'acme',
+        err: error,
+        errorCode: 'ORDER_FAILED',
+        res: { statusCode: 500 },
+        responseTime: 12,
+        orderId: 'o-1',
+      });
+
+      expect(fields).toMatchObject({
+        'ecs.version': ECS_VERSION,
+        'service.name': 'orders',
+        'log.logger': 'OrdersService',
+        'trace.id': TRACE_CONTEXT.traceId,
+        'span.id': TRACE_CONTEXT.spanId,
+        'labels.correlation_id': 'corr-1',
+        'user.id': '7',
+        'organization.id': 'acme',
+        'error.type': 'TypeError',
+        'error.message': 'Boom',
+        'error.stack_trace': error.stack,
+        'error.code': 'ORDER_FAILED',
+        'http.response.status_code': 500,
+        'event.duration': 12_000_000,
+        orderId: 'o-1',
+      });
+    });
+
+    it('should write ECS lines for requests logged by pino-http', async () => {
+      const requestContext = new RequestContextService();
+      const output = new LineCollector();
+      const httpLogger = pinoHttp(
+        createLoggerOptions({ LOG_FORMAT: 'ecs' }, requestContext) as Options,
+        output,
+      );
+      server = createServer(createRequestHandler(httpLogger, requestContext));
+      await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      await fetch(`http://127.0.0.1:${port}/users/1`, {
+        headers: { 'user-agent': 'jest', authorization: 'Bearer secret' },
+      });
+      await waitFor(() => output.lines.length === 2);
+
+      const [line, accessLine] = output.lines;
+      expect(line).toMatchObject({
+        message: 'Order delayed',
+        'log.level': 'warn',
+        'log.logger': 'OrdersService',
+        'ecs.version': ECS_VERSION,
+        'service.name': 'orders',
+        'trace.id': TRACE_CONTEXT.traceId,
+        'http.request.method': 'GET',
+        'url.original': '/users/1',
+        'user_agent.original': 'jest',
+      });
+      expect(typeof line['@timestamp']).toBe('string');
+      expect(line).not.toHaveProperty('msg');
+      expect(line).not.toHaveProperty('req');
+      expect(accessLine).toMatchObject({
+        message: 'request completed',
+        'http.response.status_code': 202,
+      });
+      expect(typeof accessLine['event.duration']).toBe('number');
+      expect(JSON.stringify(output.lines)).not.toContain('Bearer secret');
+    });
+  });
+
+  describe('Google Cloud Logging', () => {
+    const formatter = createGcpFormatter({ serviceName: 'orders', gcpProjectId: 'my-project' });
+
+    it('should map levels to severities', () => {
+      expect(formatter.levelFields?.('warn')).toEqual({ severity: 'WARNING' });
+      expect(formatter.levelFields?.('fatal')).toEqual({ severity: 'CRITICAL' });
+      expect(formatter.levelFields?.('custom')).toEqual({ severity: 'DEFAULT' });
+    });
+
+    it('should build trace, labels and error reporting fields', () => {
+      const error = new Error('Boom');
+      const fields = formatter.log?.({
+        trace_id: TRACE_CONTEXT.traceId,
+        span_id: TRACE_CONTEXT.spanId,
+        correlationId: 'corr-1',
+        err: error,
+      });
+
+      expect(fields).toMatchObject({
+        'logging.googleapis.com/trace': `projects/my-project/traces/${TRACE_CONTEXT.traceId}`,
+        'logging.googleapis.com/spanId': TRACE_CONTEXT.spanId,
+        'logging.googleapis.com/labels': { correlationId: 'corr-1' },
+        error: { name: 'Error', message: 'Boom' },
+        stack_trace: error.stack,
+        serviceContext: { service: 'orders' },
+      });
+    });
+
+    it('should describe the access log line as an httpRequest', () => {
+      const fields = formatter.log?.({
+        res: { statusCode: 404, req: createRequest() },
+        responseTime: 250,
+      });
+
+      expect(fields?.httpRequest).toEqual({
+        requestMethod: 'GET',
+        requestUrl: '/users/1',
+        status: 404,
+        userAgent: 'jest',
+        remoteIp: '127.0.0.1',
+        protocol: 'HTTP/1.1',
+        latency: '0.25s',
+      });
+    });
+
+    it('should write Cloud Logging lines through LoggerConfigService', () => {
+      const { logger, output } = createLogger({ LOG_FORMAT: 'gcp' });
+
+      logger.error('Payment failed');
+
+      const [line] = output.lines;
+      expect(line).toMatchObject({ message: 'Payment failed', severity: 'ERROR', level: 50 });
+      expect(typeof line.time).toBe('string');
+    });
+  });
+
+  describe('LoggerConfigService', () => {
+    it('should keep the default JSON shape', () => {
+      const { logger, output } = createLogger({ LOG_FORMAT: 'json' });
+
+      logger.info('Started');
+
+      expect(output.lines[0]).toMatchObject({ msg: 'Started', level: 'INFO' });
+    });
+
+    it('should keep format fields when routing to multiple targets', () => {
+      const service = new LoggerConfigService(
+        createConfigService({
+          NODE_ENV: 'test',
+          LOG_FORMAT: 'ecs',
+          LOG_TRANSPORTS: '[{"type":"stdout"},{"type":"stdout","level":"error"}]',
+        }),
+      );
+      const options = service.createLoggerOptions().pinoHttp as LoggerOptions;
+
+      expect(options.messageKey).toBe('message');
+      expect(options.formatters?.level).toBeUndefined();
+      expect(options.formatters?.bindings).toBeDefined();
+      expect(options.formatters?.log).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { Writable } from 'node:stream';
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { PinoLogger } from 'nestjs-pino';
+import pino, { LoggerOptions } from 'pino';
+
+import { RequestContextService } from '../../src/common/context';
+import { ResourceNotFoundException } from '../../src/common/exceptions';
+import {
+  CustomLoggerService,
+  LoggerConfigService,
+  LogLevelController,
+  LogLevelService,
+} from '../../src/common/logger';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+/**
+ * Create a pino logger from the application options, writing JSON lines to an array
+ */
+function createPinoLogger(
+  configService: ConfigService,
+  logLevels: LogLevelService,
+): { logger: pino.Logger; lines: Array<Record<string, unknown>> } {
+  const lines: Array<Record<string, unknown>> = [];
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback): void {
+      lines.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+      callback();
+    },
+  });
+  const { pinoHttp } = new LoggerConfigService(
+    configService,
+    undefined,
+    logLevels,
+  ).createLoggerOptions();
+
+  return { logger: pino(pinoHttp as LoggerOptions, stream), lines };
+}
+
+describe('Runtime log levels', () => {
+  let auditLog: jest.SpyInstance;
+  let configService: ConfigService;
+  let logLevels: LogLevelService;
+
+  beforeEach(() => {
+    auditLog = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    configService = createConfigService({ LOG_LEVEL: 'info', LOG_LEVEL_ADMIN_ENABLED: 'true' });
+    logLevels = new LogLevelService(configService);
+  });
+
+  afterEach(() => {
+    logLevels.onModuleDestroy();
+    jest.useRealTimers();
+    auditLog.mockRestore();
+  });
+
+  describe('LogLevelService', () => {
+    it('should apply context overrides before the global level', () => {
+      logLevels.setLevel({ level: 'debug', actor: 'tester' }, 'AppController');
+      logLevels.setLevel({ level: 'error', actor: 'tester' });
+
+      expect(logLevels.shouldLog(20, { context: 'AppController' })).toBe(true);
+      expect(logLevels.shouldLog(40, { context: 'AppService' })).toBe(false);
+      expect(logLevels.shouldLog(50, 'message without context')).toBe(true);
+      expect(logLevels.shouldLog(30, { audit: true })).toBe(true);
+      expect(logLevels.getLevels()).toEqual({
+        defaultLevel: 'info',
+        globalLevel: 'error',
+        globalOverride: expect.objectContaining({ level: 'error', changedBy: 'tester' }),
+        contexts: [expect.objectContaining({ context: 'AppController', level: 'debug' })],
+      });
+    });
+
+    it('should revert an override after its TTL and audit every change', () => {
+      jest.useFakeTimers();
+      const override = logLevels.setLevel(
+        { level: 'trace', ttlSeconds: 60, actor: 'tester', reason: 'debugging' },
+        'AppController',
+      );
+
+      expect(override.expiresAt).toBeDefined();
+      expect(logLevels.shouldLog(10, { context: 'AppController' })).toBe(true);
+
+      jest.advanceTimersByTime(60_000);
+
+      expect(logLevels.shouldLog(10, { context: 'AppController' })).toBe(false);
+      expect(logLevels.getLevels().contexts).toEqual([]);
+      expect(auditLog.mock.calls.map(([entry]) => entry as Record<string, unknown>)).toEqual([
+        expect.objectContaining({
+          audit: true,
+          event: 'log_level.changed',
+          context: 'AppController',
+          previousLevel: 'info',
+          newLevel: 'trace',
+          ttlSeconds: 60,
+          actor: 'tester',
+          reason: 'debugging',
+        }),
+        expect.objectContaining({
+          audit: true,
+          event: 'log_level.expired',
+          context: 'AppController',
+          previousLevel: 'trace',
+          newLevel: 'info',
+          actor: 'ttl',
+        }),
+      ]);
+    });
+  });
+
+  describe('pino integration', () => {
+    it('should filter log calls with the levels in effect', () => {
+      const { logger, lines } = createPinoLogger(configService, logLevels);
+      const requestLogger = logger.child({ req: { id: 1 } });
+
+      requestLogger.debug({ context: 'AppController' }, 'before');
+      logLevels.setLevel({ level: 'debug', actor: 'tester' }, 'AppController');
+      requestLogger.debug({ context: 'AppController' }, 'after');
+      requestLogger.debug({ context: 'AppService' }, 'other context');
+      logger.info({ audit: true, event: 'log_level.changed' }, 'audit');
+
+      expect(lines.map((line) => line.msg)).toEqual(['after', 'audit']);
+    });
+
+    it('should keep the configured level when runtime levels are disabled', () => {
+      const disabledConfig = createConfigService({ LOG_LEVEL: 'warn' });
+      const { logger } = createPinoLogger(disabledConfig, new LogLevelService(disabledConfig));
+
+      expect(logger.level).toBe('warn');
+    });
+
+    it('should report the levels in effect to CustomLoggerService', () => {
+      const { logger } = createPinoLogger(configService, logLevels);
+      const customLogger = new CustomLoggerService(
+        { logger } as unknown as PinoLogger,
+        new RequestContextService(),
+        logLevels,
+      );
+      logLevels.setLevel({ level: 'trace', actor: 'tester' }, 'AppController');
+
+      expect(customLogger.isLevelEnabled('trace', 'AppController')).toBe(true);
+      expect(customLogger.isLevelEnabled('trace', 'AppService')).toBe(false);
+      expect(customLogger.isLevelEnabled('info')).toBe(true);
+    });
+  });
+
+  describe('LogLevelController', () => {
+    const request = { ip: '127.0.0.1' } as Request;
+
+    it('should hide the endpoints unless enabled', () => {
+      const controller = new LogLevelController(new LogLevelService(createConfigService()));
+
+      expect(() => controller.getLevels()).toThrow(ResourceNotFoundException);
+    });
+
+    it('should record the caller as actor', () => {
+      const controller = new LogLevelController(logLevels);
+
+      expect(controller.setGlobalLevel({ level: 'warn' }, request).changedBy).toBe(
+        'internal-api (127.0.0.1)',
+      );
+      expect(() => controller.resetContextLevel('Unknown', request)).toThrow(
+        ResourceNotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+import { RequestContextService } from '../../src/common/context';
+import { LogSamplingService, parseSamplingRules } from '../../src/common/logger';
+
+const DEBUG = 20;
+const INFO = 30;
+const WARN = 40;
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+/**
+ * Count the lines kept for each of a number of requests, logging two lines per request
+ */
+function countKeptPerRequest(
+  sampling: LogSamplingService,
+  requestContext: RequestContextService,
+  requests: number,
+): number[] {
+  return Array.from({ length: requests }, (_, index) =>
+    requestContext.run(
+      { correlationId: `request-${index}`, request: { path: '/users/42' } as Request },
+      () =>
+        [
+          sampling.shouldLog(DEBUG, [{ context: 'AppController' }, 'Fetching user']),
+          sampling.shouldLog(DEBUG, [{ context: 'AppService' }, 'Loading user']),
+        ].filter(Boolean).length,
+    ),
+  );
+}
+
+describe('Log sampling', () => {
+  let requestContext: RequestContextService;
+  let summaryLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    requestContext = new RequestContextService();
+    summaryLog = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    summaryLog.mockRestore();
+  });
+
+  describe('parseSamplingRules', () => {
+    it('should accept rules given as JSON', () => {
+      expect(parseSamplingRules('[{"level":"debug","route":"/users/*","rate":0.01}]')).toEqual([
+        { level: 'debug', route: '/users/*', rate: 0.01 },
+      ]);
+      expect(parseSamplingRules('')).toEqual([]);
+    });
+
+    it.each(['{}', '[{"level":"debug"}]', '[{"rate":2}]', '[{"level":"loud","rate":1}]'])(
+      'should reject invalid rules %s',
+      (value) => {
+        expect(() => parseSamplingRules(value)).toThrow(TypeError);
+      },
+    );
+  });
+
+  describe('sampling rules', () => {
+    it('should keep all lines of a sampled request and drop all lines of others', () => {
+      const sampling = new LogSamplingService(
+        createConfigService({
+          LOG_SAMPLING_RULES: '[{"level":"debug","route":"/users/*","rate":0.5}]',
+        }),
+        requestContext,
+      );
+
+      const keptPerRequest = countKeptPerRequest(sampling, requestContext, 200);
+      const sampledRequests = keptPerRequest.filter((kept) => kept === 2).length;
+
+      expect(keptPerRequest.every((kept) => kept === 0 || kept === 2)).toBe(true);
+      expect(sampledRequests).toBeGreaterThan(60);
+      expect(sampledRequests).toBeLessThan(140);
+    });
+
+    it('should only sample matching lines and always keep warnings', () => {
+      const sampling = new LogSamplingService(
+        createConfigService({
+          LOG_SAMPLING_RULES: JSON.stringify([
+            { level: 'debug', context: 'AppController', message: 'Fetching *', rate: 0 },
+          ]),
+        }),
+        requestContext,
+      );
+
+      expect(sampling.shouldLog(DEBUG, [{ context: 'AppController' }, 'Fetching user 1'])).toBe(
+        false,
+      );
+      expect(sampling.shouldLog(DEBUG, [{ context: 'AppController' }, 'Deleting user 1'])).toBe(
+        true,
+      );
+      expect(sampling.shouldLog(INFO, [{ context: 'AppController' }, 'Fetching user 1'])).toBe(
+        true,
+      );
+      expect(sampling.shouldLog(WARN, [{ context: 'AppController' }, 'Fetching user 1'])).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should limit lines per message key and summarize suppressed counts', () => {
+      const sampling = new LogSamplingService(
+        createConfigService({ LOG_RATE_LIMIT_PER_SECOND: 1, LOG_RATE_LIMIT_BURST: 2 }),
+        requestContext,
+      );
+      const logUser = (id: number, now: number): boolean =>
+        sampling.shouldLog(INFO, [{ context: 'AppController' }, `Fetching user ${id}`], now);
+
+      expect([1, 2, 3, 4, 5].map((id) => logUser(id, 0))).toEqual([
+        true,
+        true,
+        false,
+        false,
+        false,
+      ]);
+      expect(sampling.shouldLog(INFO, [{ context: 'AppController' }, 'Other'], 0)).toBe(true);
+      expect(sampling.shouldLog(WARN, [{ context: 'AppController' }, 'Fetching user 6'], 0)).toBe(
+        true,
+      );
+      expect(logUser(7, 1000)).toBe(true);
+
+      expect(sampling.flushSummaries()).toEqual([
+        { key: 'AppController:Fetching user #', suppressed: 3, intervalMs: 60_000 },
+      ]);
+      expect(summaryLog).toHaveBeenCalledWith(
+        expect.objectContaining({ logSampling: true, suppressed: 3 }),
+      );
+      expect(sampling.flushSummaries()).toEqual([]);
+
+      sampling.onModuleDestroy();
+    });
+
+    it('should be disabled without configuration', () => {
+      const sampling = new LogSamplingService(createConfigService(), requestContext);
+
+      expect(sampling.isEnabled()).toBe(false);
+      expect(sampling.shouldLog(DEBUG, ['message'])).toBe(true);
+    });
+  });
+});
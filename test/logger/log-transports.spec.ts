@@ -0,0 +1,454 @@
+import { createSocket, Socket as UdpSocket } from 'node:dgram';
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo, createServer as createTcpServer, Server as TcpServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+import { ConfigService } from '@nestjs/config';
+import { validateSync } from 'class-validator';
+import { LoggerOptions, TransportMultiOptions, TransportSingleOptions } from 'pino';
+import { RollingFileDestination } from 'pino-roll';
+
+import {
+  fileTransport,
+  formatSyslogMessage,
+  HttpBatchStream,
+  levelLabelTransport,
+  LoggerConfigService,
+  SyslogStream,
+} from '../../src/common/logger';
+import { Environment } from '../../src/config/env/env.interface';
+import {
+  IsLogTransports,
+  parseLogTransports,
+} from '../../src/config/env/log-transports.validation';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest
+      .fn()
+      .mockImplementation((key: string, defaultValue?: unknown) => values[key] ?? defaultValue),
+  } as unknown as ConfigService;
+}
+
+function createLoggerOptions(values: Record<string, unknown>): LoggerOptions {
+  const { pinoHttp } = new LoggerConfigService(createConfigService(values)).createLoggerOptions();
+  return pinoHttp as LoggerOptions;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => resolve(body));
+  });
+}
+
+/**
+ * Poll a condition until it holds or the timeout elapses
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+class TransportSettings {
+  @IsLogTransports()
+  LOG_TRANSPORTS?: string;
+}
+
+/**
+ * Local stand-in for a log shipping endpoint recording received NDJSON batches
+ */
+class StandInLogEndpoint {
+  readonly batches: string[][] = [];
+  readonly contentTypes: Array<string | undefined> = [];
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        this.contentTypes.push(request.headers['content-type']);
+        this.batches.push(body.trim().split('\n'));
+        response.writeHead(200).end();
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/logs`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Local stand-in for a syslog server over UDP or TCP
+ */
+class StandInSyslogServer {
+  readonly received: string[] = [];
+  private udpSocket?: UdpSocket;
+  private tcpServer?: TcpServer;
+
+  listenUdp(): Promise<number> {
+    const socket = createSocket('udp4');
+    this.udpSocket = socket;
+    socket.on('message', (message) => this.received.push(message.toString()));
+    return new Promise((resolve) =>
+      socket.bind(0, '127.0.0.1', () => resolve(socket.address().port)),
+    );
+  }
+
+  listenTcp(): Promise<number> {
+    const server = createTcpServer((connection) => {
+      connection.on('data', (data) => this.received.push(data.toString()));
+    });
+    this.tcpServer = server;
+    return new Promise((resolve) =>
+      server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)),
+    );
+  }
+
+  close(): Promise<void> {
+    this.udpSocket?.close();
+    return new Promise((resolve) =>
+      this.tcpServer ? this.tcpServer.close(() => resolve()) : resolve(),
+    );
+  }
+}
+
+function listFiles(directory: string, extension: string): string[] {
+  return readdirSync(directory)
+    .filter((file) => file.endsWith(extension))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Wait until a file destination has rotated to a file number and compressed the previous files
+ */
+function waitForCompressedRotation(
+  directory: string,
+  destination: RollingFileDestination,
+  number: number,
+): Promise<void> {
+  return waitFor(
+    () =>
+      destination.file?.endsWith(`app.${number}.log`) === true &&
+      listFiles(directory, '.log').length === 1,
+  );
+}
+
+function endStream(stream: NodeJS.WritableStream): Promise<void> {
+  return new Promise((resolve) => stream.end(resolve));
+}
+
+describe('Log transports', () => {
+  describe('parseLogTransports', () => {
+    it('should accept valid targets', () => {
+      const targets = parseLogTransports(
+        JSON.stringify([
+          { type: 'stdout', level: 'info' },
+          { type: 'file', path: 'logs/app', size: '10m', count: 3, compress: true },
+          { type: 'syslog', host: 'localhost', protocol: 'tcp', level: 'warn' },
+          { type: 'http', url: 'https://collector:8080/logs', headers: { 'X-Api-Key': 'key' } },
+        ]),
+      );
+
+      expect(targets.map((target) => target.type)).toEqual(['stdout', 'file', 'syslog', 'http']);
+      expect(parseLogTransports('')).toEqual([]);
+    });
+
+    it('should report every invalid target with its index', () => {
+      expect(() =>
+        parseLogTransports(
+          JSON.stringify([
+            { type: 'kafka' },
+            { type: 'file', size: 'large' },
+            { type: 'stdout', level: 'verbose', colour: true },
+          ]),
+        ),
+      ).toThrow(
+        /LOG_TRANSPORTS\[0]: type must be one of.*LOG_TRANSPORTS\[1]: path.*LOG_TRANSPORTS\[1]: size must be a number followed by k, m or g.*LOG_TRANSPORTS\[2]: property colour should not exist.*LOG_TRANSPORTS\[2]: level must be one of/,
+      );
+      expect(() => parseLogTransports('{"type":"stdout"}')).toThrow('must be a JSON array');
+    });
+
+    it('should validate LOG_TRANSPORTS as an environment variable', () => {
+      const settings = new TransportSettings();
+      settings.LOG_TRANSPORTS = '[{"type":"syslog","port":70000}]';
+
+      const [error] = validateSync(settings);
+
+      expect(error.constraints?.isLogTransports).toContain('LOG_TRANSPORTS[0]: host');
+      expect(error.constraints?.isLogTransports).toContain('port must not be greater than 65535');
+    });
+  });
+
+  describe('LoggerConfigService', () => {
+    it('should write JSON to stdout on the main thread by default', () => {
+      const options = createLoggerOptions({ NODE_ENV: Environment.Test, LOG_LEVEL: 'debug' });
+
+      expect(options.transport).toBeUndefined();
+      expect(options.level).toBe('debug');
+      expect(options.formatters?.level).toBeDefined();
+    });
+
+    it('should write to stdout and rotating files in production', () => {
+      const options = createLoggerOptions({ NODE_ENV: Environment.Production, LOG_DIR: 'var/log' });
+      const { targets } = options.transport as TransportMultiOptions;
+
+      const levelLabel = { target: expect.stringContaining('level-label.transport') as string };
+
+      expect(targets).toEqual([
+        {
+          level: 'info',
+          pipeline: [levelLabel, { target: 'pino/file', options: { destination: 1 } }],
+        },
+        {
+          level: 'info',
+          pipeline: [
+            levelLabel,
+            expect.objectContaining({
+              target: expect.stringContaining('file.transport') as string,
+              options: expect.objectContaining({
+                file: path.resolve('var/log/app'),
+                size: '10m',
+                count: 7,
+                compress: true,
+              }) as object,
+            }),
+          ],
+        },
+      ]);
+      expect(options.formatters?.level).toBeUndefined();
+    });
+
+    it('should resolve worker transports relative to their module, whatever the working directory', () => {
+      const cwd = process.cwd();
+      process.chdir(tmpdir());
+      let options: LoggerOptions;
+      try {
+        options = createLoggerOptions({ NODE_ENV: Environment.Production });
+      } finally {
+        process.chdir(cwd);
+      }
+      const { targets } = options.transport as TransportMultiOptions;
+      const modules = targets
+        .flatMap((target) => ('pipeline' in target ? target.pipeline : [target]))
+        .map(({ target }) => target)
+        .filter((target) => path.isAbsolute(target));
+
+      expect(modules).toEqual([
+        expect.stringContaining('level-label.transport'),
+        expect.stringContaining('level-label.transport'),
+        expect.stringContaining('file.transport'),
+      ]);
+      for (const module of modules) {
+        expect(existsSync(module)).toBe(true);
+      }
+    });
+
+    it('should lower the logger level to the most verbose target', () => {
+      const options = createLoggerOptions({
+        LOG_LEVEL: 'warn',
+        APP_NAME: 'orders',
+        LOG_TRANSPORTS: JSON.stringify([
+          { type: 'stdout' },
+          { type: 'syslog', host: 'localhost', level: 'debug' },
+        ]),
+      });
+      const { targets } = options.transport as TransportMultiOptions;
+
+      expect(options.level).toBe('debug');
+      expect(targets.map((target) => target.level)).toEqual(['warn', 'debug']);
+      expect(targets[1]).toEqual(
+        expect.objectContaining({
+          pipeline: [
+            expect.anything(),
+            expect.objectContaining({
+              options: expect.objectContaining({ appName: 'orders' }) as object,
+            }),
+          ],
+        }),
+      );
+    });
+
+    it('should keep level labels with a single worker target', () => {
+      const options = createLoggerOptions({
+        LOG_LEVEL: 'info',
+        LOG_TRANSPORTS: '[{"type":"stdout","pretty":true}]',
+      });
+
+      expect((options.transport as TransportSingleOptions).target).toBe('pino-pretty');
+      expect(options.formatters?.level).toBeDefined();
+    });
+  });
+
+  describe('level label transport', () => {
+    it('should replace numeric levels with their upper-case labels', async () => {
+      const stream = levelLabelTransport();
+      const output: string[] = [];
+      stream.on('data', (chunk: Buffer) => output.push(chunk.toString()));
+
+      stream.write('{"level":30,"msg":"ready"}\n{"level":50,"msg":"failed"}\n');
+      stream.write('{"level":35,"msg":"custom"}\n');
+      await new Promise((resolve) => stream.end(resolve));
+
+      expect(output.join('')).toBe(
+        '{"level":"INFO","msg":"ready"}\n{"level":"ERROR","msg":"failed"}\n{"level":35,"msg":"custom"}\n',
+      );
+    });
+  });
+
+  describe('file transport', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'log-transports-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should rotate by size, compress rotated files and keep the configured count', async () => {
+      const destination = await fileTransport({
+        file: path.join(directory, 'app'),
+        size: '1k',
+        count: 2,
+        compress: true,
+      });
+      const line = `${JSON.stringify({ level: 30, msg: 'x'.repeat(500) })}\n`;
+
+      // Every pair of lines exceeds the size and rotates to the next file number
+      for (let number = 2; number <= 5; number++) {
+        destination.write(line);
+        destination.write(line);
+        await waitForCompressedRotation(directory, destination, number);
+      }
+      destination.end();
+
+      expect(listFiles(directory, '.gz')).toEqual(['app.3.log.gz', 'app.4.log.gz']);
+      const [archive] = listFiles(directory, '.gz');
+      expect(gunzipSync(readFileSync(path.join(directory, archive))).toString()).toContain('xxx');
+    });
+
+    it('should prune the archives of earlier runs', async () => {
+      const hourAgo = new Date(Date.now() - 3_600_000);
+      for (const name of ['app.7.log.gz', 'app.8.log.gz', 'other.1.log.gz']) {
+        writeFileSync(path.join(directory, name), '');
+        utimesSync(path.join(directory, name), hourAgo, hourAgo);
+      }
+      const destination = await fileTransport({
+        file: path.join(directory, 'app'),
+        size: '1k',
+        count: 2,
+        compress: true,
+      });
+      const line = `${JSON.stringify({ level: 30, msg: 'x'.repeat(500) })}\n`;
+
+      destination.write(line);
+      destination.write(line);
+      await waitForCompressedRotation(directory, destination, 2);
+      await waitFor(() => listFiles(directory, '.gz').length === 3);
+      destination.end();
+
+      expect(listFiles(directory, '.gz')).toEqual([
+        'app.1.log.gz',
+        'app.8.log.gz',
+        'other.1.log.gz',
+      ]);
+    });
+  });
+
+  describe('syslog transport', () => {
+    let server: StandInSyslogServer;
+
+    beforeEach(() => {
+      server = new StandInSyslogServer();
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it('should format RFC 5424 messages', () => {
+      const line = JSON.stringify({ level: 'ERROR', time: 0, pid: 42, msg: 'boom' });
+
+      expect(
+        formatSyslogMessage(line, { facility: 16, appName: 'orders', hostname: 'web-1' }),
+      ).toBe(`<131>1 1970-01-01T00:00:00.000Z web-1 orders 42 - - ${line}`);
+    });
+
+    it('should send one datagram per line over UDP', async () => {
+      const port = await server.listenUdp();
+      const stream = new SyslogStream({ host: '127.0.0.1', port, hostname: 'web-1' });
+
+      stream.write(`${JSON.stringify({ level: 40, msg: 'first' })}\n`);
+      stream.write(`${JSON.stringify({ level: 20, msg: 'second' })}\n`);
+      await waitFor(() => server.received.length === 2);
+      await endStream(stream);
+
+      expect(server.received[0]).toMatch(/^<12>1 \S+ web-1 - - - - {.*"first"/);
+      expect(server.received[1]).toMatch(/^<15>1 /);
+    });
+
+    it('should use octet-counting framing over TCP', async () => {
+      const port = await server.listenTcp();
+      const stream = new SyslogStream({ host: '127.0.0.1', port, protocol: 'tcp' });
+
+      stream.write(`${JSON.stringify({ level: 30, msg: 'hello' })}\n`);
+      await endStream(stream);
+      await waitFor(() => server.received.length > 0);
+
+      const [frame] = server.received;
+      const [length, ...message] = frame.split(' ');
+      expect(Number(length)).toBe(Buffer.byteLength(message.join(' ')));
+      expect(message.join(' ')).toMatch(/^<14>1 .*"hello"/);
+    });
+  });
+
+  describe('HTTP transport', () => {
+    let endpoint: StandInLogEndpoint;
+
+    beforeEach(async () => {
+      endpoint = new StandInLogEndpoint();
+      await endpoint.listen();
+    });
+
+    afterEach(async () => {
+      await endpoint.close();
+    });
+
+    it('should ship NDJSON batches and flush the rest on end', async () => {
+      const stream = new HttpBatchStream({ url: endpoint.url, batchSize: 2 });
+
+      for (const msg of ['first', 'second', 'third']) {
+        stream.write(`${JSON.stringify({ msg })}\n`);
+      }
+      await endStream(stream);
+
+      expect(endpoint.batches.map((batch) => batch.length)).toEqual([2, 1]);
+      expect(endpoint.contentTypes[0]).toBe('application/x-ndjson');
+      expect(stream.getStats()).toEqual(expect.objectContaining({ queued: 0, sent: 3 }));
+    });
+  });
+});
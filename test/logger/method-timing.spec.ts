@@ -0,0 +1,176 @@
+import { performance } from 'node:perf_hooks';
+
+import { Injectable, SetMetadata } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+
+import { CustomLoggerService, MethodTimingService, Timed, Trace } from '../../src/common/logger';
+import { mockCustomLoggerService, resetLoggerMocks } from '../utils/logger-mocks';
+
+@Injectable()
+@Timed()
+class PaymentsService {
+  charge(amount: number, card: { number: string; cardCvv: string }): string {
+    return `charged ${amount} to ${card.number.slice(-4)}`;
+  }
+
+  async refund(amount: number): Promise<number> {
+    await Promise.resolve();
+    return amount;
+  }
+
+  async capture(): Promise<void> {
+    await Promise.resolve();
+    throw new Error('Card declined');
+  }
+
+  @Trace({ slowThresholdMs: 5, logArgs: false })
+  @SetMetadata('payments:idempotent', true)
+  settle(batchId: string): string {
+    return batchId;
+  }
+
+  void(): never {
+    throw new Error('Already settled');
+  }
+}
+
+/**
+ * Let performance.now() advance by the given durations, one per call
+ */
+function mockDurations(...durationsMs: number[]): void {
+  let now = 0;
+  const steps = durationsMs.flatMap((duration) => [0, duration]);
+  jest.spyOn(performance, 'now').mockImplementation(() => {
+    now += steps.shift() ?? 0;
+    return now;
+  });
+}
+
+describe('Method timing', () => {
+  let payments: PaymentsService;
+
+  beforeEach(async () => {
+    resetLoggerMocks();
+    mockCustomLoggerService.isLevelEnabled.mockReturnValue(true);
+    const config: Record<string, unknown> = {
+      LOG_SLOW_CALL_THRESHOLD_MS: 100,
+      LOG_MASKING_STRATEGIES: '{"number":{"type":"last","visible":4}}',
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        MethodTimingService,
+        { provide: CustomLoggerService, useValue: mockCustomLoggerService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) => config[key],
+          },
+        },
+      ],
+    }).compile();
+
+    payments = module.get(PaymentsService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should log entry with sanitized arguments and exit with the duration at trace level', () => {
+    mockDurations(12.5);
+
+    expect(payments.charge(42, { number: '4242424242424242', cardCvv: '123' })).toBe(
+      'charged 42 to 4242',
+    );
+
+    expect(mockCustomLoggerService.trace).toHaveBeenNthCalledWith(
+      1,
+      'Entering PaymentsService.charge',
+      {
+        context: 'PaymentsService',
+        method: 'charge',
+        args: [42, { number: '************4242', cardCvv: '[REDACTED]' }],
+      },
+    );
+    expect(mockCustomLoggerService.trace).toHaveBeenNthCalledWith(
+      2,
+      'Exiting PaymentsService.charge after 12.5 ms',
+      { context: 'PaymentsService', method: 'charge', durationMs: 12.5 },
+    );
+    expect(mockCustomLoggerService.warn).not.toHaveBeenCalled();
+  });
+
+  it('should measure async methods until they settle and warn about slow calls', async () => {
+    mockDurations(250);
+
+    await expect(payments.refund(10)).resolves.toBe(10);
+
+    expect(mockCustomLoggerService.warn).toHaveBeenCalledWith(
+      'Slow call PaymentsService.refund took 250 ms',
+      expect.objectContaining({ durationMs: 250, slowThresholdMs: 100, logKey: 'method.slow' }),
+    );
+  });
+
+  it('should log and rethrow thrown and rejected errors', async () => {
+    await expect(payments.capture()).rejects.toThrow('Card declined');
+    expect(() => payments.void()).toThrow('Already settled');
+
+    expect(mockCustomLoggerService.trace).toHaveBeenCalledWith(
+      expect.stringMatching(/^Failed PaymentsService.capture after/),
+      expect.objectContaining({ error: 'Card declined' }),
+    );
+    expect(mockCustomLoggerService.trace).toHaveBeenCalledWith(
+      expect.stringMatching(/^Failed PaymentsService.void after/),
+      expect.objectContaining({ error: 'Already settled' }),
+    );
+  });
+
+  it('should apply method-level options and keep method names and metadata', () => {
+    mockDurations(20);
+
+    payments.settle('batch-1');
+
+    expect(mockCustomLoggerService.trace).toHaveBeenNthCalledWith(
+      1,
+      'Entering PaymentsService.settle',
+      {
+        context: 'PaymentsService',
+        method: 'settle',
+      },
+    );
+    expect(mockCustomLoggerService.warn).toHaveBeenCalledWith(
+      'Slow call PaymentsService.settle took 20 ms',
+      expect.objectContaining({ slowThresholdMs: 5 }),
+    );
+    expect(PaymentsService.prototype.settle.name).toBe('settle');
+    expect(Reflect.getMetadata('payments:idempotent', PaymentsService.prototype.settle)).toBe(true);
+  });
+
+  it('should skip the trace logs and the sanitizing of arguments when trace is disabled', () => {
+    mockCustomLoggerService.isLevelEnabled.mockReturnValue(false);
+    mockDurations(250);
+    const card = {
+      number: '4242424242424242',
+      get cardCvv(): string {
+        throw new Error('Arguments should not be read');
+      },
+    };
+
+    expect(payments.charge(42, card)).toBe('charged 42 to 4242');
+
+    expect(mockCustomLoggerService.isLevelEnabled).toHaveBeenCalledWith('trace', 'PaymentsService');
+    expect(mockCustomLoggerService.trace).not.toHaveBeenCalled();
+    expect(mockCustomLoggerService.warn).toHaveBeenCalledWith(
+      'Slow call PaymentsService.charge took 250 ms',
+      expect.objectContaining({ durationMs: 250 }),
+    );
+  });
+
+  it('should run untimed when the instance was not created by Nest', () => {
+    expect(new PaymentsService().settle('batch-2')).toBe('batch-2');
+    expect(mockCustomLoggerService.trace).not.toHaveBeenCalled();
+  });
+});
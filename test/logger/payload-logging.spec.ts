@@ -0,0 +1,245 @@
+import { Writable } from 'node:stream';
+
+import { CallHandler, ExecutionContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { lastValueFrom, of } from 'rxjs';
+
+import {
+  formatPayload,
+  LogPayloads,
+  PayloadLoggingInterceptor,
+  resolvePayloadLoggingOptions,
+} from '../../src/common/logger';
+import { Sensitive } from '../../src/common/utils';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+class SignupDto {
+  name!: string;
+
+  @Sensitive({ strategy: 'email' })
+  contact!: string;
+}
+
+class WebhooksController {
+  receive(): void {}
+
+  @LogPayloads({ maxBodyLength: 10 })
+  receiveLarge(): void {}
+
+  @LogPayloads({ enabled: false })
+  rotateSecret(): void {}
+}
+
+/**
+ * Minimal Express response emitting finish once the interceptor's result is sent
+ */
+class StandInResponse extends Writable {
+  statusCode = 201;
+  private readonly headers: Record<string, string> = {};
+
+  setHeader(name: string, value: string): void {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  getHeader(name: string): string | undefined {
+    return this.headers[name.toLowerCase()];
+  }
+}
+
+function createRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    method: 'POST',
+    path: '/api/v1/webhooks',
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    body: { event: 'invoice.paid', apiKey: 'secret' },
+    ...overrides,
+  } as Request;
+}
+
+function createExecutionContext(
+  handler: () => void,
+  request: Request,
+  response: StandInResponse,
+): ExecutionContext {
+  return {
+    getType: () => 'http',
+    getHandler: () => handler,
+    getClass: () => WebhooksController,
+    switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+  } as unknown as ExecutionContext;
+}
+
+function createCallHandler(result: unknown): CallHandler {
+  return { handle: () => of(result) };
+}
+
+/**
+ * Run a handler through the interceptor and send the response
+ */
+async function intercept(
+  interceptor: PayloadLoggingInterceptor,
+  handler: () => void,
+  request = createRequest(),
+): Promise<void> {
+  const response = new StandInResponse();
+  await lastValueFrom(
+    interceptor.intercept(
+      createExecutionContext(handler, request, response),
+      createCallHandler({ received: true }),
+    ),
+  );
+  response.emit('finish');
+}
+
+describe('Payload logging', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  describe('resolvePayloadLoggingOptions', () => {
+    it('should default to disabled with safe limits', () => {
+      expect(resolvePayloadLoggingOptions(createConfigService())).toEqual({
+        enabled: false,
+        maxBodyLength: 4096,
+        contentTypes: [
+          'application/json',
+          'application/*+json',
+          'application/x-www-form-urlencoded',
+          'text/*',
+        ],
+        sampleRate: 1,
+        excludeRoutes: ['*/login', '*/auth/*'],
+      });
+    });
+
+    it('should read comma-separated lists', () => {
+      const options = resolvePayloadLoggingOptions(
+        createConfigService({
+          LOG_PAYLOADS_ENABLED: 'true',
+          LOG_PAYLOADS_CONTENT_TYPES: 'application/json, text/plain',
+          LOG_PAYLOADS_EXCLUDE_ROUTES: '*/tokens,',
+          LOG_PAYLOADS_SAMPLE_RATE: 0.25,
+        }),
+      );
+
+      expect(options).toEqual(
+        expect.objectContaining({
+          enabled: true,
+          contentTypes: ['application/json', 'text/plain'],
+          excludeRoutes: ['*/tokens'],
+          sampleRate: 0.25,
+        }),
+      );
+    });
+  });
+
+  describe('formatPayload', () => {
+    const options = { contentTypes: ['application/json', 'text/*'], maxBodyLength: 40 };
+
+    it('should sanitize bodies of allowed media types', () => {
+      expect(
+        formatPayload({ name: 'Ada', password: 'hunter2' }, 'application/json', options),
+      ).toEqual({ contentType: 'application/json', body: { name: 'Ada', password: '[REDACTED]' } });
+      expect(formatPayload('hello', 'text/plain', options)).toEqual({
+        contentType: 'text/plain',
+        body: 'hello',
+      });
+    });
+
+    it('should mask the @Sensitive() properties of the body type', () => {
+      const body = { name: 'Ada', contact: 'ada@x.io' };
+
+      expect(formatPayload(body, 'application/json', options, { type: SignupDto })).toEqual({
+        contentType: 'application/json',
+        body: { name: 'Ada', contact: 'a***@x.io' },
+      });
+    });
+
+    it('should skip empty bodies and other media types', () => {
+      expect(formatPayload({}, 'application/json', options)).toBeUndefined();
+      expect(formatPayload('', 'text/plain', options)).toBeUndefined();
+      expect(formatPayload(Buffer.from('%PDF'), 'application/pdf', options)).toBeUndefined();
+      expect(formatPayload({ name: 'Ada' }, undefined, options)).toBeUndefined();
+    });
+
+    it('should truncate long bodies', () => {
+      const body = { items: Array.from({ length: 20 }, (_, index) => index) };
+
+      expect(formatPayload(body, 'application/json', options)).toEqual({
+        contentType: 'application/json',
+        body: JSON.stringify(body).slice(0, 40),
+        size: JSON.stringify(body).length,
+        truncated: true,
+      });
+    });
+  });
+
+  describe('PayloadLoggingInterceptor', () => {
+    it('should log nothing unless enabled globally or for the route', async () => {
+      const interceptor = new PayloadLoggingInterceptor(createConfigService(), new Reflector());
+
+      await intercept(interceptor, WebhooksController.prototype.receive);
+      expect(log).not.toHaveBeenCalled();
+
+      await intercept(interceptor, WebhooksController.prototype.receiveLarge);
+      expect(log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          request: expect.objectContaining({ truncated: true }) as object,
+        }),
+      );
+    });
+
+    it('should log sanitized request and response bodies once the response is sent', async () => {
+      const interceptor = new PayloadLoggingInterceptor(
+        createConfigService({ LOG_PAYLOADS_ENABLED: 'true' }),
+        new Reflector(),
+      );
+
+      await intercept(interceptor, WebhooksController.prototype.receive);
+
+      expect(log).toHaveBeenCalledWith({
+        msg: 'POST /api/v1/webhooks payload',
+        logKey: 'http.payload',
+        request: {
+          contentType: 'application/json',
+          body: { event: 'invoice.paid', apiKey: '[REDACTED]' },
+        },
+        response: { statusCode: 201, contentType: 'application/json', body: { received: true } },
+      });
+    });
+
+    it('should skip excluded routes, opted-out handlers and unsampled requests', async () => {
+      const interceptor = new PayloadLoggingInterceptor(
+        createConfigService({ LOG_PAYLOADS_ENABLED: 'true' }),
+        new Reflector(),
+      );
+      const unsampled = new PayloadLoggingInterceptor(
+        createConfigService({ LOG_PAYLOADS_ENABLED: 'true', LOG_PAYLOADS_SAMPLE_RATE: 0 }),
+        new Reflector(),
+      );
+
+      await intercept(
+        interceptor,
+        WebhooksController.prototype.receive,
+        createRequest({ path: '/api/v1/auth/login' }),
+      );
+      await intercept(interceptor, WebhooksController.prototype.rotateSecret);
+      await intercept(unsampled, WebhooksController.prototype.receive);
+
+      expect(log).not.toHaveBeenCalled();
+    });
+  });
+});
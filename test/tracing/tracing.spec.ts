@@ -0,0 +1,299 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { lastValueFrom, NEVER, throwError } from 'rxjs';
+
+import { RequestContextService } from '../../src/common/context';
+import { CorrelationIdMiddleware } from '../../src/common/logger';
+import {
+  formatTraceParent,
+  InMemorySpanExporter,
+  OtlpHttpSpanExporter,
+  parseTraceParent,
+  SpanKind,
+  SpanStatusCode,
+  TraceContext,
+  TracingInterceptor,
+  TracingService,
+} from '../../src/common/tracing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => resolve(body));
+  });
+}
+
+function failWith(message: string): () => never {
+  return () => {
+    throw new Error(message);
+  };
+}
+
+function waitForNextTick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+function readTraceContextLater(
+  requestContext: RequestContextService,
+): () => Promise<TraceContext | undefined> {
+  return async () => {
+    await waitForNextTick();
+    return requestContext.getTraceContext();
+  };
+}
+
+/**
+ * Local stand-in for an OpenTelemetry collector recording received requests
+ */
+class StandInCollector {
+  readonly bodies: Array<Record<string, unknown>> = [];
+  readonly paths: Array<string | undefined> = [];
+  private readonly server: Server;
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      void readBody(request).then((body) => {
+        this.paths.push(request.url);
+        this.bodies.push(JSON.parse(body) as Record<string, unknown>);
+        response.writeHead(200).end('{}');
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Minimal Express response recording headers and lifecycle listeners
+ */
+class StandInResponse {
+  statusCode = 200;
+  readonly headers: Record<string, string> = {};
+  private readonly listeners: Array<[string, () => void]> = [];
+
+  set(name: string, value: string): this {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  once(event: string, listener: () => void): this {
+    this.listeners.push([event, listener]);
+    return this;
+  }
+
+  emit(event: string): void {
+    for (const [name, listener] of this.listeners) {
+      if (name === event) listener();
+    }
+  }
+}
+
+describe('Tracing', () => {
+  let exporter: InMemorySpanExporter;
+  let requestContext: RequestContextService;
+  let tracing: TracingService;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    requestContext = new RequestContextService();
+    tracing = new TracingService(createConfigService(), requestContext, exporter);
+  });
+
+  describe('traceparent', () => {
+    it('should parse and format valid headers', () => {
+      const traceContext = parseTraceParent(`00-${TRACE_ID}-${PARENT_SPAN_ID}-01`, 'vendor=value');
+
+      expect(traceContext).toEqual({
+        traceId: TRACE_ID,
+        spanId: PARENT_SPAN_ID,
+        traceFlags: 1,
+        traceState: 'vendor=value',
+      });
+      expect(formatTraceParent(traceContext!)).toBe(`00-${TRACE_ID}-${PARENT_SPAN_ID}-01`);
+    });
+
+    it.each([
+      undefined,
+      'garbage',
+      `ff-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+      `00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01`,
+      `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+    ])('should ignore invalid header %s', (header) => {
+      expect(parseTraceParent(header)).toBeUndefined();
+    });
+  });
+
+  describe('TracingService', () => {
+    it('should nest spans and expose the active span to the request context', async () => {
+      const active = await tracing.withSpan('outer', () =>
+        tracing.withSpan('inner', readTraceContextLater(requestContext)),
+      );
+
+      const [inner, outer] = exporter.getFinishedSpans();
+      expect(inner.name).toBe('inner');
+      expect(outer.name).toBe('outer');
+      expect(inner.traceId).toBe(outer.traceId);
+      expect(inner.parentSpanId).toBe(outer.spanId);
+      expect(active?.spanId).toBe(inner.spanId);
+      expect(requestContext.getTraceContext()).toBeUndefined();
+    });
+
+    it('should record errors on the span and rethrow them', () => {
+      expect(() => tracing.withSpan('failing', failWith('boom'))).toThrow('boom');
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.status).toEqual({ code: SpanStatusCode.Error, message: 'boom' });
+      expect(span.events[0]).toEqual(
+        expect.objectContaining({
+          name: 'exception',
+          attributes: { 'exception.type': 'Error', 'exception.message': 'boom' },
+        }),
+      );
+    });
+
+    it('should propagate but not export unsampled traces', () => {
+      tracing = new TracingService(
+        createConfigService({ TRACING_SAMPLE_RATIO: 0 }),
+        requestContext,
+        exporter,
+      );
+
+      const headers = tracing.withSpan('unsampled', () => tracing.injectHeaders());
+
+      expect(headers.traceparent).toMatch(/^00-[\da-f]{32}-[\da-f]{16}-00$/);
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+    });
+  });
+
+  describe('TracingInterceptor', () => {
+    const context = {
+      getClass: () => ({ name: 'UsersController' }),
+      getHandler: () => ({ name: 'findOne' }),
+      getType: () => 'http',
+    } as unknown as ExecutionContext;
+
+    it('should end the span of failed and unsubscribed handlers', async () => {
+      const interceptor = new TracingInterceptor(tracing);
+      const failing: CallHandler = { handle: () => throwError(failWith('boom')) };
+      const pending: CallHandler = { handle: () => NEVER };
+
+      await expect(lastValueFrom(interceptor.intercept(context, failing))).rejects.toThrow('boom');
+      interceptor.intercept(context, pending).subscribe().unsubscribe();
+
+      const [failed, aborted] = exporter.getFinishedSpans();
+      expect(failed.name).toBe('UsersController.findOne');
+      expect(failed.status).toEqual({ code: SpanStatusCode.Error, message: 'boom' });
+      expect(aborted.name).toBe('UsersController.findOne');
+      expect(aborted.status.code).not.toBe(SpanStatusCode.Error);
+    });
+  });
+
+  describe('CorrelationIdMiddleware', () => {
+    it('should continue the incoming trace in a server span', () => {
+      const middleware = new CorrelationIdMiddleware(tracing);
+      const request = {
+        method: 'GET',
+        path: '/users/42',
+        headers: {
+          traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+          tracestate: 'vendor=value',
+        },
+      } as unknown as Request;
+      const response = new StandInResponse();
+
+      middleware.use(request, response as unknown as Response, jest.fn());
+      Object.assign(request, { route: { path: '/users/:id' } });
+      response.statusCode = 503;
+      response.emit('finish');
+      response.emit('close');
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toEqual(
+        expect.objectContaining({
+          traceId: TRACE_ID,
+          parentSpanId: PARENT_SPAN_ID,
+          name: 'GET /users/:id',
+          kind: SpanKind.Server,
+          status: { code: SpanStatusCode.Error, message: 'HTTP 503' },
+        }),
+      );
+      expect(response.headers.traceparent).toBe(`00-${TRACE_ID}-${spans[0].spanId}-01`);
+      expect(response.headers.tracestate).toBe('vendor=value');
+    });
+  });
+
+  describe('OtlpHttpSpanExporter', () => {
+    let collector: StandInCollector;
+
+    beforeAll(async () => {
+      collector = new StandInCollector();
+      await collector.listen();
+    });
+
+    afterAll(async () => {
+      await collector.close();
+    });
+
+    it('should send spans to the collector as OTLP/JSON', async () => {
+      const otlpExporter = new OtlpHttpSpanExporter({
+        url: collector.url,
+        serviceName: 'orders',
+      });
+      tracing = new TracingService(createConfigService(), requestContext, otlpExporter);
+
+      tracing.withSpan('checkout', (span) => span.setAttribute('order.items', 3), {
+        kind: SpanKind.Server,
+      });
+      await otlpExporter.shutdown();
+
+      expect(collector.paths).toEqual(['/v1/traces']);
+      expect(collector.bodies[0]).toEqual({
+        resourceSpans: [
+          expect.objectContaining({
+            resource: {
+              attributes: [{ key: 'service.name', value: { stringValue: 'orders' } }],
+            },
+            scopeSpans: [
+              expect.objectContaining({
+                spans: [
+                  expect.objectContaining({
+                    name: 'checkout',
+                    kind: 2,
+                    startTimeUnixNano: expect.stringMatching(/^\d{19}$/),
+                    attributes: [{ key: 'order.items', value: { intValue: '3' } }],
+                    status: { code: 0 },
+                  }),
+                ],
+              }),
+            ],
+          }),
+        ],
+      });
+    });
+  });
+});
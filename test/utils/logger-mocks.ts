@@ -26,6 +26,7 @@ export const mockCustomLoggerService = {
   debug: jest.fn(),
   trace: jest.fn(),
   fatal: jest.fn(),
+  isLevelEnabled: jest.fn(),
 };
 
 /**
@@ -0,0 +1,188 @@
+import { Writable } from 'node:stream';
+
+import { ConfigService } from '@nestjs/config';
+import pino, { LoggerOptions } from 'pino';
+
+import { REDACTION_RULES } from '../../src/common/constants/sensitive-fields.constants';
+import { LoggerConfigService } from '../../src/common/logger';
+import {
+  applyMaskingStrategy,
+  MaskingStrategyConfig,
+  parseMaskingRules,
+  sanitizeObject,
+  sanitizeObjectShallow,
+} from '../../src/common/utils';
+
+const context = { mask: '[REDACTED]', pseudonymizationKey: 'test-key' };
+
+function mask(value: unknown, strategy: MaskingStrategyConfig): unknown {
+  return applyMaskingStrategy(value, strategy, context);
+}
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+/**
+ * Create a pino logger from the application options, collecting the written lines
+ */
+function createPinoLogger(values: Record<string, unknown>, lines: Record<string, unknown>[]) {
+  const options = {
+    ...(new LoggerConfigService(createConfigService(values)).createLoggerOptions()
+      .pinoHttp as LoggerOptions),
+  };
+  delete options.transport;
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback): void {
+      lines.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+      callback();
+    },
+  });
+
+  return pino(options, stream);
+}
+
+describe('Masking strategies', () => {
+  describe('applyMaskingStrategy', () => {
+    it('should mask fully, keeping the last characters or the length', () => {
+      expect(mask('4111111111111111', 'full')).toBe('[REDACTED]');
+      expect(mask('secret', { type: 'full', mask: '***' })).toBe('***');
+      expect(mask('4111111111111111', 'last')).toBe('************1111');
+      expect(mask('4111111111111111', { type: 'last', visible: 2, maskChar: '#' })).toBe(
+        '##############11',
+      );
+      expect(mask('123', 'last')).toBe('***');
+      expect(mask('hunter2', 'length')).toBe('*******');
+    });
+
+    it('should mask the local part of emails', () => {
+      expect(mask('jane.doe@example.com', 'email')).toBe('j***@example.com');
+      expect(mask('j@example.com', 'email')).toBe('***@example.com');
+      expect(mask('not an email', 'email')).toBe('[REDACTED]');
+    });
+
+    it('should pseudonymize values with a keyed HMAC', () => {
+      const pseudonym = mask('user-42', 'hmac') as string;
+
+      expect(pseudonym).toMatch(/^[\da-f]{16}$/);
+      expect(mask('user-42', 'hmac')).toBe(pseudonym);
+      expect(mask('user-43', 'hmac')).not.toBe(pseudonym);
+      expect(
+        applyMaskingStrategy('user-42', 'hmac', { ...context, pseudonymizationKey: 'other' }),
+      ).not.toBe(pseudonym);
+      expect(mask('user-42', { type: 'hmac', length: 8 })).toBe(pseudonym.slice(0, 8));
+      expect(applyMaskingStrategy('user-42', 'hmac', { mask: '[REDACTED]' })).toBe('[REDACTED]');
+    });
+
+    it('should preserve the type of numbers and booleans', () => {
+      expect(mask(42, 'type')).toBe(0);
+      expect(mask(true, 'type')).toBe(false);
+      expect(mask('text', 'type')).toBe('[REDACTED]');
+      expect(mask({ age: 42, tags: ['a'], verified: true }, 'type')).toEqual({
+        age: 0,
+        tags: ['[REDACTED]'],
+        verified: false,
+      });
+    });
+  });
+
+  describe('parseMaskingRules', () => {
+    it('should create word and path rules, skipping unknown strategies', () => {
+      expect(
+        parseMaskingRules(
+          '{"email":"email","cardNumber":{"type":"last","visible":4},"user.*.id":"hmac","x":"nope"}',
+        ),
+      ).toEqual([
+        { pattern: 'email', match: 'word', strategy: 'email' },
+        { pattern: 'cardNumber', match: 'word', strategy: { type: 'last', visible: 4 } },
+        { pattern: 'user.*.id', match: 'path', strategy: 'hmac' },
+      ]);
+      expect(parseMaskingRules('[1]')).toEqual([]);
+      expect(parseMaskingRules('not json')).toEqual([]);
+    });
+  });
+
+  describe('sanitizeObject', () => {
+    it('should apply the strategy of the last matching rule', () => {
+      const rules = [
+        ...REDACTION_RULES,
+        ...parseMaskingRules('{"email":"email","cardNumber":"last","user.*.id":"hmac"}'),
+      ];
+      const order = {
+        email: 'jane@example.com',
+        cardNumber: '4111111111111111',
+        password: 'hunter2',
+        user: { profile: { id: 'user-42' } },
+      };
+
+      const sanitized = sanitizeObject(order, { rules, pseudonymizationKey: 'test-key' });
+
+      expect(sanitized).toEqual({
+        email: 'j***@example.com',
+        cardNumber: '************1111',
+        password: '[REDACTED]',
+        user: { profile: { id: mask('user-42', 'hmac') } },
+      });
+      expect(sanitizeObjectShallow(order, { rules }).cardNumber).toBe('************1111');
+    });
+
+    it('should prefer a mask function over the strategies', () => {
+      expect(
+        sanitizeObject(
+          { email: 'jane@example.com' },
+          {
+            rules: [{ pattern: 'email', match: 'word', strategy: 'email' }],
+            maskFunction: () => 'custom',
+          },
+        ),
+      ).toEqual({ email: 'custom' });
+    });
+  });
+
+  describe('pino integration', () => {
+    it('should mask redacted paths with the configured strategies', () => {
+      const lines: Record<string, unknown>[] = [];
+      const logger = createPinoLogger(
+        {
+          LOG_MASKING_STRATEGIES: '{"email":"email","userId":"hmac"}',
+          LOG_PSEUDONYMIZATION_KEY: 'test-key',
+        },
+        lines,
+      );
+
+      logger.info(
+        { user: { email: 'jane@example.com' }, userId: 'user-42', password: 'hunter2' },
+        'Signed in',
+      );
+
+      expect(lines[0]).toMatchObject({
+        user: { email: 'j***@example.com' },
+        userId: mask('user-42', 'hmac'),
+        password: '[REDACTED]',
+      });
+    });
+
+    it('should write the fields sanitized by sanitizeObject as they are', () => {
+      const lines: Record<string, unknown>[] = [];
+      const logger = createPinoLogger({ LOG_PII_DETECTORS: 'email' }, lines);
+      const rules = parseMaskingRules('{"token":{"type":"last","visible":2}}');
+
+      logger.info(
+        {
+          credentials: sanitizeObject({ token: '123456', note: 'jane@example.com' }, { rules }),
+          user: { token: sanitizeObject({ token: '123456' }, { rules }) },
+          token: 'abc',
+        },
+        'Signed in',
+      );
+
+      expect(lines[0]).toMatchObject({
+        credentials: { token: '****56', note: '[REDACTED]' },
+        user: { token: { token: '****56' } },
+        token: '[REDACTED]',
+      });
+    });
+  });
+});
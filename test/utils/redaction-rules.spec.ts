@@ -0,0 +1,162 @@
+import {
+  REDACTION_ALLOWLIST,
+  REDACTION_RULES,
+} from '../../src/common/constants/sensitive-fields.constants';
+import {
+  createRedactionMatcher,
+  isSensitiveField,
+  sanitizeObject,
+  sanitizeObjectShallow,
+  splitKeyWords,
+  toPinoRedactPaths,
+} from '../../src/common/utils';
+
+describe('Redaction rules', () => {
+  describe('splitKeyWords', () => {
+    it('should split camelCase, acronyms, separators and digits', () => {
+      expect(splitKeyWords('x-apiKey_2')).toEqual(['x', 'api', 'key', '2']);
+      expect(splitKeyWords('APIKey')).toEqual(['api', 'key']);
+      expect(splitKeyWords('PASSWORD')).toEqual(['password']);
+    });
+  });
+
+  describe('createRedactionMatcher', () => {
+    it('should match word rules on word boundaries', () => {
+      const isRedacted = createRedactionMatcher([
+        { pattern: 'pin', match: 'word' },
+        { pattern: 'auth', match: 'word' },
+        { pattern: 'token', match: 'word' },
+        { pattern: 'apiKey', match: 'word' },
+      ]);
+
+      for (const key of ['pin', 'userPin', 'pin_code', 'authToken', 'refreshToken', 'x-api-key']) {
+        expect(isRedacted(key, key)).toBe(true);
+      }
+      for (const key of ['shipping', 'mapping', 'author', 'tokenizerVersion', 'apiVersion']) {
+        expect(isRedacted(key, key)).toBe(false);
+      }
+    });
+
+    it('should match exact rules on the whole key, ignoring case and separators', () => {
+      const isRedacted = createRedactionMatcher([{ pattern: 'apiKey', match: 'exact' }]);
+
+      expect(isRedacted('api_key', 'api_key')).toBe(true);
+      expect(isRedacted('API-KEY', 'API-KEY')).toBe(true);
+      expect(isRedacted('userApiKey', 'userApiKey')).toBe(false);
+    });
+
+    it('should match path globs', () => {
+      const isRedacted = createRedactionMatcher([
+        { pattern: 'user.*.ssn', match: 'path' },
+        { pattern: 'items[].card', match: 'path' },
+      ]);
+
+      expect(isRedacted('ssn', 'user.spouse.ssn')).toBe(true);
+      expect(isRedacted('ssn', 'user.ssn')).toBe(false);
+      expect(isRedacted('ssn', 'user.spouse.child.ssn')).toBe(false);
+      expect(isRedacted('card', 'items[].card')).toBe(true);
+      expect(isRedacted('card', 'items.card')).toBe(false);
+    });
+
+    it('should give allowlist exceptions precedence', () => {
+      const isRedacted = createRedactionMatcher(
+        [{ pattern: 'token', match: 'word' }],
+        [{ pattern: 'tokenType', match: 'exact' }],
+      );
+
+      expect(isRedacted('token_type', 'token_type')).toBe(false);
+      expect(isRedacted('accessToken', 'accessToken')).toBe(true);
+    });
+  });
+
+  describe('sanitizeObject', () => {
+    it('should not redact keys that merely contain a sensitive word', () => {
+      const sanitized = sanitizeObject({
+        shipping: 'express',
+        author: 'Jane',
+        tokenizerVersion: 2,
+        tokenType: 'Bearer',
+        userPin: '1234',
+        refreshToken: 'abc',
+      });
+
+      expect(sanitized).toEqual({
+        shipping: 'express',
+        author: 'Jane',
+        tokenizerVersion: 2,
+        tokenType: 'Bearer',
+        userPin: '[REDACTED]',
+        refreshToken: '[REDACTED]',
+      });
+    });
+
+    it('should apply path rules and allowlist exceptions', () => {
+      const order = {
+        items: [{ card: '4111', sku: 'A1' }],
+        user: { spouse: { ssn: '123', name: 'Sam' } },
+        pinned: true,
+      };
+
+      expect(
+        sanitizeObject(order, {
+          rules: [
+            ...REDACTION_RULES,
+            { pattern: 'items[].card', match: 'path' },
+            { pattern: 'user.*.ssn', match: 'path' },
+            { pattern: 'pinned', match: 'word' },
+          ],
+          allow: [...REDACTION_ALLOWLIST, { pattern: 'pinned', match: 'exact' }],
+        }),
+      ).toEqual({
+        items: [{ card: '[REDACTED]', sku: 'A1' }],
+        user: { spouse: { ssn: '[REDACTED]', name: 'Sam' } },
+        pinned: true,
+      });
+    });
+
+    it('should match custom sensitive fields as words', () => {
+      expect(isSensitiveField('set-cookie', ['cookie'])).toBe(true);
+      expect(isSensitiveField('cookies', ['cookie'])).toBe(false);
+      expect(
+        sanitizeObject(
+          { sessionId: 'abc', session: 'x' },
+          { customSensitiveFields: ['sessionId'] },
+        ),
+      ).toEqual({ sessionId: '[REDACTED]', session: 'x' });
+    });
+  });
+
+  describe('sanitizeObjectShallow', () => {
+    it('should match array items with the same rules as object keys', () => {
+      const sanitized = sanitizeObjectShallow([
+        'author',
+        'authToken',
+        { author: 'Jane', password: 'secret', profile: { token: 'abc' } },
+      ]);
+
+      expect(sanitized).toEqual([
+        'author',
+        '[REDACTED]',
+        { author: 'Jane', password: '[REDACTED]', profile: { token: 'abc' } },
+      ]);
+    });
+  });
+
+  describe('toPinoRedactPaths', () => {
+    it('should convert rules to Pino redact paths', () => {
+      expect(
+        toPinoRedactPaths([
+          { pattern: 'password', match: 'word' },
+          { pattern: 'items[].card', match: 'path' },
+          { pattern: 'req.headers.x-api-key', match: 'path' },
+        ]),
+      ).toEqual([
+        'password',
+        '*.password',
+        'req.body.password',
+        'items[*].card',
+        'req.headers["x-api-key"]',
+      ]);
+    });
+  });
+});
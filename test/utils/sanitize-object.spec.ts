@@ -0,0 +1,154 @@
+import { IncomingMessage } from 'node:http';
+import { Socket } from 'node:net';
+import { PassThrough } from 'node:stream';
+
+import {
+  applyMaskingStrategy,
+  CIRCULAR_MARKER,
+  MAX_DEPTH_MARKER,
+  sanitizeObject,
+  TRUNCATED_MARKER,
+} from '../../src/common/utils';
+
+class UserEntity {
+  id = 42;
+  name = 'Jane';
+  password = 'hunter2';
+
+  get displayName(): string {
+    return `User ${this.id}`;
+  }
+}
+
+class Money {
+  constructor(
+    private readonly amount: number,
+    private readonly currency: string,
+  ) {}
+
+  toJSON(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+describe('sanitizeObject', () => {
+  describe('circular references', () => {
+    it('should replace references to an ancestor, keeping shared references', () => {
+      const shared = { name: 'shared' };
+      const node: Record<string, unknown> = { shared, again: shared, token: 'abc' };
+      node.self = node;
+      node.children = [node, { parent: node }];
+
+      expect(sanitizeObject(node)).toEqual({
+        shared: { name: 'shared' },
+        again: { name: 'shared' },
+        token: '[REDACTED]',
+        self: CIRCULAR_MARKER,
+        children: [CIRCULAR_MARKER, { parent: CIRCULAR_MARKER }],
+      });
+    });
+
+    it('should mask circular values of redacted keys', () => {
+      const credentials: Record<string, unknown> = { key: 'abc' };
+      credentials.owner = credentials;
+
+      expect(sanitizeObject({ credentials })).toEqual({
+        credentials: { key: '[REDACTED]', owner: '[REDACTED]' },
+      });
+      expect(applyMaskingStrategy(credentials, 'length', { mask: '[REDACTED]' })).toEqual({
+        key: '***',
+        owner: '[REDACTED]',
+      });
+    });
+  });
+
+  describe('built-in types and class instances', () => {
+    it('should keep dates and serialize other built-in types', () => {
+      const date = new Date('2024-01-02T03:04:05.000Z');
+      const error = Object.assign(new TypeError('Invalid input'), { code: 'E_INPUT' });
+
+      const sanitized = sanitizeObject({
+        date,
+        url: new URL('https://example.com/reset?email=jane@example.com'),
+        pattern: /^\d+$/,
+        file: Buffer.from('abc'),
+        bytes: new Uint8Array(8),
+        settings: new Map<unknown, unknown>([
+          ['theme', 'dark'],
+          ['apiKey', 'abc'],
+        ]),
+        tags: new Set(['a', 'b']),
+        error,
+        pending: Promise.resolve(),
+      });
+
+      expect(sanitized).toEqual({
+        date,
+        url: 'https://example.com/reset?email=jane@example.com',
+        pattern: String.raw`/^\d+$/`,
+        file: '[Buffer 3 bytes]',
+        bytes: '[Uint8Array 8 bytes]',
+        settings: { theme: 'dark', apiKey: '[REDACTED]' },
+        tags: ['a', 'b'],
+        error: { name: 'TypeError', message: 'Invalid input', code: 'E_INPUT', stack: error.stack },
+        pending: '[Promise]',
+      });
+      expect(sanitized.date).not.toBe(date);
+      expect(
+        sanitizeObject(
+          { url: new URL('https://example.com/?email=jane@example.com') },
+          { detectPii: { detectors: ['email'] } },
+        ).url,
+      ).toBe('https://example.com/?email=[REDACTED]');
+    });
+
+    it('should use toJSON and the own properties of class instances', () => {
+      expect(sanitizeObject({ user: new UserEntity(), total: new Money(10, 'EUR') })).toEqual({
+        user: { id: 42, name: 'Jane', password: '[REDACTED]' },
+        total: '10 EUR',
+      });
+    });
+
+    it('should summarize requests and nested event emitters such as sockets', () => {
+      const socket = new Socket();
+      const request = new IncomingMessage(socket);
+      request.method = 'POST';
+      request.url = '/login';
+      request.headers = { authorization: 'Bearer abc', 'content-type': 'application/json' };
+      Object.assign(request, { body: { username: 'jane', password: 'hunter2' } });
+
+      expect(sanitizeObject({ request })).toEqual({
+        request: {
+          method: 'POST',
+          url: '/login',
+          headers: { authorization: '[REDACTED]', 'content-type': 'application/json' },
+          body: { username: 'jane', password: '[REDACTED]' },
+        },
+      });
+      expect(sanitizeObject({ socket, stream: new PassThrough() })).toEqual({
+        socket: '[Socket]',
+        stream: '[PassThrough]',
+      });
+      socket.destroy();
+    });
+  });
+
+  describe('size limits', () => {
+    it('should cap the depth, the number of values and the length of strings', () => {
+      const deep = { level1: { level2: { level3: { value: 1 } } } };
+
+      expect(sanitizeObject(deep, { maxDepth: 2 })).toEqual({
+        level1: { level2: { level3: MAX_DEPTH_MARKER } },
+      });
+      expect(sanitizeObject([1, 2, 3, 4, 5], { maxNodes: 3 })).toEqual([1, 2, 3, TRUNCATED_MARKER]);
+      expect(sanitizeObject({ a: 1, b: { c: 2, d: 3 }, e: 4 }, { maxNodes: 3 })).toEqual({
+        a: 1,
+        b: { c: 2, d: TRUNCATED_MARKER },
+        e: TRUNCATED_MARKER,
+      });
+      expect(sanitizeObject({ note: 'abcdef' }, { maxStringLength: 3 })).toEqual({
+        note: 'abc...[3 more characters]',
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { ConfigService } from '@nestjs/config';
+import { Type } from 'class-transformer';
+import { IsNotEmpty, IsString, ValidateNested } from 'class-validator';
+import { Request } from 'express';
+
+import {
+  ErrorLoggerService,
+  GlobalValidationPipe,
+  ValidationException,
+} from '../../src/common/exceptions';
+import { CustomLoggerService } from '../../src/common/logger';
+import {
+  bindSensitiveType,
+  getBoundSensitiveType,
+  getSensitiveProperties,
+  sanitizeObject,
+  Sensitive,
+} from '../../src/common/utils';
+import { mockCustomLoggerService, resetLoggerMocks } from '../utils/logger-mocks';
+
+function createConfigService(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: jest.fn().mockImplementation((key: string) => values[key]),
+  } as unknown as ConfigService;
+}
+
+class AddressDto {
+  @IsString()
+  city!: string;
+
+  @IsString()
+  @Sensitive()
+  street!: string;
+}
+
+class CustomerDto {
+  @IsString()
+  @IsNotEmpty()
+  name!: string;
+
+  @IsString()
+  @Sensitive({ strategy: 'last' })
+  phone!: string;
+
+  @IsString()
+  @Sensitive({ strategy: 'email' })
+  tokenType!: string;
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address!: AddressDto;
+}
+
+class VipCustomerDto extends CustomerDto {
+  @IsString()
+  @Sensitive()
+  tier!: string;
+}
+
+function createCustomer(): Record<string, unknown> {
+  return {
+    name: 'Jane',
+    phone: '+359888123456',
+    tokenType: 'jane@example.com',
+    address: { city: 'Sofia', street: '1 Vitosha Blvd' },
+    password: 'hunter2',
+  };
+}
+
+const sanitizedCustomer = {
+  name: 'Jane',
+  phone: '*********3456',
+  tokenType: 'j***@example.com',
+  address: { city: 'Sofia', street: '[REDACTED]' },
+  password: '[REDACTED]',
+};
+
+describe('@Sensitive()', () => {
+  it('should collect the sensitive properties of a class and its parents', () => {
+    expect(getSensitiveProperties(CustomerDto)).toEqual({
+      phone: { strategy: 'last' },
+      tokenType: { strategy: 'email' },
+    });
+    expect(getSensitiveProperties(VipCustomerDto)).toEqual({
+      phone: { strategy: 'last' },
+      tokenType: { strategy: 'email' },
+      tier: {},
+    });
+    expect(getSensitiveProperties(AddressDto)).toEqual({ street: {} });
+  });
+
+  it('should mask the sensitive properties of instances, before the rules and the allowlist', () => {
+    const customer = Object.assign(new CustomerDto(), createCustomer(), {
+      address: Object.assign(new AddressDto(), { city: 'Sofia', street: '1 Vitosha Blvd' }),
+    });
+
+    expect(sanitizeObject(customer)).toEqual(sanitizedCustomer);
+  });
+
+  it('should mask plain objects of the given type and their declared nested types', () => {
+    const customer = createCustomer();
+    bindSensitiveType(customer, CustomerDto);
+
+    expect(getBoundSensitiveType(customer)).toBe(CustomerDto);
+    expect(sanitizeObject(customer, { type: CustomerDto })).toEqual(sanitizedCustomer);
+    expect(sanitizeObject(customer)).toMatchObject({ tokenType: 'jane@example.com' });
+  });
+
+  it('should bind validated bodies, so the error logger masks them', async () => {
+    resetLoggerMocks();
+    const errorLogger = new ErrorLoggerService(
+      mockCustomLoggerService as unknown as CustomLoggerService,
+      createConfigService({ NODE_ENV: 'test' }),
+    );
+    const body = { ...createCustomer(), name: '' };
+
+    await expect(
+      new GlobalValidationPipe().transform(body, { type: 'body', metatype: CustomerDto }),
+    ).rejects.toThrow(ValidationException);
+    errorLogger.logException(
+      new ValidationException({ name: ['name should not be empty'] }),
+      {
+        status: 'error',
+        statusCode: 400,
+        message: 'Validation failed',
+        errorCode: 'E03001',
+        correlationId: 'corr-1',
+        timestamp: new Date().toISOString(),
+      },
+      { url: '/customers', method: 'POST', headers: {}, query: {}, body } as unknown as Request,
+    );
+
+    const context = mockCustomLoggerService.warn.mock.calls[0][1] as Record<string, unknown>;
+    expect(context.body).toEqual({ ...sanitizedCustomer, name: '' });
+  });
+});